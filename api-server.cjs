@@ -0,0 +1,6 @@
+require('ts-node').register({
+  transpileOnly: true,
+  moduleTypes: { 'src/**/*': 'cjs' }
+});
+
+require('./src/api/main.ts');
@@ -4,6 +4,7 @@ function fn() {
   karate.configure('printEnabled', true);
   
   return {
-    baseUrl: 'http://127.0.0.1:4010'
+    baseUrl: karate.properties['baseUrl'] || 'http://127.0.0.1:4010',
+    authToken: karate.properties['authToken'] || 'fake-token-for-testing'
   };
 }
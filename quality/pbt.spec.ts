@@ -8,14 +8,24 @@
  * 3. Generated emails and currencies pass validation
  * 4. Amount boundary: amount=0 is valid
  * 5. Duplicate detection: (activityId + email + date) triggers 409
+ * 6. Localized currency strings parse back to the amount they were formatted from
+ * 7. Cursor pagination visits every matching reservation exactly once, in order
+ * 8. Interleaved concurrent creations never land duplicates or overbook a slot
  */
 
 import * as fc from 'fast-check';
 import { Reservation } from '../src/domain/reservations/Reservation';
 import { ReservationService } from '../src/domain/reservations/ReservationService';
-import { EmailDuplicatePolicy, NoDuplicatePolicy } from '../src/domain/reservations/DuplicatePolicy';
+import { SORT_FIELDS, SORT_ORDERS } from '../src/domain/reservations/ReservationQuery';
+import { CompositeDuplicatePolicy, EmailDuplicatePolicy, NoDuplicatePolicy } from '../src/domain/reservations/DuplicatePolicy';
+import { DuplicateReservationError } from '../src/domain/reservations/ReservationErrors';
+import { InMemoryReservationRepository, ReservationRepository } from '../src/domain/reservations/ReservationRepository';
+import { Activity } from '../src/domain/activities/Activity';
+import { InMemoryActivityCatalog } from '../src/domain/activities/ActivityCatalog';
+import { SlotCapacityExceededError } from '../src/domain/activities/ActivityErrors';
 import { EmailValidator, Email } from '../src/utils/Email';
 import { CurrencyUtils, Currency } from '../src/utils/Currency';
+import { CurrencyFormatter, CURRENCY_LOCALES, CurrencyLocale } from '../src/utils/CurrencyFormatter';
 
 // ============================================================================
 // TEST CONFIGURATION
@@ -44,10 +54,10 @@ const NUM_RUNS = {
 // ============================================================================
 
 /**
- * Activity ID generator: simple format A-{number}
- * Examples: A-1, A-42, A-9999
+ * Activity ID generator: contract format act_tour_{number}
+ * Examples: act_tour_1, act_tour_42, act_tour_9999
  */
-const activityIdArbitrary = fc.integer({ min: 1, max: 9999 }).map(n => `A-${n}`);
+const activityIdArbitrary = fc.integer({ min: 1, max: 9999 }).map(n => `act_tour_${n}`);
 
 /**
  * Date generator: ISO 8601 format (YYYY-MM-DD)
@@ -84,10 +94,13 @@ const simpleEmailArbitrary = fc.tuple(
 ).map(([local, domain]) => EmailValidator.validate(`${local}@${domain}`));
 
 /**
- * Payment amount: non-negative with 2 decimal places
+ * Payment amount: non-negative with as many decimal places as the currency allows
+ * (2 for most currencies, 0 for JPY)
  */
-const amountArbitrary = fc.double({ min: 0, max: 5000, noNaN: true, noDefaultInfinity: true })
-  .map(n => parseFloat(n.toFixed(2)));
+const amountArbitrary = (code: string) => {
+  const scale = 10 ** CurrencyUtils.exponent(code);
+  return fc.integer({ min: 0, max: 5000 * scale }).map(minorUnits => minorUnits / scale);
+};
 
 /**
  * Currency code: ISO 4217 (3 uppercase letters)
@@ -101,8 +114,13 @@ const currencyCodeArbitrary = fc.oneof(
 /**
  * Currency object generator
  */
-const currencyArbitrary = fc.tuple(amountArbitrary, currencyCodeArbitrary)
-  .map(([amount, code]) => CurrencyUtils.create(amount, code));
+const currencyArbitrary = currencyCodeArbitrary
+  .chain(code => amountArbitrary(code).map(amount => CurrencyUtils.create(amount, code)));
+
+/**
+ * Locale generator: the languages supported by the contract
+ */
+const localeArbitrary = fc.constantFrom(...Object.keys(CURRENCY_LOCALES) as CurrencyLocale[]);
 
 /**
  * Customer name generator
@@ -142,13 +160,15 @@ const reservationInputArbitrary: fc.Arbitrary<ReservationInput> = fc.record({
 
 /**
  * Creates a Reservation from input data
- * Note: The current Reservation model is simplified (name, email, amount)
- * In a real scenario, it would include activityId, date, adults, children
+ * Adults and children are folded into numberOfPeople, as in the contract
  */
 function createReservationFromInput(input: ReservationInput): Reservation {
   return Reservation.create({
+    activityId: input.activityId,
     name: input.name,
     email: input.email,
+    date: input.date,
+    numberOfPeople: input.adults + input.children,
     amount: input.amount
   });
 }
@@ -166,6 +186,14 @@ function isDuplicateByBusinessRule(a: ReservationInput, b: ReservationInput): bo
   return a.email === b.email;
 }
 
+/**
+ * Full business rule from the OpenAPI contract (CompositeDuplicatePolicy)
+ * duplicate = same (activityId + email + date)
+ */
+function isDuplicateByCompositeRule(a: ReservationInput, b: ReservationInput): boolean {
+  return a.activityId === b.activityId && a.email === b.email && a.date === b.date;
+}
+
 // ============================================================================
 // PROPERTY 1: Valid inputs never cause 5xx errors
 // ============================================================================
@@ -193,7 +221,7 @@ describe('Property-Based Testing - Reservation Domain', () => {
 
     it('should handle all valid currency codes without errors', () => {
       fc.assert(
-        fc.property(currencyCodeArbitrary, amountArbitrary, (code, amount) => {
+        fc.property(currencyCodeArbitrary.chain(code => fc.tuple(fc.constant(code), amountArbitrary(code))), ([code, amount]) => {
           // Valid currency codes should not throw
           const currency = CurrencyUtils.create(amount, code);
 
@@ -299,18 +327,43 @@ describe('Property-Based Testing - Reservation Domain', () => {
     it('should handle currency operations correctly', () => {
       fc.assert(
         fc.property(
-          amountArbitrary,
-          amountArbitrary,
-          currencyCodeArbitrary,
-          (amount1, amount2, code) => {
+          currencyCodeArbitrary.chain(code => fc.tuple(amountArbitrary(code), amountArbitrary(code), fc.constant(code))),
+          ([amount1, amount2, code]) => {
             const currency1 = CurrencyUtils.create(amount1, code);
             const currency2 = CurrencyUtils.create(amount2, code);
 
-            // Addition should work for same currency
+            // Addition should work for same currency, exactly in minor units
             const sum = CurrencyUtils.add(currency1, currency2);
 
             expect(sum.currency).toBe(code);
             expect(sum.amount).toBeCloseTo(amount1 + amount2, 2);
+            expect(sum.minorUnits).toBe(currency1.minorUnits + currency2.minorUnits);
+
+            // Subtraction undoes addition
+            expect(CurrencyUtils.equals(CurrencyUtils.subtract(sum, currency2), currency1)).toBe(true);
+          }
+        ),
+        { numRuns: NUM_RUNS.medium }
+      );
+    });
+
+    it('should allocate amounts without losing minor units', () => {
+      fc.assert(
+        fc.property(
+          currencyArbitrary,
+          fc.array(fc.integer({ min: 0, max: 10 }), { minLength: 1, maxLength: 10 })
+            .filter(ratios => ratios.some(ratio => ratio > 0)),
+          (currency, ratios) => {
+            const shares = CurrencyUtils.allocate(currency, ratios);
+            const total = shares.reduce((sum, share) => CurrencyUtils.add(sum, share), CurrencyUtils.zero(currency.currency));
+
+            expect(shares).toHaveLength(ratios.length);
+            expect(CurrencyUtils.equals(total, currency)).toBe(true);
+            shares.forEach((share, i) => {
+              if (ratios[i] === 0) {
+                expect(CurrencyUtils.isZero(share)).toBe(true);
+              }
+            });
           }
         ),
         { numRuns: NUM_RUNS.medium }
@@ -333,7 +386,14 @@ describe('Property-Based Testing - Reservation Domain', () => {
             const service = new ReservationService(new NoDuplicatePolicy());
             const amount = CurrencyUtils.create(0, code);
 
-            const reservation = Reservation.create({ name, email, amount });
+            const reservation = Reservation.create({
+              activityId: 'act_free_walking_tour_2024',
+              name,
+              email,
+              date: '2024-12-25',
+              numberOfPeople: 1,
+              amount
+            });
             const result = await service.createReservation(reservation);
 
             expect(result).toBeDefined();
@@ -366,8 +426,10 @@ describe('Property-Based Testing - Reservation Domain', () => {
           const zero = CurrencyUtils.create(0, code);
           expect(zero.amount).toBe(0);
 
-          const small = CurrencyUtils.create(0.01, code);
-          expect(small.amount).toBe(0.01);
+          const smallest = 10 ** -CurrencyUtils.exponent(code);
+          const small = CurrencyUtils.create(smallest, code);
+          expect(small.amount).toBe(smallest);
+          expect(small.minorUnits).toBe(1);
 
           const large = CurrencyUtils.create(5000, code);
           expect(large.amount).toBe(5000);
@@ -378,7 +440,7 @@ describe('Property-Based Testing - Reservation Domain', () => {
   });
 
   // ============================================================================
-  // PROPERTY 5: Duplicate detection based on email (current implementation)
+  // PROPERTY 5: Duplicate detection (email-only and composite policies)
   // ============================================================================
 
   describe('Property 5: Duplicate detection logic', () => {
@@ -415,6 +477,42 @@ describe('Property-Based Testing - Reservation Domain', () => {
       );
     });
 
+    it('should detect duplicates only on activityId + email + date with CompositeDuplicatePolicy', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          reservationInputArbitrary,
+          fc.record({
+            activityId: fc.option(activityIdArbitrary, { nil: undefined }),
+            email: fc.option(simpleEmailArbitrary, { nil: undefined }),
+            date: fc.option(dateArbitrary, { nil: undefined })
+          }),
+          async (input1, changes) => {
+            const service = new ReservationService(new CompositeDuplicatePolicy());
+
+            // Second input shares every field not overridden by the generated changes
+            const input2: ReservationInput = {
+              ...input1,
+              activityId: changes.activityId ?? input1.activityId,
+              email: changes.email ?? input1.email,
+              date: changes.date ?? input1.date
+            };
+
+            const created = await service.createReservation(createReservationFromInput(input1));
+
+            if (isDuplicateByCompositeRule(input1, input2)) {
+              const error = await service.createReservation(createReservationFromInput(input2)).catch(e => e);
+              expect(error.message).toContain('Duplicate reservation detected');
+              expect(error.existingReservation).toBe(created);
+            } else {
+              const result = await service.createReservation(createReservationFromInput(input2));
+              expect(result).toBeDefined();
+            }
+          }
+        ),
+        { numRuns: NUM_RUNS.medium }
+      );
+    });
+
     it('should allow same email with NoDuplicatePolicy', async () => {
       await fc.assert(
         fc.asyncProperty(
@@ -463,6 +561,164 @@ describe('Property-Based Testing - Reservation Domain', () => {
     });
   });
 
+  // ============================================================================
+  // PROPERTY 6: Locale-aware formatting round-trips
+  // ============================================================================
+
+  describe('Property 6: Localized currency formatting round-trips', () => {
+    it('should parse every formatted amount back to the same currency', () => {
+      fc.assert(
+        fc.property(currencyArbitrary, localeArbitrary, (currency, locale) => {
+          const formatted = CurrencyFormatter.format(currency, locale);
+
+          expect(CurrencyUtils.equals(CurrencyFormatter.parse(formatted, locale), currency)).toBe(true);
+        }),
+        { numRuns: NUM_RUNS.standard }
+      );
+    });
+
+    it('should format the same amount identically after a round-trip', () => {
+      fc.assert(
+        fc.property(currencyArbitrary, localeArbitrary, (currency, locale) => {
+          const formatted = CurrencyFormatter.format(currency, locale);
+
+          expect(CurrencyFormatter.format(CurrencyFormatter.parse(formatted, locale), locale)).toBe(formatted);
+        }),
+        { numRuns: NUM_RUNS.medium }
+      );
+    });
+  });
+
+  // ============================================================================
+  // PROPERTY 7: Cursor pagination is complete and stable
+  // ============================================================================
+
+  describe('Property 7: Cursor pagination visits every match exactly once', () => {
+    it('should return the same reservations page by page as in a single page', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.array(reservationInputArbitrary, { minLength: 0, maxLength: 15 }),
+          fc.constantFrom(...SORT_FIELDS),
+          fc.constantFrom(...SORT_ORDERS),
+          fc.integer({ min: 1, max: 5 }),
+          async (inputs, sortBy, sortOrder, limit) => {
+            const service = new ReservationService(new NoDuplicatePolicy());
+            for (const input of inputs) {
+              await service.createReservation(createReservationFromInput(input));
+            }
+
+            // Amounts are only ordered within one currency
+            const currency = sortBy === 'amount' ? inputs[0]?.amount.currency ?? 'EUR' : undefined;
+            const everything = await service.listReservations({ currency, sortBy, sortOrder, limit: 100 });
+            const paged: string[] = [];
+            let cursor: string | undefined;
+            do {
+              const page = await service.listReservations({ currency, sortBy, sortOrder, limit, cursor });
+              expect(page.items.length).toBeLessThanOrEqual(limit);
+              paged.push(...page.items.map(r => r.id));
+              cursor = page.nextCursor;
+            } while (cursor !== undefined);
+
+            expect(paged).toEqual(everything.items.map(r => r.id));
+            expect(new Set(paged).size).toBe(inputs.filter(input => currency === undefined || input.amount.currency === currency).length);
+          }
+        ),
+        { numRuns: NUM_RUNS.medium }
+      );
+    });
+  });
+
+  // ============================================================================
+  // PROPERTY 8: Check-and-reserve is atomic under concurrency
+  // ============================================================================
+
+  describe('Property 8: Concurrent creations never duplicate or overbook', () => {
+    const SLOT_CAPACITY = 6;
+    const catalog = new InMemoryActivityCatalog([new Activity({
+      id: 'act_madrid_tour_2024',
+      names: { en: 'Madrid City Walking Tour' },
+      schedule: {
+        daysOfWeek: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'],
+        slots: [{ time: '10:00', capacity: SLOT_CAPACITY }, { time: '16:00', capacity: SLOT_CAPACITY }]
+      },
+      pricePerPerson: CurrencyUtils.create(44.95, 'EUR')
+    })]);
+
+    /**
+     * Repository whose every call resolves when the scheduler decides,
+     * so reads and writes of concurrent creations interleave arbitrarily
+     */
+    function scheduledRepository(s: fc.Scheduler): ReservationRepository {
+      const inner = new InMemoryReservationRepository();
+      return {
+        save: s.scheduleFunction(async (reservation: Reservation) => inner.save(reservation)),
+        findById: s.scheduleFunction(async (id: string) => inner.findById(id)),
+        findAll: s.scheduleFunction(async () => inner.findAll()),
+        delete: s.scheduleFunction(async (id: string) => inner.delete(id))
+      };
+    }
+
+    const bookingArbitrary = fc.record({
+      email: fc.constantFrom('ana@example.com', 'luis@example.com', 'eva@example.com'),
+      date: fc.constantFrom('2024-12-15', '2024-12-16'),
+      time: fc.constantFrom('10:00', '16:00'),
+      numberOfPeople: fc.integer({ min: 1, max: 4 })
+    });
+
+    it('should keep duplicates out and slots within capacity', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.scheduler(),
+          fc.array(bookingArbitrary, { minLength: 2, maxLength: 8 }),
+          async (s, bookings) => {
+            const service = new ReservationService(new CompositeDuplicatePolicy(), {
+              repository: scheduledRepository(s),
+              catalog,
+              now: () => new Date('2024-12-01T00:00:00.000Z')
+            });
+
+            const results = await s.waitFor(Promise.allSettled(bookings.map(booking =>
+              service.createReservation(Reservation.create({
+                activityId: 'act_madrid_tour_2024',
+                name: 'Guest',
+                email: EmailValidator.validate(booking.email),
+                date: booking.date,
+                time: booking.time,
+                numberOfPeople: booking.numberOfPeople,
+                amount: CurrencyUtils.create(44.95, 'EUR')
+              }))
+            )));
+
+            for (const result of results) {
+              if (result.status === 'rejected') {
+                expect(
+                  result.reason instanceof DuplicateReservationError ||
+                  result.reason instanceof SlotCapacityExceededError
+                ).toBe(true);
+              }
+            }
+
+            const stored = await s.waitFor(service.getAllReservations());
+            expect(stored).toHaveLength(results.filter(r => r.status === 'fulfilled').length);
+
+            const duplicateKeys = stored.map(r => `${r.email}|${r.date}`);
+            expect(new Set(duplicateKeys).size).toBe(duplicateKeys.length);
+
+            const booked = new Map<string, number>();
+            for (const r of stored) {
+              const slot = `${r.date}|${r.time}`;
+              booked.set(slot, (booked.get(slot) ?? 0) + r.numberOfPeople);
+            }
+            for (const people of booked.values()) {
+              expect(people).toBeLessThanOrEqual(SLOT_CAPACITY);
+            }
+          }
+        ),
+        { numRuns: NUM_RUNS.medium }
+      );
+    });
+  });
+
   // ============================================================================
   // BONUS: Idempotency and invariant properties
   // ============================================================================
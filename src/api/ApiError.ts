@@ -0,0 +1,12 @@
+import { DomainError } from '../errors/DomainError';
+
+export class ApiError extends DomainError {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    details?: Record<string, unknown>
+  ) {
+    super(message, details);
+  }
+}
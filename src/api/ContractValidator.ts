@@ -0,0 +1,243 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import { parse } from 'yaml';
+import { EmailValidator } from '../utils/Email';
+import { ValidationErrorItem } from './ReservationContract';
+
+type Schema = Record<string, unknown>;
+
+interface Parameter {
+  name: string;
+  in: string;
+  required?: boolean;
+  schema?: Schema;
+}
+
+type ParameterOrReference = Parameter | { $ref: string };
+
+export interface OpenApiDocument {
+  paths: Record<string, Record<string, { operationId?: string; parameters?: ParameterOrReference[] }>>;
+  components: { schemas: Record<string, Schema>; parameters?: Record<string, Parameter> };
+}
+
+export const CONTRACT_PATH = resolve(__dirname, '../../openapi/reservations.yaml');
+
+const FORMAT_EXAMPLES: Readonly<Record<string, string>> = {
+  email: 'user@example.com',
+  date: '2024-12-15',
+  'date-time': '2024-10-23T14:30:00Z',
+  uuid: '550e8400-e29b-41d4-a716-446655440000'
+};
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+export class ContractValidator {
+  private readonly ajv: Ajv;
+  private readonly schemas = new Map<string, ValidateFunction>();
+
+  constructor(private readonly document: OpenApiDocument) {
+    this.ajv = new Ajv({ allErrors: true, strict: false, verbose: true });
+    addFormats(this.ajv);
+    this.ajv.addFormat('email', value => EmailValidator.parse(value).valid);
+    this.ajv.addSchema({ components: document.components }, 'contract');
+  }
+
+  static fromFile(filePath: string = CONTRACT_PATH): ContractValidator {
+    return new ContractValidator(parse(readFileSync(filePath, 'utf-8')) as OpenApiDocument);
+  }
+
+  validateSchema(schemaName: string, value: unknown): ValidationErrorItem[] {
+    return this.toItems(this.compiled(schemaName, () => ({ $ref: `contract#/components/schemas/${schemaName}` })), value);
+  }
+
+  validateQuery(operationId: string, query: URLSearchParams): ValidationErrorItem[] {
+    const parameters = this.parametersOf(operationId).filter(parameter => parameter.in === 'query');
+    const validate = this.compiled(`${operationId}#query`, () => ({
+      type: 'object',
+      required: parameters.filter(parameter => parameter.required).map(parameter => parameter.name),
+      properties: Object.fromEntries(parameters.map(parameter => [
+        parameter.name,
+        { title: parameter.name, ...this.rebase(parameter.schema ?? {}) }
+      ]))
+    }));
+
+    const values = Object.fromEntries(parameters
+      .filter(parameter => query.has(parameter.name))
+      .map(parameter => [parameter.name, this.coerce(query.get(parameter.name)!, parameter.schema ?? {})]));
+    return this.toItems(validate, values).map(item => (
+      query.has(item.field) ? { ...item, rejectedValue: query.get(item.field) } : item
+    ));
+  }
+
+  private compiled(key: string, schema: () => Schema): ValidateFunction {
+    let validate = this.schemas.get(key);
+    if (!validate) {
+      validate = this.ajv.compile(schema());
+      this.schemas.set(key, validate);
+    }
+    return validate;
+  }
+
+  private parametersOf(operationId: string): Parameter[] {
+    for (const operations of Object.values(this.document.paths)) {
+      for (const operation of Object.values(operations)) {
+        if (operation.operationId === operationId) {
+          return (operation.parameters ?? []).map(parameter => this.resolveParameter(parameter));
+        }
+      }
+    }
+    throw new Error(`Operation ${operationId} is not defined in the contract`);
+  }
+
+  private resolveParameter(parameter: ParameterOrReference): Parameter {
+    if (!('$ref' in parameter)) {
+      return parameter;
+    }
+    return this.document.components.parameters![parameter.$ref.replace('#/components/parameters/', '')];
+  }
+
+  private rebase(schema: Schema): Schema {
+    return JSON.parse(JSON.stringify(schema).replace(/"\$ref":"#\//g, '"$ref":"contract#/'));
+  }
+
+  private coerce(value: string, schema: Schema): unknown {
+    if ((schema.type === 'number' || schema.type === 'integer') && NUMBER_PATTERN.test(value)) {
+      return Number(value);
+    }
+    if (schema.type === 'boolean' && (value === 'true' || value === 'false')) {
+      return value === 'true';
+    }
+    return value;
+  }
+
+  private toItems(validate: ValidateFunction, value: unknown): ValidationErrorItem[] {
+    if (validate(value)) {
+      return [];
+    }
+
+    const items = new Map<string, ValidationErrorItem>();
+    for (const error of validate.errors ?? []) {
+      const item = this.toItem(error);
+      if (!items.has(item.field)) {
+        items.set(item.field, item);
+      }
+    }
+    return [...items.values()];
+  }
+
+  private toItem(error: ErrorObject): ValidationErrorItem {
+    const path = error.instancePath
+      .split('/')
+      .slice(1)
+      .reduce((field, segment) => (/^\d+$/.test(segment) ? `${field}[${segment}]` : field ? `${field}.${segment}` : segment), '');
+    const schema = (error.parentSchema ?? {}) as Schema;
+    const label = this.label(schema, path);
+
+    switch (error.keyword) {
+      case 'required': {
+        const property = (error.params as { missingProperty: string }).missingProperty;
+        const field = path ? `${path}.${property}` : property;
+        const properties = (schema.properties ?? {}) as Record<string, Schema>;
+        return { field, message: `${this.label(properties[property] ?? {}, field)} is required`, code: 'FIELD_REQUIRED' };
+      }
+      case 'additionalProperties': {
+        const property = (error.params as { additionalProperty: string }).additionalProperty;
+        const field = path ? `${path}.${property}` : property;
+        return {
+          field,
+          message: 'Field is not accepted by this request',
+          code: 'INVALID_VALUE',
+          rejectedValue: (error.data as Record<string, unknown>)[property]
+        };
+      }
+      case 'minProperties':
+        return { field: path || 'body', message: 'At least one field must be provided', code: 'FIELD_REQUIRED' };
+      case 'type':
+        if (!path) {
+          return { field: 'body', message: 'Request body must be a JSON object', code: 'INVALID_FORMAT' };
+        }
+        return {
+          field: path,
+          message: `${label} must be ${/^[aeiou]/.test(String(error.params.type)) ? 'an' : 'a'} ${error.params.type}`,
+          code: 'INVALID_VALUE',
+          rejectedValue: error.data
+        };
+      case 'enum':
+        return {
+          field: path,
+          message: `${label} must be one of ${(error.params.allowedValues as unknown[]).join(', ')}`,
+          code: 'INVALID_VALUE',
+          rejectedValue: error.data
+        };
+      case 'pattern':
+      case 'format':
+        return {
+          field: path,
+          message: `${label} format is invalid${this.formatReason(error)}`,
+          code: 'INVALID_FORMAT',
+          rejectedValue: error.data,
+          expectedFormat: FORMAT_EXAMPLES[String(error.params.format)] ?? this.example(schema)
+        };
+      case 'minimum':
+      case 'maximum':
+      case 'exclusiveMinimum':
+      case 'exclusiveMaximum': {
+        const allowedRange = { min: schema.minimum as number | undefined, max: schema.maximum as number | undefined };
+        return {
+          field: path,
+          message: `${label} must be ${this.range(allowedRange.min, allowedRange.max, '')}`,
+          code: 'OUT_OF_RANGE',
+          rejectedValue: error.data,
+          allowedRange: Object.fromEntries(Object.entries(allowedRange).filter(([, bound]) => bound !== undefined))
+        };
+      }
+      case 'minLength':
+      case 'maxLength':
+        return {
+          field: path,
+          message: `${label} must be ${this.range(schema.minLength as number | undefined, schema.maxLength as number | undefined, ' characters')}`,
+          code: 'INVALID_VALUE',
+          rejectedValue: error.data
+        };
+      case 'minItems':
+      case 'maxItems':
+        return {
+          field: path,
+          message: `${label} must have ${this.range(schema.minItems as number | undefined, schema.maxItems as number | undefined, ' entries')}`,
+          code: 'INVALID_VALUE'
+        };
+      default:
+        return { field: path || 'body', message: `${label} ${error.message}`, code: 'INVALID_VALUE', rejectedValue: error.data };
+    }
+  }
+
+  private label(schema: Schema, field: string): string {
+    if (typeof schema.title === 'string') {
+      return schema.title;
+    }
+    const name = field.replace(/\[\d+\]$/, '').split('.').pop() || 'Body';
+    const words = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+    return `${words.charAt(0).toUpperCase()}${words.slice(1)}`;
+  }
+
+  private range(min: number | undefined, max: number | undefined, unit: string): string {
+    if (min !== undefined && max !== undefined) {
+      return `between ${min} and ${max}${unit}`;
+    }
+    return min !== undefined ? `at least ${min}${unit}` : `at most ${max}${unit}`;
+  }
+
+  private formatReason(error: ErrorObject): string {
+    if (error.keyword === 'format' && error.params.format === 'email' && typeof error.data === 'string') {
+      const result = EmailValidator.parse(error.data);
+      return result.valid ? '' : `: ${result.message}`;
+    }
+    return '';
+  }
+
+  private example(schema: Schema): string | undefined {
+    return typeof schema.example === 'string' ? schema.example : undefined;
+  }
+}
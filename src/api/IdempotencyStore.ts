@@ -0,0 +1,93 @@
+import { createHash } from 'crypto';
+
+export const DEFAULT_IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface StoredResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export type IdempotencyRecord =
+  | { state: 'in-progress'; fingerprint: string }
+  | { state: 'completed'; fingerprint: string; response: StoredResponse };
+
+export interface IdempotencyStore {
+  claim(key: string, fingerprint: string): Promise<IdempotencyRecord | undefined>;
+  complete(key: string, response: StoredResponse): Promise<void>;
+  release(key: string): Promise<void>;
+}
+
+export function requestFingerprint(operationId: string, body: unknown): string {
+  return createHash('sha256').update(`${operationId}\n${canonicalJson(body)}`).digest('hex');
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value).sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  // Records are kept in expiry order, so expired ones are always at the front of the map
+  private records: Map<string, { record: IdempotencyRecord; expiresAt: number }> = new Map();
+
+  constructor(
+    private readonly ttlMs: number = DEFAULT_IDEMPOTENCY_TTL_MS,
+    private readonly maxKeys: number = 10000
+  ) {}
+
+  async claim(key: string, fingerprint: string): Promise<IdempotencyRecord | undefined> {
+    const now = Date.now();
+    this.purge(now);
+    const existing = this.records.get(key);
+    if (existing) {
+      return existing.record;
+    }
+
+    this.store(key, { state: 'in-progress', fingerprint }, now);
+    return undefined;
+  }
+
+  async complete(key: string, response: StoredResponse): Promise<void> {
+    const existing = this.records.get(key);
+    if (existing) {
+      this.store(key, { state: 'completed', fingerprint: existing.record.fingerprint, response }, Date.now());
+    }
+  }
+
+  async release(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+
+  private store(key: string, record: IdempotencyRecord, now: number): void {
+    this.records.delete(key);
+    this.records.set(key, { record, expiresAt: now + this.ttlMs });
+    // When full, the record closest to expiring makes room for the new one
+    for (const oldest of this.records.keys()) {
+      if (this.records.size <= this.maxKeys) {
+        break;
+      }
+      this.records.delete(oldest);
+    }
+  }
+
+  private purge(now: number): void {
+    for (const [key, { expiresAt }] of this.records) {
+      if (expiresAt > now) {
+        break;
+      }
+      this.records.delete(key);
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { createHmac, KeyObject, timingSafeEqual, verify } from 'crypto';
+import { ApiError } from './ApiError';
+
+export const JWT_ALGORITHMS = ['HS256', 'RS256'] as const;
+export type JwtAlgorithm = typeof JWT_ALGORITHMS[number];
+
+export type InvalidTokenReason =
+  | 'MALFORMED'
+  | 'UNSUPPORTED_ALGORITHM'
+  | 'UNKNOWN_KEY'
+  | 'BAD_SIGNATURE'
+  | 'MISSING_EXPIRATION'
+  | 'EXPIRED'
+  | 'NOT_YET_VALID'
+  | 'WRONG_ISSUER'
+  | 'WRONG_AUDIENCE';
+
+export interface JwtKey {
+  algorithm: JwtAlgorithm;
+  key: string | Buffer | KeyObject;
+  kid?: string;
+}
+
+export interface JwtVerifierOptions {
+  keys: JwtKey[];
+  issuer?: string;
+  audience?: string;
+  clockToleranceSeconds?: number;
+}
+
+export interface JwtClaims {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  scope?: string;
+  roles?: string[];
+  [claim: string]: unknown;
+}
+
+interface JwtHeader {
+  alg?: unknown;
+  kid?: unknown;
+}
+
+export class InvalidTokenError extends ApiError {
+  constructor(public readonly reason: InvalidTokenReason) {
+    super(401, 'AUTH_TOKEN_INVALID', 'The provided authentication token is invalid or expired');
+  }
+}
+
+export class JwtVerifier {
+  private readonly clockToleranceSeconds: number;
+
+  constructor(private readonly options: JwtVerifierOptions) {
+    this.clockToleranceSeconds = options.clockToleranceSeconds ?? 30;
+  }
+
+  verify(token: string, now: Date = new Date()): JwtClaims {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new InvalidTokenError('MALFORMED');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = JwtVerifier.decodeJson(encodedHeader) as JwtHeader;
+    if (!(JWT_ALGORITHMS as readonly unknown[]).includes(header.alg)) {
+      throw new InvalidTokenError('UNSUPPORTED_ALGORITHM');
+    }
+
+    const algorithm = header.alg as JwtAlgorithm;
+    const candidates = this.options.keys.filter(key =>
+      key.algorithm === algorithm && (header.kid === undefined || key.kid === undefined || key.kid === header.kid)
+    );
+    if (candidates.length === 0) {
+      throw new InvalidTokenError('UNKNOWN_KEY');
+    }
+
+    const signingInput = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    const signature = Buffer.from(encodedSignature, 'base64url');
+    if (!candidates.some(key => JwtVerifier.hasValidSignature(key, signingInput, signature))) {
+      throw new InvalidTokenError('BAD_SIGNATURE');
+    }
+
+    const claims = JwtVerifier.decodeJson(encodedPayload) as JwtClaims;
+    this.assertValidClaims(claims, now);
+    return claims;
+  }
+
+  private assertValidClaims(claims: JwtClaims, now: Date): void {
+    const seconds = Math.floor(now.getTime() / 1000);
+
+    if (typeof claims.exp !== 'number') {
+      throw new InvalidTokenError('MISSING_EXPIRATION');
+    }
+    if (seconds - this.clockToleranceSeconds >= claims.exp) {
+      throw new InvalidTokenError('EXPIRED');
+    }
+    if (typeof claims.nbf === 'number' && seconds + this.clockToleranceSeconds < claims.nbf) {
+      throw new InvalidTokenError('NOT_YET_VALID');
+    }
+    if (this.options.issuer !== undefined && claims.iss !== this.options.issuer) {
+      throw new InvalidTokenError('WRONG_ISSUER');
+    }
+    if (this.options.audience !== undefined) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (!audiences.includes(this.options.audience)) {
+        throw new InvalidTokenError('WRONG_AUDIENCE');
+      }
+    }
+  }
+
+  private static hasValidSignature(key: JwtKey, signingInput: Buffer, signature: Buffer): boolean {
+    if (key.algorithm === 'HS256') {
+      const expected = createHmac('sha256', key.key).update(signingInput).digest();
+      return expected.length === signature.length && timingSafeEqual(expected, signature);
+    }
+
+    try {
+      return verify('RSA-SHA256', signingInput, key.key, signature);
+    } catch {
+      return false;
+    }
+  }
+
+  private static decodeJson(segment: string): Record<string, unknown> {
+    let decoded: unknown;
+    try {
+      decoded = JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+    } catch {
+      throw new InvalidTokenError('MALFORMED');
+    }
+
+    if (typeof decoded !== 'object' || decoded === null || Array.isArray(decoded)) {
+      throw new InvalidTokenError('MALFORMED');
+    }
+    return decoded as Record<string, unknown>;
+  }
+}
@@ -0,0 +1,96 @@
+export const RATE_LIMIT_DIMENSIONS = ['ip', 'subject', 'email'] as const;
+export type RateLimitDimension = typeof RATE_LIMIT_DIMENSIONS[number];
+
+export interface TokenBucketRule {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export type RateLimitRules = Partial<Record<RateLimitDimension, TokenBucketRule>>;
+
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterMs: number;
+  resetMs: number;
+}
+
+export interface RateLimitStore {
+  consume(key: string, rule: TokenBucketRule, now: number): Promise<RateLimitDecision>;
+}
+
+export class TokenBucket {
+  // Parses `<capacity>/<seconds>`, e.g. `10/60` for ten requests a minute; `off` disables the limit
+  static parseRule(value: string): TokenBucketRule | undefined {
+    if (value.trim().toLowerCase() === 'off') {
+      return undefined;
+    }
+    const match = value.trim().match(/^(\d+)\s*\/\s*(\d+(?:\.\d+)?)s?$/);
+    if (!match || Number(match[1]) < 1 || Number(match[2]) <= 0) {
+      throw new Error(`Invalid rate limit "${value}"; expected <capacity>/<seconds> or off`);
+    }
+    return { capacity: Number(match[1]), refillPerSecond: Number(match[1]) / Number(match[2]) };
+  }
+
+  static take(
+    state: TokenBucketState | undefined,
+    rule: TokenBucketRule,
+    now: number
+  ): { state: TokenBucketState; decision: RateLimitDecision } {
+    const refilled = state
+      ? Math.min(rule.capacity, state.tokens + ((now - state.updatedAt) / 1000) * rule.refillPerSecond)
+      : rule.capacity;
+    const allowed = refilled >= 1;
+    const tokens = allowed ? refilled - 1 : refilled;
+
+    return {
+      state: { tokens, updatedAt: now },
+      decision: {
+        allowed,
+        limit: rule.capacity,
+        remaining: Math.floor(tokens),
+        retryAfterMs: allowed ? 0 : Math.ceil(((1 - tokens) / rule.refillPerSecond) * 1000),
+        resetMs: Math.ceil(((rule.capacity - tokens) / rule.refillPerSecond) * 1000)
+      }
+    };
+  }
+}
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private buckets: Map<string, { state: TokenBucketState; rule: TokenBucketRule }> = new Map();
+
+  constructor(private readonly maxKeys: number = 10000) {}
+
+  async consume(key: string, rule: TokenBucketRule, now: number): Promise<RateLimitDecision> {
+    const { state, decision } = TokenBucket.take(this.buckets.get(key)?.state, rule, now);
+    // Re-inserting keeps the map in least recently used order, so the bucket to evict is always the first one
+    this.buckets.delete(key);
+    this.buckets.set(key, { state, rule });
+    if (this.buckets.size > this.maxKeys) {
+      this.buckets.delete(this.buckets.keys().next().value as string);
+    }
+    return decision;
+  }
+}
+
+export class RateLimiter {
+  constructor(
+    private readonly rules: RateLimitRules,
+    private readonly store: RateLimitStore = new InMemoryRateLimitStore(),
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async consume(dimension: RateLimitDimension, value: string | undefined): Promise<RateLimitDecision | undefined> {
+    const rule = this.rules[dimension];
+    if (!rule || !value) {
+      return undefined;
+    }
+    return this.store.consume(`${dimension}:${value}`, rule, this.now());
+  }
+}
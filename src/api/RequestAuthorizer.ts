@@ -0,0 +1,76 @@
+import { ApiError } from './ApiError';
+import { JwtClaims, JwtVerifier } from './JwtVerifier';
+
+export interface AuthorizedPrincipal {
+  subject?: string;
+}
+
+export interface RequestAuthorizer {
+  authorize(token: string, operationId: string): Promise<AuthorizedPrincipal>;
+}
+
+export class AllowAllAuthorizer implements RequestAuthorizer {
+  async authorize(_token: string, _operationId: string): Promise<AuthorizedPrincipal> {
+    return {};
+  }
+}
+
+export const ROLES = ['VIEWER', 'BOOKING_AGENT'] as const;
+export type Role = typeof ROLES[number];
+
+export const ROLE_SCOPES: Readonly<Record<Role, readonly string[]>> = {
+  VIEWER: ['reservations:read'],
+  BOOKING_AGENT: ['reservations:read', 'reservations:create', 'reservations:update', 'reservations:cancel']
+};
+
+interface OperationPermission {
+  scope: string;
+  requiredRole: Role;
+  message: string;
+}
+
+const DEFAULT_FORBIDDEN_MESSAGE = 'You do not have permission to perform this operation';
+
+export const OPERATION_PERMISSIONS: Readonly<Record<string, OperationPermission>> = {
+  createReservation: {
+    scope: 'reservations:create',
+    requiredRole: 'BOOKING_AGENT',
+    message: 'You do not have permission to create reservations for this activity'
+  },
+  listReservations: { scope: 'reservations:read', requiredRole: 'VIEWER', message: DEFAULT_FORBIDDEN_MESSAGE },
+  getReservation: { scope: 'reservations:read', requiredRole: 'VIEWER', message: DEFAULT_FORBIDDEN_MESSAGE },
+  getReservationQrCode: { scope: 'reservations:read', requiredRole: 'VIEWER', message: DEFAULT_FORBIDDEN_MESSAGE },
+  updateReservation: { scope: 'reservations:update', requiredRole: 'BOOKING_AGENT', message: DEFAULT_FORBIDDEN_MESSAGE },
+  cancelReservation: { scope: 'reservations:cancel', requiredRole: 'BOOKING_AGENT', message: DEFAULT_FORBIDDEN_MESSAGE }
+};
+
+export class JwtAuthorizer implements RequestAuthorizer {
+  constructor(private readonly verifier: JwtVerifier) {}
+
+  async authorize(token: string, operationId: string): Promise<AuthorizedPrincipal> {
+    const claims = this.verifier.verify(token);
+    const permission = OPERATION_PERMISSIONS[operationId];
+    if (!permission) {
+      throw new ApiError(403, 'INSUFFICIENT_PERMISSIONS', DEFAULT_FORBIDDEN_MESSAGE);
+    }
+
+    if (!JwtAuthorizer.grantedScopes(claims).has(permission.scope)) {
+      throw new ApiError(403, 'INSUFFICIENT_PERMISSIONS', permission.message, {
+        requiredRole: permission.requiredRole,
+        currentRole: JwtAuthorizer.roles(claims)[0]
+      });
+    }
+    return { subject: claims.sub };
+  }
+
+  private static grantedScopes(claims: JwtClaims): Set<string> {
+    const scopes = typeof claims.scope === 'string' ? claims.scope.split(' ').filter(Boolean) : [];
+    return new Set([...scopes, ...this.roles(claims).flatMap(role => ROLE_SCOPES[role])]);
+  }
+
+  private static roles(claims: JwtClaims): Role[] {
+    return Array.isArray(claims.roles)
+      ? claims.roles.filter((role): role is Role => (ROLES as readonly unknown[]).includes(role))
+      : [];
+  }
+}
@@ -0,0 +1,399 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { Activity } from '../domain/activities/Activity';
+import { Reservation } from '../domain/reservations/Reservation';
+import { ReservationNotFoundError } from '../domain/reservations/ReservationErrors';
+import { ReservationService } from '../domain/reservations/ReservationService';
+import { DomainError, ValidationError } from '../errors/DomainError';
+import { ErrorSerializer } from '../errors/ErrorSerializer';
+import { QrCode } from '../utils/QrCode';
+import { QrCodeRenderer } from '../utils/QrCodeRenderer';
+import { EmailValidator } from '../utils/Email';
+import { ApiError } from './ApiError';
+import { IdempotencyStore, InMemoryIdempotencyStore, requestFingerprint, StoredResponse } from './IdempotencyStore';
+import { ReservationMapper } from './ReservationMapper';
+import { ReservationRequestValidator } from './ReservationRequestValidator';
+import { RateLimitDimension, RateLimiter } from './RateLimiter';
+import { AllowAllAuthorizer, AuthorizedPrincipal, RequestAuthorizer } from './RequestAuthorizer';
+import { CreateReservationRequest, ReservationResponse, UpdateReservationRequest } from './ReservationContract';
+
+export const MAX_PAYLOAD_BYTES = 1024 * 1024;
+
+const JSON_MEDIA_TYPE = 'application/json';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7E]{1,255}$/;
+const QR_FORMATS: readonly string[] = ['svg', 'png'];
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  operationId: string;
+  handle: (req: IncomingMessage, res: ServerResponse, params: string[], url: URL, principal: AuthorizedPrincipal) => Promise<void>;
+}
+
+export interface ReservationApiOptions {
+  basePath?: string;
+  maxPayloadBytes?: number;
+  authorizer?: RequestAuthorizer;
+  idempotencyStore?: IdempotencyStore;
+  rateLimiter?: RateLimiter;
+}
+
+export class ReservationApi {
+  private readonly basePath: string;
+  private readonly maxPayloadBytes: number;
+  private readonly authorizer: RequestAuthorizer;
+  private readonly idempotencyStore: IdempotencyStore;
+  private readonly rateLimiter?: RateLimiter;
+  private readonly routes: Route[];
+
+  constructor(private service: ReservationService, options: ReservationApiOptions = {}) {
+    this.basePath = options.basePath ?? '/v1';
+    this.maxPayloadBytes = options.maxPayloadBytes ?? MAX_PAYLOAD_BYTES;
+    this.authorizer = options.authorizer ?? new AllowAllAuthorizer();
+    this.idempotencyStore = options.idempotencyStore ?? new InMemoryIdempotencyStore();
+    this.rateLimiter = options.rateLimiter;
+
+    const collection = `${this.basePath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}/reservations`;
+    this.routes = [
+      { method: 'POST', pattern: new RegExp(`^${collection}$`), operationId: 'createReservation', handle: this.createReservation },
+      { method: 'GET', pattern: new RegExp(`^${collection}$`), operationId: 'listReservations', handle: this.listReservations },
+      { method: 'GET', pattern: new RegExp(`^${collection}/([^/]+)$`), operationId: 'getReservation', handle: this.getReservation },
+      { method: 'PATCH', pattern: new RegExp(`^${collection}/([^/]+)$`), operationId: 'updateReservation', handle: this.updateReservation },
+      { method: 'POST', pattern: new RegExp(`^${collection}/([^/]+)/cancel$`), operationId: 'cancelReservation', handle: this.cancelReservation },
+      { method: 'GET', pattern: new RegExp(`^${collection}/([^/]+)/qr$`), operationId: 'getReservationQrCode', handle: this.getReservationQrCode }
+    ];
+  }
+
+  createServer(): Server {
+    return createServer((req, res) => {
+      void this.handle(req, res);
+    });
+  }
+
+  async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const requestId = this.requestIdFor(req);
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const path = url.pathname;
+
+    res.setHeader('X-Request-ID', requestId);
+
+    try {
+      const matching = this.routes.filter(route => route.pattern.test(path));
+      const route = matching.find(candidate => candidate.method === req.method);
+      if (!route) {
+        if (matching.length > 0) {
+          res.setHeader('Allow', matching.map(candidate => candidate.method).join(', '));
+          throw new ApiError(405, 'METHOD_NOT_ALLOWED', `Method ${req.method} is not allowed on ${path}`);
+        }
+        throw new ApiError(404, 'RESOURCE_NOT_FOUND', `No route for ${req.method} ${path}`);
+      }
+
+      await this.limit(res, 'ip', req.socket.remoteAddress);
+      const principal = await this.authorize(req, route.operationId);
+      await this.limit(res, 'subject', principal.subject);
+      const params = path.match(route.pattern)!.slice(1);
+      await route.handle.call(this, req, res, params, url, principal);
+    } catch (error) {
+      this.sendError(res, error, requestId, path);
+    }
+  }
+
+  private async createReservation(
+    req: IncomingMessage,
+    res: ServerResponse,
+    _params: string[],
+    _url: URL,
+    principal: AuthorizedPrincipal
+  ): Promise<void> {
+    const idempotencyKey = this.idempotencyKeyFor(req);
+    const body = await this.readJson(req, res);
+    const validationErrors = ReservationRequestValidator.validate(body);
+    if (validationErrors.length > 0) {
+      throw new ValidationError(validationErrors);
+    }
+    const email = this.emailKey((body as CreateReservationRequest).email);
+    if (idempotencyKey === undefined) {
+      await this.limit(res, 'email', email);
+      return this.sendStored(res, await this.createFromBody(body));
+    }
+
+    // Keys are scoped to the caller so another client reusing a key can never see this reservation
+    const key = `createReservation:${encodeURIComponent(principal.subject ?? '')}:${idempotencyKey}`;
+    const fingerprint = requestFingerprint('createReservation', body);
+    const existing = await this.idempotencyStore.claim(key, fingerprint);
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        throw new ApiError(422, 'IDEMPOTENCY_KEY_MISMATCH', 'Idempotency-Key was already used with a different request body', {
+          idempotencyKey
+        });
+      }
+      if (existing.state === 'in-progress') {
+        throw new ApiError(409, 'IDEMPOTENCY_KEY_IN_PROGRESS', 'A request with this Idempotency-Key is still being processed', {
+          idempotencyKey
+        });
+      }
+      res.setHeader('Idempotent-Replayed', 'true');
+      return this.sendStored(res, existing.response);
+    }
+
+    // Replays are answered above without spending the email budget; only new bookings count against it
+    let response: StoredResponse;
+    try {
+      await this.limit(res, 'email', email);
+      response = await this.createFromBody(body);
+    } catch (error) {
+      await this.idempotencyStore.release(key);
+      throw error;
+    }
+    await this.idempotencyStore.complete(key, response);
+    this.sendStored(res, response);
+  }
+
+  private async createFromBody(body: unknown): Promise<StoredResponse> {
+    const reservation = await this.service.createReservation(ReservationMapper.toDomain(body as CreateReservationRequest), {
+      confirm: true
+    });
+    const response = await this.toResponse(reservation);
+
+    return { status: 201, headers: { Location: response.links!.self }, body: response };
+  }
+
+  private async listReservations(_req: IncomingMessage, res: ServerResponse, _params: string[], url: URL): Promise<void> {
+    const validationErrors = ReservationRequestValidator.validateQuery(url.searchParams);
+    if (validationErrors.length > 0) {
+      throw new ValidationError(validationErrors);
+    }
+    await this.limit(res, 'email', this.emailKey(url.searchParams.get('email')));
+
+    const page = await this.service.listReservations(ReservationMapper.toQuery(url.searchParams));
+    const activities = new Map<string, Activity>();
+    for (const activityId of new Set(page.items.map(reservation => reservation.activityId))) {
+      const activity = await this.service.findActivity(activityId);
+      if (activity) {
+        activities.set(activityId, activity);
+      }
+    }
+
+    this.sendJson(res, 200, ReservationMapper.toListResponse(page, this.basePath, activities));
+  }
+
+  private async getReservation(_req: IncomingMessage, res: ServerResponse, [id]: string[]): Promise<void> {
+    const reservation = await this.service.getReservation(id);
+    if (!reservation) {
+      throw new ReservationNotFoundError(id);
+    }
+
+    this.sendJson(res, 200, await this.toResponse(reservation));
+  }
+
+  private async getReservationQrCode(_req: IncomingMessage, res: ServerResponse, [id]: string[], url: URL): Promise<void> {
+    const format = url.searchParams.get('format') ?? 'svg';
+    if (!QR_FORMATS.includes(format)) {
+      throw ValidationError.of({
+        field: 'format',
+        message: `format must be one of ${QR_FORMATS.join(', ')}`,
+        code: 'INVALID_VALUE',
+        rejectedValue: format,
+      });
+    }
+
+    const reservation = await this.service.getReservation(id);
+    if (!reservation) {
+      throw new ReservationNotFoundError(id);
+    }
+
+    const qr = QrCode.encode(reservation.confirmationCode);
+    if (format === 'png') {
+      res.writeHead(200, { 'Content-Type': 'image/png', 'Cache-Control': 'private, max-age=86400' });
+      res.end(QrCodeRenderer.toPng(qr));
+    } else {
+      res.writeHead(200, { 'Content-Type': 'image/svg+xml', 'Cache-Control': 'private, max-age=86400' });
+      res.end(QrCodeRenderer.toSvg(qr));
+    }
+  }
+
+  private async updateReservation(req: IncomingMessage, res: ServerResponse, [id]: string[]): Promise<void> {
+    const body = await this.readJson(req, res);
+    const validationErrors = ReservationRequestValidator.validateUpdate(body);
+    if (validationErrors.length > 0) {
+      throw new ValidationError(validationErrors);
+    }
+
+    const reservation = await this.service.updateReservation(id, ReservationMapper.toChanges(body as UpdateReservationRequest));
+    this.sendJson(res, 200, await this.toResponse(reservation));
+  }
+
+  private async cancelReservation(_req: IncomingMessage, res: ServerResponse, [id]: string[]): Promise<void> {
+    const reservation = await this.service.cancelReservation(id);
+    this.sendJson(res, 200, await this.toResponse(reservation));
+  }
+
+  private async toResponse(reservation: Reservation): Promise<ReservationResponse> {
+    return ReservationMapper.toResponse(reservation, this.basePath, await this.service.findActivity(reservation.activityId));
+  }
+
+  private async authorize(req: IncomingMessage, operationId: string): Promise<AuthorizedPrincipal> {
+    const header = req.headers.authorization;
+    const match = header?.match(/^Bearer\s+(\S+)$/i);
+
+    if (!match) {
+      throw new ApiError(401, 'AUTH_TOKEN_MISSING', 'Authentication token is required');
+    }
+
+    return this.authorizer.authorize(match[1], operationId);
+  }
+
+  private async limit(res: ServerResponse, dimension: RateLimitDimension, value: string | undefined): Promise<void> {
+    const decision = await this.rateLimiter?.consume(dimension, value);
+    if (!decision) {
+      return;
+    }
+
+    // Report the bucket closest to running out when several limits apply to the same request
+    const reported = res.getHeader('X-RateLimit-Remaining');
+    if (!decision.allowed || reported === undefined || decision.remaining <= Number(reported)) {
+      res.setHeader('X-RateLimit-Limit', String(decision.limit));
+      res.setHeader('X-RateLimit-Remaining', String(decision.remaining));
+      res.setHeader('X-RateLimit-Reset', String(Math.ceil(decision.resetMs / 1000)));
+    }
+
+    if (!decision.allowed) {
+      const retryAfterSeconds = Math.ceil(decision.retryAfterMs / 1000);
+      res.setHeader('Retry-After', String(retryAfterSeconds));
+      throw new ApiError(429, 'RATE_LIMIT_EXCEEDED', `Too many requests; retry after ${retryAfterSeconds} seconds`, {
+        limitedBy: dimension,
+        retryAfterSeconds
+      });
+    }
+  }
+
+  private emailKey(email: unknown): string | undefined {
+    if (typeof email !== 'string') {
+      return undefined;
+    }
+    return EmailValidator.comparable(email);
+  }
+
+  private async readJson(req: IncomingMessage, res: ServerResponse): Promise<unknown> {
+    this.requireJsonContentType(req);
+
+    const declaredBytes = Number(req.headers['content-length']);
+    if (declaredBytes > this.maxPayloadBytes) {
+      throw this.rejectPayload(req, res, declaredBytes);
+    }
+
+    return this.parseJson(await this.readBody(req, res));
+  }
+
+  private requireJsonContentType(req: IncomingMessage): void {
+    const [mediaType, ...parameters] = (req.headers['content-type'] ?? '').split(';').map(part => part.trim());
+    const charset = parameters
+      .map(parameter => parameter.match(/^charset\s*=\s*"?([^"]*)"?$/i)?.[1])
+      .find(value => value !== undefined);
+
+    if (mediaType.toLowerCase() !== JSON_MEDIA_TYPE || (charset !== undefined && !/^utf-?8$/i.test(charset))) {
+      throw new ApiError(415, 'UNSUPPORTED_MEDIA_TYPE', `Request body must be sent as ${JSON_MEDIA_TYPE} encoded in UTF-8`, {
+        contentType: req.headers['content-type'] ?? null,
+        supportedContentTypes: [`${JSON_MEDIA_TYPE}; charset=utf-8`]
+      });
+    }
+  }
+
+  private readBody(req: IncomingMessage, res: ServerResponse): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      const onData = (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > this.maxPayloadBytes) {
+          req.off('data', onData);
+          reject(this.rejectPayload(req, res));
+          return;
+        }
+        chunks.push(chunk);
+      };
+
+      req.on('data', onData);
+      req.once('end', () => resolve(Buffer.concat(chunks)));
+      req.once('error', reject);
+    });
+  }
+
+  private rejectPayload(req: IncomingMessage, res: ServerResponse, actualSizeBytes?: number): ApiError {
+    // Answer straight away and discard the rest of the upload instead of buffering it
+    res.setHeader('Connection', 'close');
+    req.resume();
+
+    return new ApiError(413, 'PAYLOAD_TOO_LARGE', 'Request payload exceeds the maximum allowed size of 1MB', {
+      maxSizeBytes: this.maxPayloadBytes,
+      ...(actualSizeBytes !== undefined ? { actualSizeBytes } : {})
+    });
+  }
+
+  private parseJson(body: Buffer): unknown {
+    let text: string;
+    try {
+      text = new TextDecoder('utf-8', { fatal: true }).decode(body);
+    } catch {
+      throw new ApiError(400, 'MALFORMED_JSON', 'Request body is not valid UTF-8', { reason: 'Invalid UTF-8 byte sequence' });
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      // V8 quotes the whole body in some messages; keep only the reason and the position when it is known
+      const message = (error as Error).message;
+      const match = message.match(/ in JSON at position (\d+)/);
+      const position = match ? Number(match[1]) : /end of JSON input/.test(message) ? text.length : undefined;
+      throw new ApiError(400, 'MALFORMED_JSON', 'Request body is not valid JSON', {
+        reason: message.replace(/ in JSON at position \d+.*$/s, '').replace(/, ".*" is not valid JSON$/s, ''),
+        ...(position !== undefined ? this.locate(text, position) : {})
+      });
+    }
+  }
+
+  private locate(text: string, position: number): { position: number; line: number; column: number } {
+    const lines = text.slice(0, position).split('\n');
+    return { position, line: lines.length, column: lines[lines.length - 1].length + 1 };
+  }
+
+  private idempotencyKeyFor(req: IncomingMessage): string | undefined {
+    const header = req.headers['idempotency-key'];
+    if (header === undefined) {
+      return undefined;
+    }
+    if (typeof header !== 'string' || !IDEMPOTENCY_KEY_PATTERN.test(header)) {
+      throw ValidationError.of({
+        field: 'Idempotency-Key',
+        message: 'Idempotency-Key must be 1 to 255 visible ASCII characters',
+        code: 'INVALID_FORMAT',
+        rejectedValue: header,
+        expectedFormat: '8e03978e-40d5-43e8-bc93-6894a57f9324'
+      });
+    }
+    return header;
+  }
+
+  private requestIdFor(req: IncomingMessage): string {
+    const header = req.headers['x-request-id'];
+    return typeof header === 'string' && UUID_PATTERN.test(header) ? header : crypto.randomUUID();
+  }
+
+  private sendError(res: ServerResponse, error: unknown, requestId: string, path: string): void {
+    if (!(error instanceof DomainError)) {
+      console.error(`Unexpected error handling request ${requestId} to ${path}`, error);
+    }
+    this.sendJson(res, ErrorSerializer.statusFor(error), ErrorSerializer.toResponse(error, { requestId, path }));
+  }
+
+  private sendStored(res: ServerResponse, response: StoredResponse): void {
+    Object.entries(response.headers).forEach(([name, value]) => res.setHeader(name, value));
+    this.sendJson(res, response.status, response.body);
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,18 @@
+export type {
+  ErrorBody,
+  ErrorResponse,
+  ValidationErrorCode,
+  ValidationErrorItem,
+  ValidationErrorResponse
+} from '../errors/ErrorResponse';
+
+export type {
+  Child as ChildDto,
+  CreateReservationRequest,
+  Money as MoneyDto,
+  Pagination as PaginationDto,
+  PriceLineItem as PriceLineItemDto,
+  ReservationListResponse,
+  ReservationResponse,
+  UpdateReservationRequest
+} from '../client/ReservationTypes';
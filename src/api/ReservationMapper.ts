@@ -0,0 +1,126 @@
+import { DietaryRestriction, Language, Reservation, ReservationChanges, ReservationStatus } from '../domain/reservations/Reservation';
+import { Activity } from '../domain/activities/Activity';
+import { ReservationPage, ReservationQuery, SortField, SortOrder } from '../domain/reservations/ReservationQuery';
+import { EmailValidator } from '../utils/Email';
+import { Currency, CurrencyUtils } from '../utils/Currency';
+import {
+  CreateReservationRequest,
+  MoneyDto,
+  ReservationListResponse,
+  ReservationResponse,
+  UpdateReservationRequest
+} from './ReservationContract';
+
+export class ReservationMapper {
+  static toDomain(request: CreateReservationRequest): Reservation {
+    return Reservation.create({
+      activityId: request.activityId,
+      name: request.customerName,
+      email: EmailValidator.validate(request.email),
+      phone: request.phone,
+      date: request.date,
+      time: request.time,
+      numberOfPeople: request.numberOfPeople,
+      amount: CurrencyUtils.create(request.totalAmount.value, request.totalAmount.currency),
+      specialRequirements: request.specialRequirements,
+      language: request.language as Language | undefined,
+      children: request.children,
+      vipService: request.vipService,
+      dietaryRestrictions: request.dietaryRestrictions as DietaryRestriction[] | undefined,
+      promoCode: request.promoCode
+    });
+  }
+
+  static toChanges(request: UpdateReservationRequest): ReservationChanges {
+    const changes: ReservationChanges = {
+      name: request.customerName,
+      phone: request.phone,
+      date: request.date,
+      time: request.time,
+      numberOfPeople: request.numberOfPeople,
+      amount: request.totalAmount && CurrencyUtils.create(request.totalAmount.value, request.totalAmount.currency),
+      specialRequirements: request.specialRequirements,
+      language: request.language as Language | undefined,
+      children: request.children,
+      vipService: request.vipService,
+      dietaryRestrictions: request.dietaryRestrictions as DietaryRestriction[] | undefined
+    };
+
+    return Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+  }
+
+  static toQuery(params: URLSearchParams): ReservationQuery {
+    const text = (name: string) => params.get(name) ?? undefined;
+    const number = (name: string) => (params.has(name) ? Number(params.get(name)) : undefined);
+    const query: ReservationQuery = {
+      email: text('email'),
+      activityId: text('activityId'),
+      date: text('date'),
+      dateFrom: text('dateFrom'),
+      dateTo: text('dateTo'),
+      status: text('status') as ReservationStatus | undefined,
+      currency: text('currency'),
+      minAmount: number('minAmount'),
+      maxAmount: number('maxAmount'),
+      sortBy: text('sortBy') as SortField | undefined,
+      sortOrder: text('sortOrder') as SortOrder | undefined,
+      limit: number('limit'),
+      cursor: text('cursor')
+    };
+
+    return Object.fromEntries(Object.entries(query).filter(([, value]) => value !== undefined));
+  }
+
+  static toListResponse(
+    page: ReservationPage,
+    basePath: string,
+    activities: ReadonlyMap<string, Activity> = new Map()
+  ): ReservationListResponse {
+    return {
+      data: page.items.map(reservation => this.toResponse(reservation, basePath, activities.get(reservation.activityId))),
+      pagination: { limit: page.limit, hasMore: page.nextCursor !== undefined, nextCursor: page.nextCursor }
+    };
+  }
+
+  static toResponse(reservation: Reservation, basePath: string, activity?: Activity): ReservationResponse {
+    const self = `${basePath}/reservations/${reservation.id}`;
+
+    return {
+      id: reservation.id,
+      activityId: reservation.activityId,
+      activityName: activity?.nameIn(reservation.language) ?? reservation.activityId,
+      customerName: reservation.name,
+      email: reservation.email,
+      phone: reservation.phone,
+      date: reservation.date,
+      time: reservation.time,
+      numberOfPeople: reservation.numberOfPeople,
+      totalAmount: this.toMoney(reservation.amount),
+      priceBreakdown: reservation.priceBreakdown?.map(item => ({
+        ...item,
+        unitPrice: this.toMoney(item.unitPrice),
+        amount: this.toMoney(item.amount)
+      })),
+      status: reservation.status,
+      confirmationCode: reservation.confirmationCode,
+      specialRequirements: reservation.specialRequirements,
+      language: reservation.language,
+      children: reservation.children,
+      vipService: reservation.vipService,
+      dietaryRestrictions: reservation.dietaryRestrictions,
+      createdAt: reservation.createdAt.toISOString(),
+      updatedAt: reservation.updatedAt.toISOString(),
+      qrCode: `${self}/qr`,
+      links: {
+        self,
+        cancel: `${self}/cancel`,
+        modify: self,
+        activity: `${basePath}/activities/${reservation.activityId}`
+      }
+    };
+  }
+
+  private static toMoney(currency: Currency): MoneyDto {
+    return { value: currency.amount, currency: currency.currency as MoneyDto['currency'] };
+  }
+}
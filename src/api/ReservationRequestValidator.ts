@@ -0,0 +1,106 @@
+import { CurrencyUtils } from '../utils/Currency';
+import { ContractValidator } from './ContractValidator';
+import { ValidationErrorItem } from './ReservationContract';
+
+type Body = Record<string, unknown>;
+
+export class ReservationRequestValidator {
+  private static contractValidator?: ContractValidator;
+
+  static validate(body: unknown): ValidationErrorItem[] {
+    const errors = this.contract().validateSchema('CreateReservationRequest', body);
+    if (errors.some(error => error.field === 'body')) {
+      return errors;
+    }
+
+    const data = body as Body;
+    this.validateAmountPrecision(data.totalAmount, errors);
+    this.validateAdults(data.numberOfPeople, data.children, errors);
+    return errors;
+  }
+
+  static validateUpdate(body: unknown): ValidationErrorItem[] {
+    const errors = this.contract().validateSchema('UpdateReservationRequest', body);
+    if (errors.some(error => error.field === 'body')) {
+      return errors;
+    }
+
+    const data = body as Body;
+    this.validateAmountPrecision(data.totalAmount, errors);
+    if ('numberOfPeople' in data && 'children' in data) {
+      this.validateAdults(data.numberOfPeople, data.children, errors);
+    }
+    return errors;
+  }
+
+  static validateQuery(query: URLSearchParams): ValidationErrorItem[] {
+    const errors = this.contract().validateQuery('listReservations', query);
+
+    if ((query.has('minAmount') || query.has('maxAmount')) && !query.has('currency')) {
+      errors.push({ field: 'currency', message: 'Currency is required when filtering by amount', code: 'FIELD_REQUIRED' });
+    } else if (query.get('sortBy') === 'amount' && !query.has('currency')) {
+      errors.push({ field: 'currency', message: 'Currency is required when sorting by amount', code: 'FIELD_REQUIRED' });
+    }
+    if (errors.length === 0) {
+      this.validateRange(query, 'dateFrom', 'dateTo', (from, to) => from <= to, errors);
+      this.validateRange(query, 'minAmount', 'maxAmount', (min, max) => Number(min) <= Number(max), errors);
+    }
+
+    return errors;
+  }
+
+  private static contract(): ContractValidator {
+    this.contractValidator ??= ContractValidator.fromFile();
+    return this.contractValidator;
+  }
+
+  private static validateRange(
+    query: URLSearchParams,
+    lowerField: string,
+    upperField: string,
+    ordered: (lower: string, upper: string) => boolean,
+    errors: ValidationErrorItem[]
+  ): void {
+    const lower = query.get(lowerField);
+    const upper = query.get(upperField);
+    if (lower !== null && upper !== null && !ordered(lower, upper)) {
+      errors.push({
+        field: upperField,
+        message: `${upperField} must not be less than ${lowerField}`,
+        code: 'OUT_OF_RANGE',
+        rejectedValue: upper
+      });
+    }
+  }
+
+  private static validateAmountPrecision(value: unknown, errors: ValidationErrorItem[]): void {
+    if (value === undefined || errors.some(error => error.field.startsWith('totalAmount'))) {
+      return;
+    }
+
+    const money = value as { value: number; currency: string };
+    const exponent = CurrencyUtils.exponent(money.currency);
+    if (Number(money.value.toFixed(exponent)) !== money.value) {
+      errors.push({
+        field: 'totalAmount.value',
+        message: `Amount must have at most ${exponent} decimal places for ${money.currency}`,
+        code: 'INVALID_FORMAT',
+        rejectedValue: money.value
+      });
+    }
+  }
+
+  private static validateAdults(numberOfPeople: unknown, children: unknown, errors: ValidationErrorItem[]): void {
+    if (errors.some(error => error.field === 'numberOfPeople' || error.field === 'children')) {
+      return;
+    }
+    if (Array.isArray(children) && children.length >= (numberOfPeople as number)) {
+      errors.push({
+        field: 'children',
+        message: 'Number of adults must be at least 1',
+        code: 'INVALID_VALUE',
+        rejectedValue: children.length
+      });
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { ReservationService } from '../domain/reservations/ReservationService';
+import { CompositeDuplicatePolicy } from '../domain/reservations/DuplicatePolicy';
+import { FileReservationRepository } from '../domain/reservations/FileReservationRepository';
+import { FileActivityCatalog } from '../domain/activities/FileActivityCatalog';
+import { DEFAULT_PRICING_RULES, PricingEngine } from '../domain/pricing/PricingEngine';
+import { FilePromoCodeCatalog } from '../domain/promotions/FilePromoCodeCatalog';
+import { PromoCodePolicy } from '../domain/promotions/PromoCodePolicy';
+import { ReservationEvent } from '../domain/reservations/ReservationEvents';
+import { InMemoryEventBus } from '../domain/events/EventBus';
+import { InMemoryOutbox } from '../domain/events/Outbox';
+import { FileOutbox } from '../domain/events/FileOutbox';
+import { OutboxRelay } from '../domain/events/OutboxRelay';
+import { NotificationService } from '../domain/notifications/NotificationService';
+import { NotificationTransport } from '../domain/notifications/NotificationTransport';
+import { FileNotificationTransport } from '../domain/notifications/FileNotificationTransport';
+import { SmtpNotificationTransport } from '../domain/notifications/SmtpNotificationTransport';
+import { FileDeadLetterStore } from '../domain/notifications/FileDeadLetterStore';
+import { FileSentMessageStore } from '../domain/notifications/FileSentMessageStore';
+import { JwtKey, JwtVerifier } from './JwtVerifier';
+import { RateLimiter, TokenBucket } from './RateLimiter';
+import { ReservationApi } from './ReservationApi';
+import { AllowAllAuthorizer, JwtAuthorizer } from './RequestAuthorizer';
+
+const PORT = Number(process.env.API_PORT ?? 3000);
+const HOST = process.env.API_HOST ?? '127.0.0.1';
+const BASE_PATH = process.env.API_BASE_PATH ?? '/v1';
+const RESERVATIONS_FILE = process.env.RESERVATIONS_FILE;
+const ACTIVITIES_FILE = process.env.ACTIVITIES_FILE ?? resolve(__dirname, '../../data/activities.json');
+const PROMO_CODES_FILE = process.env.PROMO_CODES_FILE ?? resolve(__dirname, '../../data/promo-codes.json');
+const OUTBOX_FILE = process.env.OUTBOX_FILE ?? (RESERVATIONS_FILE && join(dirname(RESERVATIONS_FILE), 'outbox.jsonl'));
+const NOTIFICATIONS_FILE = process.env.NOTIFICATIONS_FILE;
+const SMTP_HOST = process.env.SMTP_HOST;
+const DEAD_LETTER_FILE = process.env.DEAD_LETTER_FILE;
+const SENT_NOTIFICATIONS_FILE = process.env.SENT_NOTIFICATIONS_FILE
+  ?? (RESERVATIONS_FILE && join(dirname(RESERVATIONS_FILE), 'sent-notifications.jsonl'));
+const DAY_MS = 24 * 60 * 60 * 1000;
+const JWT_HS256_SECRET = process.env.JWT_HS256_SECRET;
+const JWT_RS256_PUBLIC_KEY_FILE = process.env.JWT_RS256_PUBLIC_KEY_FILE;
+
+const jwtKeys: JwtKey[] = [
+  ...(JWT_HS256_SECRET ? [{ algorithm: 'HS256' as const, key: JWT_HS256_SECRET }] : []),
+  ...(JWT_RS256_PUBLIC_KEY_FILE ? [{ algorithm: 'RS256' as const, key: readFileSync(JWT_RS256_PUBLIC_KEY_FILE, 'utf-8') }] : [])
+];
+
+const catalog = new FileActivityCatalog(ACTIVITIES_FILE);
+const events = new InMemoryEventBus<ReservationEvent>();
+const outbox = OUTBOX_FILE ? new FileOutbox<ReservationEvent>(OUTBOX_FILE) : new InMemoryOutbox<ReservationEvent>();
+const relay = new OutboxRelay(outbox, events, {
+  intervalMs: Number(process.env.OUTBOX_INTERVAL_MS ?? 1000),
+  maxAttempts: Number(process.env.OUTBOX_MAX_ATTEMPTS ?? 5)
+});
+
+const service = new ReservationService(new CompositeDuplicatePolicy(), {
+  repository: RESERVATIONS_FILE ? new FileReservationRepository(RESERVATIONS_FILE) : undefined,
+  catalog,
+  pricing: new PricingEngine(DEFAULT_PRICING_RULES, new PromoCodePolicy(new FilePromoCodeCatalog(PROMO_CODES_FILE))),
+  outbox
+});
+
+const transport: NotificationTransport | undefined = SMTP_HOST
+  ? new SmtpNotificationTransport({
+    host: SMTP_HOST,
+    port: Number(process.env.SMTP_PORT ?? 1025),
+    from: process.env.SMTP_FROM ?? 'reservations@localhost'
+  })
+  : NOTIFICATIONS_FILE ? new FileNotificationTransport(NOTIFICATIONS_FILE) : undefined;
+if (transport) {
+  const notifications = new NotificationService(transport, {
+    catalog,
+    deadLetters: DEAD_LETTER_FILE ? new FileDeadLetterStore(DEAD_LETTER_FILE) : undefined,
+    sentMessages: SENT_NOTIFICATIONS_FILE ? new FileSentMessageStore(SENT_NOTIFICATIONS_FILE) : undefined
+  });
+  notifications.subscribeTo(events);
+  // Runs at startup and again at every UTC midnight; reminders already sent are skipped by their message id
+  const sendReminders = (): void => {
+    const now = Date.now();
+    const tomorrow = new Date(now + DAY_MS).toISOString().slice(0, 10);
+    service.searchReservations({ date: tomorrow, status: 'confirmed' })
+      .then(reservations => notifications.sendReminders(reservations))
+      .catch(error => console.error('Sending reminders failed', error));
+    setTimeout(sendReminders, DAY_MS - (now % DAY_MS)).unref();
+  };
+  sendReminders();
+}
+
+const authorizer = jwtKeys.length > 0
+  ? new JwtAuthorizer(new JwtVerifier({ keys: jwtKeys, issuer: process.env.JWT_ISSUER, audience: process.env.JWT_AUDIENCE }))
+  : new AllowAllAuthorizer();
+const rateLimiter = new RateLimiter({
+  ip: TokenBucket.parseRule(process.env.RATE_LIMIT_IP ?? '300/60'),
+  subject: TokenBucket.parseRule(process.env.RATE_LIMIT_SUBJECT ?? '120/60'),
+  email: TokenBucket.parseRule(process.env.RATE_LIMIT_EMAIL ?? '10/60')
+});
+const api = new ReservationApi(service, { basePath: BASE_PATH, authorizer, rateLimiter });
+
+// Settle events left staged by a crash before any new request can stage more
+service.recoverOutbox()
+  .then(() => {
+    relay.start();
+    api.createServer().listen(PORT, HOST, () => {
+      console.log(`Reservations API running at http://${HOST}:${PORT}${BASE_PATH}`);
+    });
+  })
+  .catch(error => {
+    console.error('Recovering the outbox failed', error);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,146 @@
+// Generated by tools/generate-client.mjs from openapi/reservations.yaml. Do not edit by hand.
+import {
+  ListReservationsParameters,
+  ListReservationsResponse,
+  CreateReservationParameters,
+  CreateReservationResponse,
+  GetReservationParameters,
+  GetReservationResponse,
+  UpdateReservationParameters,
+  UpdateReservationResponse,
+  CancelReservationParameters,
+  CancelReservationResponse,
+  GetReservationQrCodeParameters,
+  GetReservationQrCodeResponse
+} from './ReservationTypes';
+
+export interface ReservationClientOptions {
+  baseUrl: string;
+  token?: string | (() => string | Promise<string>);
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+interface RequestParts {
+  path: string;
+  query?: Record<string, string | number | boolean | undefined>;
+  headers?: Record<string, string | undefined>;
+  body?: unknown;
+}
+
+export class UnexpectedStatusError extends Error {
+  constructor(readonly operationId: string, readonly status: number, readonly body: string) {
+    super(`${operationId} answered with undocumented status ${status}`);
+    this.name = 'UnexpectedStatusError';
+  }
+}
+
+export class ReservationClient {
+  constructor(private readonly options: ReservationClientOptions) {}
+
+  /** List reservations */
+  listReservations(parameters: ListReservationsParameters = {}): Promise<ListReservationsResponse> {
+    return this.send<ListReservationsResponse>('listReservations', 'GET', [200, 401, 403, 422, 429], {
+      path: '/reservations',
+      query: {
+        email: parameters.email,
+        activityId: parameters.activityId,
+        date: parameters.date,
+        dateFrom: parameters.dateFrom,
+        dateTo: parameters.dateTo,
+        status: parameters.status,
+        currency: parameters.currency,
+        minAmount: parameters.minAmount,
+        maxAmount: parameters.maxAmount,
+        sortBy: parameters.sortBy,
+        sortOrder: parameters.sortOrder,
+        limit: parameters.limit,
+        cursor: parameters.cursor
+      }
+    });
+  }
+
+  /** Create a new reservation */
+  createReservation(parameters: CreateReservationParameters): Promise<CreateReservationResponse> {
+    return this.send<CreateReservationResponse>('createReservation', 'POST', [201, 400, 401, 403, 409, 413, 415, 422, 429], {
+      path: '/reservations',
+      headers: { 'Idempotency-Key': parameters.idempotencyKey },
+      body: parameters.body
+    });
+  }
+
+  /** Get a reservation */
+  getReservation(parameters: GetReservationParameters): Promise<GetReservationResponse> {
+    return this.send<GetReservationResponse>('getReservation', 'GET', [200, 401, 403, 404, 429], {
+      path: `/reservations/${encodeURIComponent(parameters.reservationId)}`
+    });
+  }
+
+  /** Modify a reservation */
+  updateReservation(parameters: UpdateReservationParameters): Promise<UpdateReservationResponse> {
+    return this.send<UpdateReservationResponse>('updateReservation', 'PATCH', [200, 400, 401, 403, 404, 409, 413, 415, 422, 429], {
+      path: `/reservations/${encodeURIComponent(parameters.reservationId)}`,
+      body: parameters.body
+    });
+  }
+
+  /** Cancel a reservation */
+  cancelReservation(parameters: CancelReservationParameters): Promise<CancelReservationResponse> {
+    return this.send<CancelReservationResponse>('cancelReservation', 'POST', [200, 401, 403, 404, 409, 429], {
+      path: `/reservations/${encodeURIComponent(parameters.reservationId)}/cancel`
+    });
+  }
+
+  /** Get the confirmation QR code */
+  getReservationQrCode(parameters: GetReservationQrCodeParameters): Promise<GetReservationQrCodeResponse> {
+    return this.send<GetReservationQrCodeResponse>('getReservationQrCode', 'GET', [200, 401, 403, 404, 422, 429], {
+      path: `/reservations/${encodeURIComponent(parameters.reservationId)}/qr`,
+      query: { format: parameters.format }
+    });
+  }
+
+  private async send<T>(operationId: string, method: string, statuses: number[], request: RequestParts): Promise<T> {
+    const url = new URL(`${this.options.baseUrl.replace(/\/$/, '')}${request.path}`);
+    for (const [name, value] of Object.entries(request.query ?? {})) {
+      if (value !== undefined) {
+        url.searchParams.set(name, String(value));
+      }
+    }
+
+    const headers: Record<string, string> = { ...this.options.headers };
+    for (const [name, value] of Object.entries(request.headers ?? {})) {
+      if (value !== undefined) {
+        headers[name] = value;
+      }
+    }
+    const token = typeof this.options.token === 'function' ? await this.options.token() : this.options.token;
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+    if (request.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const response = await (this.options.fetch ?? fetch)(url, {
+      method,
+      headers,
+      body: request.body === undefined ? undefined : JSON.stringify(request.body)
+    });
+    if (!statuses.includes(response.status)) {
+      throw new UnexpectedStatusError(operationId, response.status, await response.text());
+    }
+    return { ok: response.ok, status: response.status, data: await this.read(response), headers: response.headers } as T;
+  }
+
+  private async read(response: Response): Promise<unknown> {
+    const contentType = response.headers.get('Content-Type') ?? '';
+    if (contentType.includes('json')) {
+      return response.json();
+    }
+    if (contentType.startsWith('text/') || contentType.includes('+xml')) {
+      return response.text();
+    }
+    const body = await response.arrayBuffer();
+    return body.byteLength === 0 ? undefined : body;
+  }
+}
@@ -0,0 +1,310 @@
+// Generated by tools/generate-client.mjs from openapi/reservations.yaml. Do not edit by hand.
+
+export interface CreateReservationRequest {
+  /** Unique identifier of the activity to reserve */
+  activityId: string;
+  /** Full name of the customer making the reservation */
+  customerName: string;
+  /** Customer's email address for confirmation and communications */
+  email: string;
+  /** Customer's phone number in E.164 format (with country code) */
+  phone?: string;
+  /** Date of the activity reservation (ISO 8601 format) */
+  date: string;
+  /** Time of the activity in HH:mm format (24-hour) */
+  time?: string;
+  /** Total number of participants */
+  numberOfPeople: number;
+  totalAmount: Money;
+  /** Any special requirements or notes for the reservation */
+  specialRequirements?: string;
+  /** Preferred language for the activity (ISO 639-1 code) */
+  language?: 'es' | 'en' | 'fr' | 'de' | 'it' | 'pt' | 'ca';
+  /** Information about children in the reservation (if applicable) */
+  children?: Child[];
+  /** Request VIP service upgrade */
+  vipService?: boolean;
+  /** Dietary restrictions or allergies (if food is included) */
+  dietaryRestrictions?: ('vegetarian' | 'vegan' | 'gluten-free' | 'dairy-free' | 'nut-allergy' | 'halal' | 'kosher')[];
+  /** Promotional or discount code; percentage or fixed discounts that may be limited to certain activities, currencies, dates and numbers of uses */
+  promoCode?: string;
+}
+
+export interface ReservationResponse {
+  /** Unique identifier of the reservation */
+  id: string;
+  /** Identifier of the reserved activity */
+  activityId: string;
+  /** Name of the reserved activity in the reservation language, falling back to English */
+  activityName: string;
+  /** Customer's full name */
+  customerName: string;
+  /** Customer's email address */
+  email: string;
+  /** Customer's phone number */
+  phone?: string;
+  /** Date of the activity */
+  date: string;
+  /** Time of the activity */
+  time?: string;
+  /** Number of participants */
+  numberOfPeople: number;
+  totalAmount: Money;
+  /** How the total was calculated; charges add up to the subtotal and discounts are subtracted from it */
+  priceBreakdown?: PriceLineItem[];
+  /** Current status of the reservation */
+  status: 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'no-show';
+  /** Unique confirmation code for the reservation; the two letters identify the activity */
+  confirmationCode: string;
+  /** Special requirements or notes */
+  specialRequirements?: string;
+  /** Language preference */
+  language?: string;
+  children?: Child[];
+  /** Whether VIP service was requested */
+  vipService?: boolean;
+  dietaryRestrictions?: string[];
+  /** Timestamp when the reservation was created */
+  createdAt: string;
+  /** Timestamp when the reservation was last updated */
+  updatedAt: string;
+  /** Link to the QR code image of the confirmation code, rendered by this API */
+  qrCode?: string;
+  /** HATEOAS links for related operations */
+  links?: {
+    self: string;
+    cancel: string;
+    modify: string;
+    activity: string;
+  };
+}
+
+/** Partial update of a reservation; only the supplied fields change */
+export interface UpdateReservationRequest {
+  customerName?: string;
+  phone?: string;
+  date?: string;
+  time?: string;
+  numberOfPeople?: number;
+  totalAmount?: Money;
+  specialRequirements?: string;
+  language?: 'es' | 'en' | 'fr' | 'de' | 'it' | 'pt' | 'ca';
+  children?: Child[];
+  vipService?: boolean;
+  dietaryRestrictions?: ('vegetarian' | 'vegan' | 'gluten-free' | 'dairy-free' | 'nut-allergy' | 'halal' | 'kosher')[];
+}
+
+export interface ReservationListResponse {
+  data: ReservationResponse[];
+  pagination: Pagination;
+}
+
+export interface Pagination {
+  /** Page size applied to this response */
+  limit: number;
+  /** Whether more reservations follow this page */
+  hasMore: boolean;
+  /** Opaque cursor for the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+export interface Money {
+  /** Monetary amount (supports up to 2 decimal places for most currencies, none for JPY) */
+  value: number;
+  /** ISO 4217 currency code */
+  currency: 'EUR' | 'USD' | 'GBP' | 'JPY' | 'CHF' | 'CAD' | 'AUD';
+}
+
+export interface PriceLineItem {
+  /** Whether the line adds to or is subtracted from the total */
+  kind: 'charge' | 'discount';
+  /** Pricing category (adult, infant, child, teen, vip_surcharge or promo_discount) */
+  code: string;
+  /** Human-readable label of the line */
+  description: string;
+  quantity: number;
+  unitPrice: Money;
+  amount: Money;
+}
+
+export interface Child {
+  /** Age of the child */
+  age: number;
+  /** Name of the child */
+  name: string;
+}
+
+export interface ErrorResponse {
+  error: {
+    /** Machine-readable error code */
+    code: string;
+    /** Human-readable error message */
+    message: string;
+    /** Timestamp when the error occurred */
+    timestamp: string;
+    /** Unique identifier for the request (for support and debugging) */
+    requestId: string;
+    /** API path where the error occurred */
+    path: string;
+    /** Additional error details (structure varies by error type) */
+    details?: Record<string, unknown>;
+  };
+}
+
+export interface ValidationErrorResponse {
+  error: {
+    /** Machine-readable error code */
+    code: string;
+    /** Human-readable error message */
+    message: string;
+    /** Timestamp when the error occurred */
+    timestamp: string;
+    /** Unique identifier for the request */
+    requestId: string;
+    /** API path where the error occurred */
+    path: string;
+    /** List of validation errors */
+    validationErrors: ({
+      /** Name of the field that failed validation */
+      field: string;
+      /** Detailed validation error message */
+      message: string;
+      /** Machine-readable validation error code */
+      code: 'FIELD_REQUIRED' | 'INVALID_FORMAT' | 'INVALID_VALUE' | 'OUT_OF_RANGE' | 'RESOURCE_NOT_FOUND' | 'PAST_DATE_NOT_ALLOWED' | 'INVALID_PROMO_CODE';
+      /** The value that was rejected */
+      rejectedValue?: unknown;
+      /** Expected format for the field */
+      expectedFormat?: string;
+      /** Allowed range for numeric fields */
+      allowedRange?: {
+        min?: number;
+        max?: number;
+      };
+    })[];
+  };
+}
+
+export interface ApiSuccess<Status extends number, Data> {
+  ok: true;
+  status: Status;
+  data: Data;
+  headers: Headers;
+}
+
+export interface ApiFailure<Status extends number, Data> {
+  ok: false;
+  status: Status;
+  data: Data;
+  headers: Headers;
+}
+
+export interface ListReservationsParameters {
+  /** Customer email address */
+  email?: string;
+  /** Identifier of the reserved activity */
+  activityId?: string;
+  /** Date of the activity (ISO 8601 format) */
+  date?: string;
+  /** Earliest activity date, inclusive */
+  dateFrom?: string;
+  /** Latest activity date, inclusive */
+  dateTo?: string;
+  /** Current status of the reservation */
+  status?: 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'no-show';
+  /** Currency of the total amount (ISO 4217) */
+  currency?: 'EUR' | 'USD' | 'GBP' | 'JPY' | 'CHF' | 'CAD' | 'AUD';
+  /** Minimum total amount, inclusive; requires `currency` */
+  minAmount?: number;
+  /** Maximum total amount, inclusive; requires `currency` */
+  maxAmount?: number;
+  /** Field used to order the results; `date` also orders by time and `amount` requires `currency` */
+  sortBy?: 'createdAt' | 'date' | 'amount';
+  /** Direction of the ordering */
+  sortOrder?: 'asc' | 'desc';
+  /** Maximum number of reservations per page */
+  limit?: number;
+  /** Opaque cursor returned as `pagination.nextCursor` by the previous page */
+  cursor?: string;
+}
+
+export type ListReservationsResponse =
+  | ApiSuccess<200, ReservationListResponse>
+  | ApiFailure<401, ErrorResponse>
+  | ApiFailure<403, ErrorResponse>
+  | ApiFailure<422, ValidationErrorResponse>
+  | ApiFailure<429, ErrorResponse>;
+
+export interface CreateReservationParameters {
+  /** Client-generated key that makes retries safe. Requests from the same token subject repeating the key and body within 24 hours receive the original response; a UUID v4 per logical request is recommended. */
+  idempotencyKey?: string;
+  body: CreateReservationRequest;
+}
+
+export type CreateReservationResponse =
+  | ApiSuccess<201, ReservationResponse>
+  | ApiFailure<400, ErrorResponse>
+  | ApiFailure<401, ErrorResponse>
+  | ApiFailure<403, ErrorResponse>
+  | ApiFailure<409, ErrorResponse>
+  | ApiFailure<413, ErrorResponse>
+  | ApiFailure<415, ErrorResponse>
+  | ApiFailure<422, ValidationErrorResponse | ErrorResponse>
+  | ApiFailure<429, ErrorResponse>;
+
+export interface GetReservationParameters {
+  /** Unique identifier of the reservation */
+  reservationId: string;
+}
+
+export type GetReservationResponse =
+  | ApiSuccess<200, ReservationResponse>
+  | ApiFailure<401, ErrorResponse>
+  | ApiFailure<403, ErrorResponse>
+  | ApiFailure<404, ErrorResponse>
+  | ApiFailure<429, ErrorResponse>;
+
+export interface UpdateReservationParameters {
+  /** Unique identifier of the reservation */
+  reservationId: string;
+  body: UpdateReservationRequest;
+}
+
+export type UpdateReservationResponse =
+  | ApiSuccess<200, ReservationResponse>
+  | ApiFailure<400, ErrorResponse>
+  | ApiFailure<401, ErrorResponse>
+  | ApiFailure<403, ErrorResponse>
+  | ApiFailure<404, ErrorResponse>
+  | ApiFailure<409, ErrorResponse>
+  | ApiFailure<413, ErrorResponse>
+  | ApiFailure<415, ErrorResponse>
+  | ApiFailure<422, ValidationErrorResponse>
+  | ApiFailure<429, ErrorResponse>;
+
+export interface CancelReservationParameters {
+  /** Unique identifier of the reservation */
+  reservationId: string;
+}
+
+export type CancelReservationResponse =
+  | ApiSuccess<200, ReservationResponse>
+  | ApiFailure<401, ErrorResponse>
+  | ApiFailure<403, ErrorResponse>
+  | ApiFailure<404, ErrorResponse>
+  | ApiFailure<409, ErrorResponse>
+  | ApiFailure<429, ErrorResponse>;
+
+export interface GetReservationQrCodeParameters {
+  /** Unique identifier of the reservation */
+  reservationId: string;
+  /** Image format of the QR code */
+  format?: 'svg' | 'png';
+}
+
+export type GetReservationQrCodeResponse =
+  | ApiSuccess<200, string | ArrayBuffer>
+  | ApiFailure<401, ErrorResponse>
+  | ApiFailure<403, ErrorResponse>
+  | ApiFailure<404, ErrorResponse>
+  | ApiFailure<422, ValidationErrorResponse>
+  | ApiFailure<429, ErrorResponse>;
@@ -0,0 +1,83 @@
+import { Currency } from '../../utils/Currency';
+import { ValidationError } from '../../errors/DomainError';
+import { Language } from '../reservations/Reservation';
+
+export const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+export interface TimeSlot {
+  time: string;
+  capacity: number;
+}
+
+export interface ActivitySchedule {
+  daysOfWeek: Weekday[];
+  slots: TimeSlot[];
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface ActivityData {
+  id: string;
+  names: Partial<Record<Language, string>>;
+  schedule: ActivitySchedule;
+  pricePerPerson: Currency;
+}
+
+const ACTIVITY_ID_PATTERN = /^act_[a-z0-9_]+$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export class Activity {
+  public readonly id: string;
+  public readonly names: Partial<Record<Language, string>>;
+  public readonly schedule: ActivitySchedule;
+  public readonly pricePerPerson: Currency;
+
+  constructor(data: ActivityData) {
+    this.id = data.id;
+    this.names = data.names;
+    this.schedule = data.schedule;
+    this.pricePerPerson = data.pricePerPerson;
+
+    Activity.assertValid(this);
+  }
+
+  nameIn(language: Language): string {
+    return this.names[language] ?? this.names.en ?? Object.values(this.names)[0] ?? this.id;
+  }
+
+  runsOn(date: string): boolean {
+    const { startDate, endDate, daysOfWeek } = this.schedule;
+    if ((startDate !== undefined && date < startDate) || (endDate !== undefined && date > endDate)) {
+      return false;
+    }
+    return daysOfWeek.includes(WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()]);
+  }
+
+  slotAt(date: string, time: string): TimeSlot | undefined {
+    return this.runsOn(date) ? this.schedule.slots.find(slot => slot.time === time) : undefined;
+  }
+
+  private static assertValid(activity: Activity): void {
+    const problem = (field: string, message: string, rejectedValue?: unknown) =>
+      ValidationError.of({ field, message, code: 'INVALID_VALUE', rejectedValue });
+
+    if (!ACTIVITY_ID_PATTERN.test(activity.id)) {
+      throw problem('id', `Invalid activity id: ${activity.id}`, activity.id);
+    }
+    if (Object.keys(activity.names).length === 0) {
+      throw problem('names', 'Activity needs a name in at least one language');
+    }
+    if (activity.schedule.daysOfWeek.some(day => !WEEKDAYS.includes(day))) {
+      throw problem('schedule.daysOfWeek', `Days of week must be among ${WEEKDAYS.join(', ')}`, activity.schedule.daysOfWeek);
+    }
+    activity.schedule.slots.forEach((slot, index) => {
+      if (!TIME_PATTERN.test(slot.time)) {
+        throw problem(`schedule.slots[${index}].time`, 'Slot time must be in HH:mm format (24-hour)', slot.time);
+      }
+      if (!Number.isInteger(slot.capacity) || slot.capacity < 1) {
+        throw problem(`schedule.slots[${index}].capacity`, 'Slot capacity must be a positive integer', slot.capacity);
+      }
+    });
+  }
+}
@@ -0,0 +1,22 @@
+import { Activity } from './Activity';
+
+export interface ActivityCatalog {
+  findById(id: string): Promise<Activity | undefined>;
+  findAll(): Promise<Activity[]>;
+}
+
+export class InMemoryActivityCatalog implements ActivityCatalog {
+  private activities: Map<string, Activity>;
+
+  constructor(activities: Activity[] = []) {
+    this.activities = new Map(activities.map(activity => [activity.id, activity]));
+  }
+
+  async findById(id: string): Promise<Activity | undefined> {
+    return this.activities.get(id);
+  }
+
+  async findAll(): Promise<Activity[]> {
+    return Array.from(this.activities.values());
+  }
+}
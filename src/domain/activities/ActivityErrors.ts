@@ -0,0 +1,21 @@
+import { ConflictError } from '../../errors/DomainError';
+
+export class SlotCapacityExceededError extends ConflictError {
+  readonly code = 'SLOT_CAPACITY_EXCEEDED';
+
+  constructor(
+    public readonly activityId: string,
+    public readonly date: string,
+    public readonly time: string,
+    public readonly requestedPeople: number,
+    public readonly remainingCapacity: number
+  ) {
+    super(`Only ${remainingCapacity} places left for ${activityId} on ${date} at ${time}`, {
+      activityId,
+      date,
+      time,
+      requestedPeople,
+      remainingCapacity
+    });
+  }
+}
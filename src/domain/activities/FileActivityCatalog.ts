@@ -0,0 +1,39 @@
+import { promises as fs } from 'fs';
+import { Activity, ActivityData } from './Activity';
+import { ActivityCatalog, InMemoryActivityCatalog } from './ActivityCatalog';
+import { CurrencyUtils } from '../../utils/Currency';
+
+type StoredActivity = Omit<ActivityData, 'pricePerPerson'> & {
+  pricePerPerson: { amount: number; currency: string };
+};
+
+export class FileActivityCatalog implements ActivityCatalog {
+  private loading?: Promise<InMemoryActivityCatalog>;
+
+  constructor(private readonly filePath: string) {}
+
+  async findById(id: string): Promise<Activity | undefined> {
+    return (await this.load()).findById(id);
+  }
+
+  async findAll(): Promise<Activity[]> {
+    return (await this.load()).findAll();
+  }
+
+  private load(): Promise<InMemoryActivityCatalog> {
+    this.loading ??= this.readFile().catch(error => {
+      this.loading = undefined;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  private async readFile(): Promise<InMemoryActivityCatalog> {
+    const content = await fs.readFile(this.filePath, 'utf-8');
+    const stored = JSON.parse(content) as StoredActivity[];
+    return new InMemoryActivityCatalog(stored.map(activity => new Activity({
+      ...activity,
+      pricePerPerson: CurrencyUtils.create(activity.pricePerPerson.amount, activity.pricePerPerson.currency)
+    })));
+  }
+}
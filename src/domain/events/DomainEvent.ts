@@ -0,0 +1,6 @@
+export interface DomainEvent {
+  id: string;
+  type: string;
+  aggregateId: string;
+  occurredAt: string;
+}
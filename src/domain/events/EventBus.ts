@@ -0,0 +1,57 @@
+import { DomainEvent } from './DomainEvent';
+import { EventDeliveryError } from './EventErrors';
+
+export type EventHandler<E> = (event: E) => Promise<void> | void;
+
+export interface PublishOptions {
+  // Names of handlers that already received the event and must not run again
+  skip?: string[];
+}
+
+export interface EventBus<E extends DomainEvent> {
+  subscribe<T extends E['type']>(type: T, handler: EventHandler<Extract<E, { type: T }>>, name?: string): () => void;
+  subscribeAll(handler: EventHandler<E>, name?: string): () => void;
+  publish(event: E, options?: PublishOptions): Promise<void>;
+}
+
+export class InMemoryEventBus<E extends DomainEvent> implements EventBus<E> {
+  private handlers: Map<string, Map<string, EventHandler<E>>> = new Map();
+  private wildcard: Map<string, EventHandler<E>> = new Map();
+  private subscriptions = 0;
+
+  subscribe<T extends E['type']>(type: T, handler: EventHandler<Extract<E, { type: T }>>, name?: string): () => void {
+    const handlers = this.handlers.get(type) ?? new Map();
+    this.handlers.set(type, handlers);
+    return this.register(handlers, name ?? `${type}#${++this.subscriptions}`, handler as EventHandler<E>);
+  }
+
+  subscribeAll(handler: EventHandler<E>, name?: string): () => void {
+    return this.register(this.wildcard, name ?? `*#${++this.subscriptions}`, handler);
+  }
+
+  async publish(event: E, options: PublishOptions = {}): Promise<void> {
+    const handlers = [...(this.handlers.get(event.type) ?? []), ...this.wildcard]
+      .filter(([name]) => !options.skip?.includes(name));
+    const delivered: string[] = [];
+    const failures: unknown[] = [];
+    for (const [name, handler] of handlers) {
+      try {
+        await handler(event);
+        delivered.push(name);
+      } catch (error) {
+        failures.push(error);
+      }
+    }
+    if (failures.length > 0) {
+      throw new EventDeliveryError(event, failures, delivered);
+    }
+  }
+
+  private register(handlers: Map<string, EventHandler<E>>, name: string, handler: EventHandler<E>): () => void {
+    if ([...this.handlers.values(), this.wildcard].some(registered => registered.has(name))) {
+      throw new Error(`An event handler named ${name} is already subscribed`);
+    }
+    handlers.set(name, handler);
+    return () => handlers.delete(name);
+  }
+}
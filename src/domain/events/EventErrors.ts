@@ -0,0 +1,18 @@
+import { DomainError } from '../../errors/DomainError';
+import { DomainEvent } from './DomainEvent';
+
+export class EventDeliveryError extends DomainError {
+  readonly code = 'EVENT_DELIVERY_FAILED';
+
+  constructor(
+    public readonly event: DomainEvent,
+    public readonly failures: unknown[],
+    public readonly delivered: string[] = []
+  ) {
+    super(`${failures.length} subscriber(s) failed to handle ${event.type} ${event.id}`, {
+      eventId: event.id,
+      eventType: event.type,
+      failures: failures.map(failure => (failure instanceof Error ? failure.message : String(failure)))
+    });
+  }
+}
@@ -0,0 +1,83 @@
+import { DomainEvent } from './DomainEvent';
+import { DeliveryFailure, InMemoryOutbox, Outbox, OutboxEntry } from './Outbox';
+import { AtomicFile } from '../../utils/AtomicFile';
+
+export class FileOutbox<E extends DomainEvent> implements Outbox<E> {
+  private outbox?: InMemoryOutbox<E>;
+  private loading?: Promise<InMemoryOutbox<E>>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async append(events: E[]): Promise<void> {
+    const outbox = await this.load();
+    await outbox.append(events);
+    await this.flush(outbox);
+  }
+
+  async commit(eventIds: string[]): Promise<void> {
+    const outbox = await this.load();
+    await outbox.commit(eventIds);
+    await this.flush(outbox);
+  }
+
+  async discard(eventIds: string[]): Promise<void> {
+    const outbox = await this.load();
+    await outbox.discard(eventIds);
+    await this.flush(outbox);
+  }
+
+  async staged(): Promise<OutboxEntry<E>[]> {
+    return (await this.load()).staged();
+  }
+
+  async pending(limit?: number): Promise<OutboxEntry<E>[]> {
+    return (await this.load()).pending(limit);
+  }
+
+  async deadLettered(): Promise<OutboxEntry<E>[]> {
+    return (await this.load()).deadLettered();
+  }
+
+  async markDelivered(eventId: string): Promise<void> {
+    const outbox = await this.load();
+    await outbox.markDelivered(eventId);
+    await this.flush(outbox);
+  }
+
+  async markFailed(eventId: string, failure: DeliveryFailure): Promise<void> {
+    const outbox = await this.load();
+    await outbox.markFailed(eventId, failure);
+    await this.flush(outbox);
+  }
+
+  private async load(): Promise<InMemoryOutbox<E>> {
+    if (this.outbox) {
+      return this.outbox;
+    }
+    this.loading ??= this.readFile().then(
+      outbox => (this.outbox = outbox),
+      error => {
+        this.loading = undefined;
+        throw error;
+      }
+    );
+    return this.loading;
+  }
+
+  private async readFile(): Promise<InMemoryOutbox<E>> {
+    const lines = await AtomicFile.readLines(this.filePath);
+    return new InMemoryOutbox(lines.map(line => JSON.parse(line) as OutboxEntry<E>));
+  }
+
+  private async flush(outbox: InMemoryOutbox<E>): Promise<void> {
+    const content = outbox.all()
+      .map(entry => JSON.stringify(entry))
+      .join('\n');
+
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(() => AtomicFile.write(this.filePath, content ? `${content}\n` : ''));
+    return this.writing;
+  }
+}
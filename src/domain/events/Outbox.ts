@@ -0,0 +1,90 @@
+import { DomainEvent } from './DomainEvent';
+
+export interface OutboxEntry<E extends DomainEvent> {
+  event: E;
+  attempts: number;
+  // Set until the change the event describes has been stored; staged events are never delivered
+  staged?: boolean;
+  deliveredTo?: string[];
+  lastError?: string;
+  lastAttemptAt?: string;
+  deadLetteredAt?: string;
+}
+
+export interface DeliveryFailure {
+  error: string;
+  deliveredTo: string[];
+  deadLetter: boolean;
+}
+
+export interface Outbox<E extends DomainEvent> {
+  append(events: E[]): Promise<void>;
+  commit(eventIds: string[]): Promise<void>;
+  discard(eventIds: string[]): Promise<void>;
+  staged(): Promise<OutboxEntry<E>[]>;
+  pending(limit?: number): Promise<OutboxEntry<E>[]>;
+  deadLettered(): Promise<OutboxEntry<E>[]>;
+  markDelivered(eventId: string): Promise<void>;
+  markFailed(eventId: string, failure: DeliveryFailure): Promise<void>;
+}
+
+export class InMemoryOutbox<E extends DomainEvent> implements Outbox<E> {
+  private entries: Map<string, OutboxEntry<E>>;
+
+  constructor(entries: OutboxEntry<E>[] = []) {
+    this.entries = new Map(entries.map(entry => [entry.event.id, entry]));
+  }
+
+  async append(events: E[]): Promise<void> {
+    events.forEach(event => this.entries.set(event.id, { event, attempts: 0, staged: true }));
+  }
+
+  async commit(eventIds: string[]): Promise<void> {
+    eventIds.forEach(id => {
+      const entry = this.entries.get(id);
+      if (entry?.staged) {
+        this.entries.set(id, { ...entry, staged: undefined });
+      }
+    });
+  }
+
+  async discard(eventIds: string[]): Promise<void> {
+    eventIds.forEach(id => this.entries.delete(id));
+  }
+
+  async staged(): Promise<OutboxEntry<E>[]> {
+    return this.all().filter(entry => entry.staged);
+  }
+
+  async pending(limit: number = Infinity): Promise<OutboxEntry<E>[]> {
+    return this.all().filter(entry => !entry.staged && entry.deadLetteredAt === undefined).slice(0, limit);
+  }
+
+  async deadLettered(): Promise<OutboxEntry<E>[]> {
+    return this.all().filter(entry => entry.deadLetteredAt !== undefined);
+  }
+
+  async markDelivered(eventId: string): Promise<void> {
+    this.entries.delete(eventId);
+  }
+
+  async markFailed(eventId: string, failure: DeliveryFailure): Promise<void> {
+    const entry = this.entries.get(eventId);
+    if (!entry) {
+      return;
+    }
+    const now = new Date().toISOString();
+    this.entries.set(eventId, {
+      ...entry,
+      attempts: entry.attempts + 1,
+      deliveredTo: [...new Set([...(entry.deliveredTo ?? []), ...failure.deliveredTo])],
+      lastError: failure.error,
+      lastAttemptAt: now,
+      ...(failure.deadLetter ? { deadLetteredAt: now } : {})
+    });
+  }
+
+  all(): OutboxEntry<E>[] {
+    return Array.from(this.entries.values());
+  }
+}
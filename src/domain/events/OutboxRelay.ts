@@ -0,0 +1,90 @@
+import { DomainEvent } from './DomainEvent';
+import { EventBus } from './EventBus';
+import { EventDeliveryError } from './EventErrors';
+import { Outbox, OutboxEntry } from './Outbox';
+
+export interface OutboxRelayOptions {
+  batchSize?: number;
+  intervalMs?: number;
+  maxAttempts?: number;
+  retryDelayMs?: number;
+}
+
+export class OutboxRelay<E extends DomainEvent> {
+  private readonly batchSize: number;
+  private readonly intervalMs: number;
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<number>;
+
+  constructor(
+    private readonly outbox: Outbox<E>,
+    private readonly bus: EventBus<E>,
+    options: OutboxRelayOptions = {}
+  ) {
+    this.batchSize = options.batchSize ?? 100;
+    this.intervalMs = options.intervalMs ?? 1000;
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+  }
+
+  deliverPending(): Promise<number> {
+    this.running ??= this.deliverBatch().finally(() => (this.running = undefined));
+    return this.running;
+  }
+
+  start(): void {
+    this.timer ??= setInterval(() => void this.deliverPending(), this.intervalMs).unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async deliverBatch(): Promise<number> {
+    const blocked = new Set<string>();
+    let published = 0;
+    let delivered = 0;
+
+    for (const entry of await this.outbox.pending()) {
+      const { event } = entry;
+      // Later events of an aggregate wait for an earlier one that is still being retried so consumers see them in order
+      if (blocked.has(event.aggregateId) || !this.isDue(entry)) {
+        blocked.add(event.aggregateId);
+        continue;
+      }
+      if (published === this.batchSize) {
+        break;
+      }
+      published++;
+
+      try {
+        await this.bus.publish(event, { skip: entry.deliveredTo });
+      } catch (error) {
+        // Exhausted events are dead-lettered and stop holding back the rest of their aggregate
+        const deadLetter = entry.attempts + 1 >= this.maxAttempts;
+        if (!deadLetter) {
+          blocked.add(event.aggregateId);
+        }
+        await this.outbox.markFailed(event.id, {
+          error: error instanceof Error ? error.message : String(error),
+          deliveredTo: error instanceof EventDeliveryError ? error.delivered : [],
+          deadLetter
+        });
+        continue;
+      }
+      await this.outbox.markDelivered(event.id);
+      delivered++;
+    }
+    return delivered;
+  }
+
+  private isDue(entry: OutboxEntry<E>): boolean {
+    if (entry.attempts === 0 || entry.lastAttemptAt === undefined) {
+      return true;
+    }
+    return Date.now() >= Date.parse(entry.lastAttemptAt) + this.retryDelayMs * 2 ** (entry.attempts - 1);
+  }
+}
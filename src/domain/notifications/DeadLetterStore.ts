@@ -0,0 +1,25 @@
+import { NotificationMessage } from './NotificationTransport';
+
+export interface DeadLetter {
+  message: NotificationMessage;
+  attempts: number;
+  errors: string[];
+  failedAt: string;
+}
+
+export interface DeadLetterStore {
+  record(letter: DeadLetter): Promise<void>;
+  findAll(): Promise<DeadLetter[]>;
+}
+
+export class InMemoryDeadLetterStore implements DeadLetterStore {
+  private letters: DeadLetter[] = [];
+
+  async record(letter: DeadLetter): Promise<void> {
+    this.letters.push(letter);
+  }
+
+  async findAll(): Promise<DeadLetter[]> {
+    return [...this.letters];
+  }
+}
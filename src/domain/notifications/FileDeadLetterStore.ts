@@ -0,0 +1,14 @@
+import { DeadLetter, DeadLetterStore } from './DeadLetterStore';
+import { AtomicFile } from '../../utils/AtomicFile';
+
+export class FileDeadLetterStore implements DeadLetterStore {
+  constructor(private readonly filePath: string) {}
+
+  async record(letter: DeadLetter): Promise<void> {
+    await AtomicFile.appendLine(this.filePath, JSON.stringify(letter));
+  }
+
+  async findAll(): Promise<DeadLetter[]> {
+    return (await AtomicFile.readLines(this.filePath)).map(line => JSON.parse(line) as DeadLetter);
+  }
+}
@@ -0,0 +1,10 @@
+import { NotificationMessage, NotificationTransport } from './NotificationTransport';
+import { AtomicFile } from '../../utils/AtomicFile';
+
+export class FileNotificationTransport implements NotificationTransport {
+  constructor(private readonly filePath: string) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    await AtomicFile.appendLine(this.filePath, JSON.stringify({ ...message, sentAt: new Date().toISOString() }));
+  }
+}
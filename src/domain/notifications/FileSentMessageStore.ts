@@ -0,0 +1,38 @@
+import { SentMessageStore } from './SentMessageStore';
+import { AtomicFile } from '../../utils/AtomicFile';
+
+export class FileSentMessageStore implements SentMessageStore {
+  private ids?: Set<string>;
+  private loading?: Promise<Set<string>>;
+
+  constructor(private readonly filePath: string) {}
+
+  async record(messageId: string): Promise<void> {
+    const ids = await this.load();
+    await AtomicFile.appendLine(this.filePath, JSON.stringify({ id: messageId, sentAt: new Date().toISOString() }));
+    ids.add(messageId);
+  }
+
+  async has(messageId: string): Promise<boolean> {
+    return (await this.load()).has(messageId);
+  }
+
+  private async load(): Promise<Set<string>> {
+    if (this.ids) {
+      return this.ids;
+    }
+    this.loading ??= this.readFile().then(
+      ids => (this.ids = ids),
+      error => {
+        this.loading = undefined;
+        throw error;
+      }
+    );
+    return this.loading;
+  }
+
+  private async readFile(): Promise<Set<string>> {
+    const lines = await AtomicFile.readLines(this.filePath);
+    return new Set(lines.map(line => (JSON.parse(line) as { id: string }).id));
+  }
+}
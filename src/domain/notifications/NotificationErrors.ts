@@ -0,0 +1,9 @@
+import { DomainError } from '../../errors/DomainError';
+
+export class SmtpError extends DomainError {
+  readonly code = 'SMTP_ERROR';
+
+  constructor(public readonly command: string, public readonly replyCode: number, public readonly reply: string) {
+    super(`SMTP server rejected ${command} with ${replyCode} ${reply}`, { command, replyCode, reply });
+  }
+}
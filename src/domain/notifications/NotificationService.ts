@@ -0,0 +1,96 @@
+import { ActivityCatalog } from '../activities/ActivityCatalog';
+import { EventBus } from '../events/EventBus';
+import { Reservation } from '../reservations/Reservation';
+import { ReservationEvent, ReservationEvents, ReservationSnapshot } from '../reservations/ReservationEvents';
+import { DeadLetterStore, InMemoryDeadLetterStore } from './DeadLetterStore';
+import { NotificationKind, NotificationTemplates } from './NotificationTemplates';
+import { NotificationMessage, NotificationTransport } from './NotificationTransport';
+import { InMemorySentMessageStore, SentMessageStore } from './SentMessageStore';
+
+export interface NotificationServiceOptions {
+  catalog?: ActivityCatalog;
+  deadLetters?: DeadLetterStore;
+  sentMessages?: SentMessageStore;
+}
+
+export class NotificationService {
+  private readonly catalog?: ActivityCatalog;
+  private readonly deadLetters: DeadLetterStore;
+  private readonly sentMessages: SentMessageStore;
+
+  constructor(private readonly transport: NotificationTransport, options: NotificationServiceOptions = {}) {
+    this.catalog = options.catalog;
+    this.deadLetters = options.deadLetters ?? new InMemoryDeadLetterStore();
+    this.sentMessages = options.sentMessages ?? new InMemorySentMessageStore();
+  }
+
+  subscribeTo(bus: EventBus<ReservationEvent>): () => void {
+    const subscriptions = [
+      bus.subscribe('reservation.confirmed', async event => {
+        await this.notify('confirmation', event.payload.reservation, event.id);
+      }, 'notifications.confirmation'),
+      bus.subscribe('reservation.cancelled', async event => {
+        await this.notify('cancellation', event.payload.reservation, event.id);
+      }, 'notifications.cancellation')
+    ];
+    return () => subscriptions.forEach(unsubscribe => unsubscribe());
+  }
+
+  // Reminders are not driven by the outbox, so a failed one is dead-lettered here and the rest still go out
+  async sendReminders(reservations: Reservation[]): Promise<number> {
+    let sent = 0;
+    for (const reservation of reservations.filter(r => r.status === 'confirmed')) {
+      const messageId = `reminder-${reservation.id}-${reservation.date}`;
+      if (await this.sentMessages.has(messageId)) {
+        continue;
+      }
+      const message = await this.render('reminder', ReservationEvents.snapshot(reservation), messageId);
+      try {
+        await this.deliver(message);
+        sent++;
+      } catch (error) {
+        const errors = [error instanceof Error ? error.message : String(error)];
+        await this.deadLetters.record({ message, attempts: 1, errors, failedAt: new Date().toISOString() });
+      }
+    }
+    return sent;
+  }
+
+  // Rejects when the transport fails so the outbox relay retries the event and dead-letters it once it keeps failing
+  async notify(kind: NotificationKind, reservation: ReservationSnapshot, messageId: string): Promise<boolean> {
+    if (await this.sentMessages.has(messageId)) {
+      return false;
+    }
+    await this.deliver(await this.render(kind, reservation, messageId));
+    return true;
+  }
+
+  private async render(kind: NotificationKind, reservation: ReservationSnapshot, messageId: string): Promise<NotificationMessage> {
+    const activity = await this.catalog?.findById(reservation.activityId);
+    const { subject, text } = NotificationTemplates.render(kind, {
+      language: reservation.language,
+      customerName: reservation.name,
+      activityName: activity?.nameIn(reservation.language) ?? reservation.activityId,
+      date: reservation.date,
+      time: reservation.time,
+      numberOfPeople: reservation.numberOfPeople,
+      total: reservation.amount,
+      confirmationCode: reservation.confirmationCode
+    });
+
+    return {
+      id: messageId,
+      kind,
+      reservationId: reservation.id,
+      to: reservation.email,
+      language: reservation.language,
+      subject,
+      text
+    };
+  }
+
+  private async deliver(message: NotificationMessage): Promise<void> {
+    await this.transport.send(message);
+    await this.sentMessages.record(message.id);
+  }
+}
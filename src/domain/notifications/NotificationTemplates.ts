@@ -0,0 +1,192 @@
+import { Language } from '../reservations/Reservation';
+import { Currency } from '../../utils/Currency';
+import { CurrencyFormatter } from '../../utils/CurrencyFormatter';
+
+export type NotificationKind = 'confirmation' | 'cancellation' | 'reminder';
+
+export interface TemplateContext {
+  language: Language;
+  customerName: string;
+  activityName: string;
+  date: string;
+  time?: string;
+  numberOfPeople: number;
+  total: Currency;
+  confirmationCode: string;
+}
+
+export interface RenderedTemplate {
+  subject: string;
+  text: string;
+}
+
+interface Phrases {
+  greeting: (name: string) => string;
+  subjects: Record<NotificationKind, (context: TemplateContext, date: string) => string>;
+  intros: Record<NotificationKind, string>;
+  closings: Record<NotificationKind, string>;
+  labels: { activity: string; date: string; time: string; people: string; total: string; code: string };
+}
+
+const TEMPLATES: Record<Language, Phrases> = {
+  es: {
+    greeting: name => `Hola ${name}:`,
+    subjects: {
+      confirmation: ({ confirmationCode }) => `Confirmación de tu reserva ${confirmationCode}`,
+      cancellation: ({ confirmationCode }) => `Reserva cancelada ${confirmationCode}`,
+      reminder: ({ activityName }, date) => `Recordatorio: ${activityName} el ${date}`
+    },
+    intros: {
+      confirmation: 'Gracias por tu reserva. Estos son los detalles:',
+      cancellation: 'Tu reserva ha sido cancelada. Estos eran los detalles:',
+      reminder: 'Te recordamos que tu actividad es pronto:'
+    },
+    closings: {
+      confirmation: 'Presenta este código o el código QR en el punto de encuentro.',
+      cancellation: 'Si no has solicitado esta cancelación, contacta con nosotros.',
+      reminder: 'Presenta este código o el código QR en el punto de encuentro.'
+    },
+    labels: { activity: 'Actividad', date: 'Fecha', time: 'Hora', people: 'Personas', total: 'Total', code: 'Código de confirmación' }
+  },
+  en: {
+    greeting: name => `Hello ${name},`,
+    subjects: {
+      confirmation: ({ confirmationCode }) => `Booking confirmation ${confirmationCode}`,
+      cancellation: ({ confirmationCode }) => `Booking cancelled ${confirmationCode}`,
+      reminder: ({ activityName }, date) => `Reminder: ${activityName} on ${date}`
+    },
+    intros: {
+      confirmation: 'Thank you for your booking. Here are the details:',
+      cancellation: 'Your booking has been cancelled. These were the details:',
+      reminder: 'Your activity is coming up soon:'
+    },
+    closings: {
+      confirmation: 'Show this code or the QR code at the meeting point.',
+      cancellation: 'If you did not request this cancellation, please contact us.',
+      reminder: 'Show this code or the QR code at the meeting point.'
+    },
+    labels: { activity: 'Activity', date: 'Date', time: 'Time', people: 'People', total: 'Total', code: 'Confirmation code' }
+  },
+  fr: {
+    greeting: name => `Bonjour ${name},`,
+    subjects: {
+      confirmation: ({ confirmationCode }) => `Confirmation de votre réservation ${confirmationCode}`,
+      cancellation: ({ confirmationCode }) => `Réservation annulée ${confirmationCode}`,
+      reminder: ({ activityName }, date) => `Rappel : ${activityName} le ${date}`
+    },
+    intros: {
+      confirmation: 'Merci pour votre réservation. Voici les détails :',
+      cancellation: 'Votre réservation a été annulée. Voici les détails :',
+      reminder: 'Votre activité approche :'
+    },
+    closings: {
+      confirmation: 'Présentez ce code ou le code QR au point de rendez-vous.',
+      cancellation: "Si vous n'avez pas demandé cette annulation, contactez-nous.",
+      reminder: 'Présentez ce code ou le code QR au point de rendez-vous.'
+    },
+    labels: { activity: 'Activité', date: 'Date', time: 'Heure', people: 'Personnes', total: 'Total', code: 'Code de confirmation' }
+  },
+  de: {
+    greeting: name => `Hallo ${name},`,
+    subjects: {
+      confirmation: ({ confirmationCode }) => `Buchungsbestätigung ${confirmationCode}`,
+      cancellation: ({ confirmationCode }) => `Buchung storniert ${confirmationCode}`,
+      reminder: ({ activityName }, date) => `Erinnerung: ${activityName} am ${date}`
+    },
+    intros: {
+      confirmation: 'Vielen Dank für Ihre Buchung. Hier sind die Details:',
+      cancellation: 'Ihre Buchung wurde storniert. Dies waren die Details:',
+      reminder: 'Ihre Aktivität steht bald an:'
+    },
+    closings: {
+      confirmation: 'Zeigen Sie diesen Code oder den QR-Code am Treffpunkt vor.',
+      cancellation: 'Falls Sie diese Stornierung nicht veranlasst haben, kontaktieren Sie uns bitte.',
+      reminder: 'Zeigen Sie diesen Code oder den QR-Code am Treffpunkt vor.'
+    },
+    labels: { activity: 'Aktivität', date: 'Datum', time: 'Uhrzeit', people: 'Personen', total: 'Gesamtbetrag', code: 'Bestätigungscode' }
+  },
+  it: {
+    greeting: name => `Ciao ${name},`,
+    subjects: {
+      confirmation: ({ confirmationCode }) => `Conferma della prenotazione ${confirmationCode}`,
+      cancellation: ({ confirmationCode }) => `Prenotazione cancellata ${confirmationCode}`,
+      reminder: ({ activityName }, date) => `Promemoria: ${activityName} il ${date}`
+    },
+    intros: {
+      confirmation: 'Grazie per la tua prenotazione. Ecco i dettagli:',
+      cancellation: 'La tua prenotazione è stata cancellata. Questi erano i dettagli:',
+      reminder: 'La tua attività si avvicina:'
+    },
+    closings: {
+      confirmation: "Mostra questo codice o il codice QR al punto d'incontro.",
+      cancellation: 'Se non hai richiesto questa cancellazione, contattaci.',
+      reminder: "Mostra questo codice o il codice QR al punto d'incontro."
+    },
+    labels: { activity: 'Attività', date: 'Data', time: 'Ora', people: 'Persone', total: 'Totale', code: 'Codice di conferma' }
+  },
+  pt: {
+    greeting: name => `Olá ${name},`,
+    subjects: {
+      confirmation: ({ confirmationCode }) => `Confirmação da sua reserva ${confirmationCode}`,
+      cancellation: ({ confirmationCode }) => `Reserva cancelada ${confirmationCode}`,
+      reminder: ({ activityName }, date) => `Lembrete: ${activityName} em ${date}`
+    },
+    intros: {
+      confirmation: 'Obrigado pela sua reserva. Aqui estão os detalhes:',
+      cancellation: 'A sua reserva foi cancelada. Estes eram os detalhes:',
+      reminder: 'A sua atividade está a chegar:'
+    },
+    closings: {
+      confirmation: 'Apresente este código ou o código QR no ponto de encontro.',
+      cancellation: 'Se não pediu este cancelamento, contacte-nos.',
+      reminder: 'Apresente este código ou o código QR no ponto de encontro.'
+    },
+    labels: { activity: 'Atividade', date: 'Data', time: 'Hora', people: 'Pessoas', total: 'Total', code: 'Código de confirmação' }
+  },
+  ca: {
+    greeting: name => `Hola ${name}:`,
+    subjects: {
+      confirmation: ({ confirmationCode }) => `Confirmació de la teva reserva ${confirmationCode}`,
+      cancellation: ({ confirmationCode }) => `Reserva cancel·lada ${confirmationCode}`,
+      reminder: ({ activityName }, date) => `Recordatori: ${activityName} el ${date}`
+    },
+    intros: {
+      confirmation: 'Gràcies per la teva reserva. Aquests són els detalls:',
+      cancellation: "La teva reserva s'ha cancel·lat. Aquests eren els detalls:",
+      reminder: "La teva activitat s'acosta:"
+    },
+    closings: {
+      confirmation: 'Presenta aquest codi o el codi QR al punt de trobada.',
+      cancellation: "Si no has sol·licitat aquesta cancel·lació, contacta amb nosaltres.",
+      reminder: 'Presenta aquest codi o el codi QR al punt de trobada.'
+    },
+    labels: { activity: 'Activitat', date: 'Data', time: 'Hora', people: 'Persones', total: 'Total', code: 'Codi de confirmació' }
+  }
+};
+
+export class NotificationTemplates {
+  static render(kind: NotificationKind, context: TemplateContext): RenderedTemplate {
+    const { language } = context;
+    const phrases = TEMPLATES[language];
+    const date = this.formatDate(context.date, language);
+    const { labels } = phrases;
+
+    const details = [
+      `${labels.activity}: ${context.activityName}`,
+      `${labels.date}: ${date}`,
+      ...(context.time !== undefined ? [`${labels.time}: ${context.time}`] : []),
+      `${labels.people}: ${context.numberOfPeople}`,
+      `${labels.total}: ${CurrencyFormatter.format(context.total, language)}`,
+      `${labels.code}: ${context.confirmationCode}`
+    ];
+
+    return {
+      subject: phrases.subjects[kind](context, date),
+      text: [phrases.greeting(context.customerName), '', phrases.intros[kind], '', ...details, '', phrases.closings[kind], ''].join('\n')
+    };
+  }
+
+  private static formatDate(date: string, language: Language): string {
+    return new Intl.DateTimeFormat(language, { dateStyle: 'full', timeZone: 'UTC' }).format(new Date(`${date}T00:00:00Z`));
+  }
+}
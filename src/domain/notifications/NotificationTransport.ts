@@ -0,0 +1,28 @@
+import { Language } from '../reservations/Reservation';
+import { NotificationKind } from './NotificationTemplates';
+
+export interface NotificationMessage {
+  id: string;
+  kind: NotificationKind;
+  reservationId: string;
+  to: string;
+  language: Language;
+  subject: string;
+  text: string;
+}
+
+export interface NotificationTransport {
+  send(message: NotificationMessage): Promise<void>;
+}
+
+export class InMemoryNotificationTransport implements NotificationTransport {
+  private messages: NotificationMessage[] = [];
+
+  async send(message: NotificationMessage): Promise<void> {
+    this.messages.push(message);
+  }
+
+  get sent(): NotificationMessage[] {
+    return [...this.messages];
+  }
+}
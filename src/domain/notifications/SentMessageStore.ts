@@ -0,0 +1,16 @@
+export interface SentMessageStore {
+  record(messageId: string): Promise<void>;
+  has(messageId: string): Promise<boolean>;
+}
+
+export class InMemorySentMessageStore implements SentMessageStore {
+  private ids = new Set<string>();
+
+  async record(messageId: string): Promise<void> {
+    this.ids.add(messageId);
+  }
+
+  async has(messageId: string): Promise<boolean> {
+    return this.ids.has(messageId);
+  }
+}
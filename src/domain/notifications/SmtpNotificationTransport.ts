@@ -0,0 +1,145 @@
+import { createConnection, Socket } from 'net';
+import { NotificationMessage, NotificationTransport } from './NotificationTransport';
+import { SmtpError } from './NotificationErrors';
+
+export interface SmtpOptions {
+  host?: string;
+  port?: number;
+  from: string;
+  clientName?: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting?: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void };
+  private failure?: Error;
+
+  constructor(private readonly socket: Socket) {
+    socket.setEncoding('utf-8');
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  async expect(command: string, accepted: number[]): Promise<void> {
+    const reply = await this.reply();
+    if (!accepted.includes(reply.code)) {
+      throw new SmtpError(command, reply.code, reply.text);
+    }
+  }
+
+  async send(command: string, accepted: number[]): Promise<void> {
+    this.socket.write(`${command}\r\n`);
+    await this.expect(command.split(/[ :]/)[0], accepted);
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private reply(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) {
+      return Promise.resolve(queued);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => { this.waiting = { resolve, reject }; });
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let end: number;
+    while ((end = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.lines.push(line.slice(4));
+      // Multi-line replies continue with "250-" and end with "250 "
+      if (line.charAt(3) !== '-') {
+        this.deliver({ code: Number(line.slice(0, 3)), text: this.lines.join(' ') });
+        this.lines = [];
+      }
+    }
+  }
+
+  private deliver(reply: SmtpReply): void {
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    if (waiting) {
+      waiting.resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    waiting?.reject(this.failure);
+  }
+}
+
+export class SmtpNotificationTransport implements NotificationTransport {
+  private readonly host: string;
+  private readonly port: number;
+  private readonly clientName: string;
+  private readonly timeoutMs: number;
+
+  constructor(private readonly options: SmtpOptions) {
+    this.host = options.host ?? '127.0.0.1';
+    this.port = options.port ?? 1025;
+    this.clientName = options.clientName ?? 'localhost';
+    this.timeoutMs = options.timeoutMs ?? 10000;
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    const connection = new SmtpConnection(await this.connect());
+    try {
+      await connection.expect('CONNECT', [220]);
+      await connection.send(`EHLO ${this.clientName}`, [250]);
+      await connection.send(`MAIL FROM:<${this.options.from}>`, [250]);
+      await connection.send(`RCPT TO:<${message.to}>`, [250, 251]);
+      await connection.send('DATA', [354]);
+      await connection.send(`${this.format(message)}\r\n.`, [250]);
+      await connection.send('QUIT', [221]);
+    } finally {
+      connection.close();
+    }
+  }
+
+  private connect(): Promise<Socket> {
+    return new Promise((resolve, reject) => {
+      const socket = createConnection({ host: this.host, port: this.port });
+      socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error(`SMTP server did not answer within ${this.timeoutMs}ms`)));
+      socket.once('connect', () => resolve(socket));
+      socket.once('error', reject);
+    });
+  }
+
+  private format(message: NotificationMessage): string {
+    const body = Buffer.from(message.text, 'utf-8').toString('base64').match(/.{1,76}/g) ?? [];
+    return [
+      `From: ${this.options.from}`,
+      `To: ${message.to}`,
+      `Subject: =?UTF-8?B?${Buffer.from(message.subject, 'utf-8').toString('base64')}?=`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${message.id}@${this.clientName}>`,
+      `Content-Language: ${message.language}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      ...body
+    ].join('\r\n');
+  }
+}
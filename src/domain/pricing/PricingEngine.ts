@@ -0,0 +1,142 @@
+import { Currency, CurrencyUtils } from '../../utils/Currency';
+import { ValidationError } from '../../errors/DomainError';
+import { Activity } from '../activities/Activity';
+import { Reservation } from '../reservations/Reservation';
+
+export interface AgeBand {
+  name: string;
+  minAge: number;
+  maxAge: number;
+  percentOfAdultPrice: number;
+}
+
+export interface PricingRules {
+  ageBands: AgeBand[];
+  vipSurchargePercent: number;
+}
+
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  ageBands: [
+    { name: 'infant', minAge: 0, maxAge: 2, percentOfAdultPrice: 0 },
+    { name: 'child', minAge: 3, maxAge: 11, percentOfAdultPrice: 50 },
+    { name: 'teen', minAge: 12, maxAge: 17, percentOfAdultPrice: 80 }
+  ],
+  vipSurchargePercent: 25
+};
+
+export type PriceLineKind = 'charge' | 'discount';
+
+export interface PriceLineItem {
+  kind: PriceLineKind;
+  code: string;
+  description: string;
+  quantity: number;
+  unitPrice: Currency;
+  amount: Currency;
+}
+
+export interface PriceQuote {
+  lineItems: PriceLineItem[];
+  subtotal: Currency;
+  discount: Currency;
+  total: Currency;
+}
+
+export interface PromotionProvider {
+  discountFor(reservation: Reservation, subtotal: Currency, existing: Reservation[]): Promise<Currency | undefined>;
+}
+
+export class PricingEngine {
+  constructor(
+    private readonly rules: PricingRules = DEFAULT_PRICING_RULES,
+    private readonly promotions?: PromotionProvider
+  ) {}
+
+  async quote(reservation: Reservation, activity: Activity, existing: Reservation[] = []): Promise<PriceQuote> {
+    const adultPrice = activity.pricePerPerson;
+    const banded = reservation.children.map(child => this.bandFor(child.age));
+    const adults = reservation.numberOfPeople - banded.filter(band => band !== undefined).length;
+
+    const charges = [this.participants('adult', 'Adult', adults, adultPrice)];
+    for (const band of this.rules.ageBands) {
+      const count = banded.filter(candidate => candidate === band).length;
+      if (count > 0) {
+        const label = `${band.name.charAt(0).toUpperCase()}${band.name.slice(1)} (${band.minAge}-${band.maxAge} years)`;
+        charges.push(this.participants(band.name, label, count, PricingEngine.percentOf(adultPrice, band.percentOfAdultPrice)));
+      }
+    }
+    if (reservation.vipService && this.rules.vipSurchargePercent > 0) {
+      const surcharge = PricingEngine.percentOf(PricingEngine.sum(charges, adultPrice.currency), this.rules.vipSurchargePercent);
+      charges.push(this.single('charge', 'vip_surcharge', `VIP service (+${this.rules.vipSurchargePercent}%)`, surcharge));
+    }
+
+    const subtotal = PricingEngine.sum(charges, adultPrice.currency);
+    const discount = await this.discount(reservation, subtotal, existing);
+    const discounts = CurrencyUtils.isZero(discount)
+      ? []
+      : [this.single('discount', 'promo_discount', `Promo code ${reservation.promoCode}`, discount)];
+
+    return {
+      lineItems: [...charges, ...discounts],
+      subtotal,
+      discount,
+      total: CurrencyUtils.subtract(subtotal, discount)
+    };
+  }
+
+  static assertTotal(quote: PriceQuote, submitted: Currency): void {
+    if (submitted.currency !== quote.total.currency) {
+      throw ValidationError.of({
+        field: 'totalAmount.currency',
+        message: `This activity is priced in ${quote.total.currency}`,
+        code: 'INVALID_VALUE',
+        rejectedValue: submitted.currency
+      });
+    }
+    if (!CurrencyUtils.equals(submitted, quote.total)) {
+      throw ValidationError.of({
+        field: 'totalAmount.value',
+        message: `Total amount does not match the calculated price of ${CurrencyUtils.format(quote.total)}`,
+        code: 'INVALID_VALUE',
+        rejectedValue: submitted.amount
+      });
+    }
+  }
+
+  private async discount(reservation: Reservation, subtotal: Currency, existing: Reservation[]): Promise<Currency> {
+    if (reservation.promoCode === undefined) {
+      return CurrencyUtils.zero(subtotal.currency);
+    }
+
+    const discount = await this.promotions?.discountFor(reservation, subtotal, existing);
+    if (discount === undefined) {
+      throw ValidationError.of({
+        field: 'promoCode',
+        message: `Promo code ${reservation.promoCode} is not valid`,
+        code: 'INVALID_PROMO_CODE',
+        rejectedValue: reservation.promoCode
+      });
+    }
+    return CurrencyUtils.greaterThan(discount, subtotal) ? subtotal : discount;
+  }
+
+  private bandFor(age: number): AgeBand | undefined {
+    return this.rules.ageBands.find(band => age >= band.minAge && age <= band.maxAge);
+  }
+
+  private participants(code: string, description: string, quantity: number, unitPrice: Currency): PriceLineItem {
+    return { kind: 'charge', code, description, quantity, unitPrice, amount: CurrencyUtils.multiply(unitPrice, quantity) };
+  }
+
+  private single(kind: PriceLineKind, code: string, description: string, amount: Currency): PriceLineItem {
+    return { kind, code, description, quantity: 1, unitPrice: amount, amount };
+  }
+
+  private static sum(items: PriceLineItem[], currency: string): Currency {
+    return items.reduce((total, item) => CurrencyUtils.add(total, item.amount), CurrencyUtils.zero(currency));
+  }
+
+  private static percentOf(amount: Currency, percent: number): Currency {
+    return CurrencyUtils.fromMinorUnits(Math.round(amount.minorUnits * percent / 100), amount.currency);
+  }
+}
@@ -0,0 +1,37 @@
+import { promises as fs } from 'fs';
+import { PromoCode, PromoCodeData } from './PromoCode';
+import { InMemoryPromoCodeCatalog, PromoCodeCatalog } from './PromoCodeCatalog';
+import { CurrencyUtils } from '../../utils/Currency';
+
+type StoredPromoCode = Omit<PromoCodeData, 'discount'> & {
+  discount: { type: 'percentage'; percent: number } | { type: 'fixed'; amount: { amount: number; currency: string } };
+};
+
+export class FilePromoCodeCatalog implements PromoCodeCatalog {
+  private loading?: Promise<InMemoryPromoCodeCatalog>;
+
+  constructor(private readonly filePath: string) {}
+
+  async findByCode(code: string): Promise<PromoCode | undefined> {
+    return (await this.load()).findByCode(code);
+  }
+
+  private load(): Promise<InMemoryPromoCodeCatalog> {
+    this.loading ??= this.readFile().catch(error => {
+      this.loading = undefined;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  private async readFile(): Promise<InMemoryPromoCodeCatalog> {
+    const content = await fs.readFile(this.filePath, 'utf-8');
+    const stored = JSON.parse(content) as StoredPromoCode[];
+    return new InMemoryPromoCodeCatalog(stored.map(promo => new PromoCode({
+      ...promo,
+      discount: promo.discount.type === 'fixed'
+        ? { type: 'fixed', amount: CurrencyUtils.create(promo.discount.amount.amount, promo.discount.amount.currency) }
+        : promo.discount
+    })));
+  }
+}
@@ -0,0 +1,96 @@
+import { Currency, CurrencyUtils } from '../../utils/Currency';
+import { ValidationError } from '../../errors/DomainError';
+
+export type PromoDiscount =
+  | { type: 'percentage'; percent: number }
+  | { type: 'fixed'; amount: Currency };
+
+export interface PromoCodeData {
+  code: string;
+  discount: PromoDiscount;
+  currencies?: string[];
+  activityIds?: string[];
+  startDate?: string;
+  endDate?: string;
+  maxUses?: number;
+  maxUsesPerCustomer?: number;
+}
+
+const PROMO_CODE_PATTERN = /^[A-Z0-9]{4,20}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class PromoCode {
+  public readonly code: string;
+  public readonly discount: PromoDiscount;
+  public readonly currencies?: string[];
+  public readonly activityIds?: string[];
+  public readonly startDate?: string;
+  public readonly endDate?: string;
+  public readonly maxUses?: number;
+  public readonly maxUsesPerCustomer?: number;
+
+  constructor(data: PromoCodeData) {
+    this.code = data.code;
+    this.discount = data.discount;
+    this.currencies = data.currencies;
+    this.activityIds = data.activityIds;
+    this.startDate = data.startDate;
+    this.endDate = data.endDate;
+    this.maxUses = data.maxUses;
+    this.maxUsesPerCustomer = data.maxUsesPerCustomer;
+
+    PromoCode.assertValid(this);
+  }
+
+  isValidOn(date: string): boolean {
+    return (this.startDate === undefined || date >= this.startDate) && (this.endDate === undefined || date <= this.endDate);
+  }
+
+  appliesTo(activityId: string): boolean {
+    return this.activityIds === undefined || this.activityIds.includes(activityId);
+  }
+
+  accepts(currency: string): boolean {
+    if (this.discount.type === 'fixed' && this.discount.amount.currency !== currency) {
+      return false;
+    }
+    return this.currencies === undefined || this.currencies.includes(currency);
+  }
+
+  discountOn(subtotal: Currency): Currency {
+    const discount = this.discount.type === 'percentage'
+      ? CurrencyUtils.fromMinorUnits(Math.round(subtotal.minorUnits * this.discount.percent / 100), subtotal.currency)
+      : this.discount.amount;
+    return CurrencyUtils.greaterThan(discount, subtotal) ? subtotal : discount;
+  }
+
+  private static assertValid(promo: PromoCode): void {
+    const problem = (field: string, message: string, rejectedValue?: unknown) =>
+      ValidationError.of({ field, message, code: 'INVALID_VALUE', rejectedValue });
+
+    if (!PROMO_CODE_PATTERN.test(promo.code)) {
+      throw problem('code', `Invalid promo code: ${promo.code}`, promo.code);
+    }
+    if (promo.discount.type === 'percentage' && !(promo.discount.percent > 0 && promo.discount.percent <= 100)) {
+      throw problem('discount.percent', 'Percentage discount must be greater than 0 and at most 100', promo.discount.percent);
+    }
+    if (promo.discount.type === 'fixed' && CurrencyUtils.isZero(promo.discount.amount)) {
+      throw problem('discount.amount', 'Fixed discount must be greater than zero', promo.discount.amount.amount);
+    }
+    for (const field of ['startDate', 'endDate'] as const) {
+      const value = promo[field];
+      if (value !== undefined && (!DATE_PATTERN.test(value) || isNaN(Date.parse(value)))) {
+        throw problem(field, `${field} must be a date in YYYY-MM-DD format`, value);
+      }
+    }
+    if (promo.startDate !== undefined && promo.endDate !== undefined && promo.startDate > promo.endDate) {
+      throw problem('endDate', 'endDate cannot be before startDate', promo.endDate);
+    }
+    for (const field of ['maxUses', 'maxUsesPerCustomer'] as const) {
+      const value = promo[field];
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        throw problem(field, `${field} must be a positive integer`, value);
+      }
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import { PromoCode } from './PromoCode';
+
+export interface PromoCodeCatalog {
+  findByCode(code: string): Promise<PromoCode | undefined>;
+}
+
+export class InMemoryPromoCodeCatalog implements PromoCodeCatalog {
+  private promoCodes: Map<string, PromoCode>;
+
+  constructor(promoCodes: PromoCode[] = []) {
+    this.promoCodes = new Map(promoCodes.map(promo => [promo.code, promo]));
+  }
+
+  async findByCode(code: string): Promise<PromoCode | undefined> {
+    return this.promoCodes.get(code);
+  }
+}
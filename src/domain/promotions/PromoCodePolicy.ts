@@ -0,0 +1,47 @@
+import { Currency } from '../../utils/Currency';
+import { EmailValidator } from '../../utils/Email';
+import { ValidationError } from '../../errors/DomainError';
+import { PromotionProvider } from '../pricing/PricingEngine';
+import { Reservation } from '../reservations/Reservation';
+import { PromoCodeCatalog } from './PromoCodeCatalog';
+
+function rejected(promoCode: string, message: string): ValidationError {
+  return ValidationError.of({ field: 'promoCode', message, code: 'INVALID_PROMO_CODE', rejectedValue: promoCode });
+}
+
+export class PromoCodePolicy implements PromotionProvider {
+  constructor(private readonly catalog: PromoCodeCatalog) {}
+
+  async discountFor(reservation: Reservation, subtotal: Currency, existing: Reservation[]): Promise<Currency> {
+    const code = reservation.promoCode ?? '';
+    const promo = await this.catalog.findByCode(code);
+    if (!promo) {
+      throw rejected(code, `Promo code ${code} does not exist`);
+    }
+
+    const bookedOn = reservation.createdAt.toISOString().slice(0, 10);
+    if (!promo.isValidOn(bookedOn)) {
+      throw rejected(code, promo.endDate !== undefined && bookedOn > promo.endDate
+        ? `Promo code ${code} expired on ${promo.endDate}`
+        : `Promo code ${code} is not valid before ${promo.startDate}`);
+    }
+    if (!promo.appliesTo(reservation.activityId)) {
+      throw rejected(code, `Promo code ${code} does not apply to activity ${reservation.activityId}`);
+    }
+    if (!promo.accepts(subtotal.currency)) {
+      throw rejected(code, `Promo code ${code} cannot be used for payments in ${subtotal.currency}`);
+    }
+
+    const redemptions = existing.filter(r => r.id !== reservation.id && r.promoCode === code);
+    if (promo.maxUses !== undefined && redemptions.length >= promo.maxUses) {
+      throw rejected(code, `Promo code ${code} has reached its usage limit`);
+    }
+    const customer = EmailValidator.normalize(reservation.email);
+    const customerRedemptions = redemptions.filter(r => EmailValidator.comparable(r.email) === customer);
+    if (promo.maxUsesPerCustomer !== undefined && customerRedemptions.length >= promo.maxUsesPerCustomer) {
+      throw rejected(code, `Promo code ${code} has already been used the maximum number of times by this customer`);
+    }
+
+    return promo.discountOn(subtotal);
+  }
+}
@@ -1,12 +1,49 @@
 import { Reservation } from './Reservation';
+import { EmailValidator } from '../../utils/Email';
 
 export interface DuplicatePolicy {
   check(reservation: Reservation, existing: Reservation[]): Promise<boolean>;
+  findDuplicate?(reservation: Reservation, existing: Reservation[]): Promise<Reservation | undefined>;
+  lockKey?(reservation: Reservation): string;
+  readonly conflictingFields?: string[];
 }
 
-export class EmailDuplicatePolicy implements DuplicatePolicy {
+export type DuplicateKeyField = 'activityId' | 'email' | 'date' | 'time' | 'name' | 'phone';
+export type DuplicateKeyBuilder = (reservation: Reservation) => string;
+
+export function fieldsKeyBuilder(fields: DuplicateKeyField[]): DuplicateKeyBuilder {
+  return reservation => JSON.stringify(fields.map(field =>
+    field === 'email' ? EmailValidator.comparable(reservation.email) : reservation[field] ?? null
+  ));
+}
+
+export class CompositeDuplicatePolicy implements DuplicatePolicy {
+  private readonly keyBuilder: DuplicateKeyBuilder;
+
+  constructor(
+    public readonly conflictingFields: DuplicateKeyField[] = ['activityId', 'email', 'date'],
+    keyBuilder?: DuplicateKeyBuilder
+  ) {
+    this.keyBuilder = keyBuilder ?? fieldsKeyBuilder(conflictingFields);
+  }
+
   async check(reservation: Reservation, existing: Reservation[]): Promise<boolean> {
-    return existing.some(r => r.email === reservation.email);
+    return (await this.findDuplicate(reservation, existing)) !== undefined;
+  }
+
+  async findDuplicate(reservation: Reservation, existing: Reservation[]): Promise<Reservation | undefined> {
+    const key = this.keyBuilder(reservation);
+    return existing.find(r => this.keyBuilder(r) === key);
+  }
+
+  lockKey(reservation: Reservation): string {
+    return this.keyBuilder(reservation);
+  }
+}
+
+export class EmailDuplicatePolicy extends CompositeDuplicatePolicy {
+  constructor() {
+    super(['email']);
   }
 }
 
@@ -14,4 +51,8 @@ export class NoDuplicatePolicy implements DuplicatePolicy {
   async check(_reservation: Reservation, _existing: Reservation[]): Promise<boolean> {
     return false;
   }
+
+  lockKey(reservation: Reservation): string {
+    return reservation.id;
+  }
 }
@@ -0,0 +1,101 @@
+import { Reservation, ReservationData } from './Reservation';
+import { ReservationIdentifiers } from './ReservationIdentifiers';
+import { ReservationRepository } from './ReservationRepository';
+import { Email } from '../../utils/Email';
+import { Currency, CurrencyUtils } from '../../utils/Currency';
+import { AtomicFile } from '../../utils/AtomicFile';
+
+type StoredReservation = Omit<ReservationData, 'confirmationCode' | 'createdAt' | 'updatedAt'> & {
+  confirmationCode?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export class FileReservationRepository implements ReservationRepository {
+  private reservations?: Map<string, Reservation>;
+  private loading?: Promise<Map<string, Reservation>>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async save(reservation: Reservation): Promise<void> {
+    await this.update(reservations => {
+      reservations.set(reservation.id, reservation);
+      return true;
+    });
+  }
+
+  async findById(id: string): Promise<Reservation | undefined> {
+    return (await this.load()).get(id);
+  }
+
+  async findAll(): Promise<Reservation[]> {
+    return Array.from((await this.load()).values());
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.update(reservations => reservations.delete(id));
+  }
+
+  private async load(): Promise<Map<string, Reservation>> {
+    if (this.reservations) {
+      return this.reservations;
+    }
+    this.loading ??= this.readFile().then(
+      reservations => (this.reservations = reservations),
+      error => {
+        this.loading = undefined;
+        throw error;
+      }
+    );
+    return this.loading;
+  }
+
+  private async readFile(): Promise<Map<string, Reservation>> {
+    const reservations = new Map<string, Reservation>();
+    (await AtomicFile.readLines(this.filePath))
+      .map(line => this.deserialize(JSON.parse(line) as StoredReservation))
+      .forEach(reservation => reservations.set(reservation.id, reservation));
+    return reservations;
+  }
+
+  private update(change: (reservations: Map<string, Reservation>) => boolean): Promise<boolean> {
+    // Changes go to a copy that only replaces the loaded reservations once it is on disk
+    const updating = this.writing.then(async () => {
+      const reservations = new Map(await this.load());
+      if (!change(reservations)) {
+        return false;
+      }
+      const content = Array.from(reservations.values())
+        .map(reservation => JSON.stringify(reservation.toJSON()))
+        .join('\n');
+      await AtomicFile.write(this.filePath, content ? `${content}\n` : '');
+      this.reservations = reservations;
+      return true;
+    });
+
+    this.writing = updating.then(() => undefined, () => undefined);
+    return updating;
+  }
+
+  private deserialize(stored: StoredReservation): Reservation {
+    return new Reservation({
+      ...stored,
+      confirmationCode: stored.confirmationCode
+        ?? ReservationIdentifiers.legacyConfirmationCode(stored.id, stored.activityId, stored.date),
+      email: stored.email as Email,
+      amount: FileReservationRepository.currency(stored.amount),
+      priceBreakdown: stored.priceBreakdown?.map(item => ({
+        ...item,
+        unitPrice: FileReservationRepository.currency(item.unitPrice),
+        amount: FileReservationRepository.currency(item.amount)
+      })),
+      createdAt: new Date(stored.createdAt),
+      updatedAt: new Date(stored.updatedAt)
+    });
+  }
+
+  private static currency(stored: Currency): Currency {
+    return CurrencyUtils.create(stored.amount, stored.currency);
+  }
+}
@@ -1,40 +1,308 @@
 import { Email } from '../../utils/Email';
 import { Currency } from '../../utils/Currency';
+import { ValidationError } from '../../errors/DomainError';
+import { ValidationErrorCode, ValidationErrorItem } from '../../errors/ErrorResponse';
+import { InvalidStatusTransitionError, ReservationNotModifiableError } from './ReservationErrors';
+import { PriceLineItem, PriceQuote } from '../pricing/PricingEngine';
+import { ReservationIdentifiers } from './ReservationIdentifiers';
+
+export const LANGUAGES = ['es', 'en', 'fr', 'de', 'it', 'pt', 'ca'] as const;
+export type Language = typeof LANGUAGES[number];
+
+export const DIETARY_RESTRICTIONS = [
+  'vegetarian',
+  'vegan',
+  'gluten-free',
+  'dairy-free',
+  'nut-allergy',
+  'halal',
+  'kosher'
+] as const;
+export type DietaryRestriction = typeof DIETARY_RESTRICTIONS[number];
+
+export const RESERVATION_STATUSES = ['pending', 'confirmed', 'cancelled', 'completed', 'no-show'] as const;
+export type ReservationStatus = typeof RESERVATION_STATUSES[number];
+
+export const MODIFIABLE_STATUSES: readonly ReservationStatus[] = ['pending', 'confirmed'];
+
+const ALLOWED_TRANSITIONS: Record<ReservationStatus, ReservationStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['cancelled', 'completed', 'no-show'],
+  cancelled: [],
+  completed: [],
+  'no-show': []
+};
+
+export interface Child {
+  age: number;
+  name: string;
+}
 
 export interface ReservationData {
   id: string;
+  confirmationCode: string;
+  activityId: string;
   name: string;
   email: Email;
+  phone?: string;
+  date: string;
+  time?: string;
+  numberOfPeople: number;
   amount: Currency;
+  specialRequirements?: string;
+  language: Language;
+  children: Child[];
+  vipService: boolean;
+  dietaryRestrictions: DietaryRestriction[];
+  promoCode?: string;
+  priceBreakdown?: PriceLineItem[];
+  status: ReservationStatus;
   createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ReservationChanges = Partial<Pick<ReservationData,
+  'name' | 'phone' | 'date' | 'time' | 'numberOfPeople' | 'amount' | 'specialRequirements' |
+  'language' | 'children' | 'vipService' | 'dietaryRestrictions'>>;
+
+export type CreateReservationData =
+  Omit<ReservationData, 'id' | 'confirmationCode' | 'status' | 'createdAt' | 'updatedAt' | 'language' | 'children' | 'vipService' | 'dietaryRestrictions' | 'priceBreakdown'> &
+  Partial<Pick<ReservationData, 'language' | 'children' | 'vipService' | 'dietaryRestrictions'>>;
+
+const ACTIVITY_ID_PATTERN = /^act_[a-z0-9_]+$/;
+const PHONE_PATTERN = /^\+[1-9]\d{1,14}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const PROMO_CODE_PATTERN = /^[A-Z0-9]{4,20}$/;
+
+function invalid(
+  field: string,
+  message: string,
+  code: ValidationErrorCode,
+  extra: Pick<ValidationErrorItem, 'rejectedValue' | 'expectedFormat' | 'allowedRange'>
+): ValidationError {
+  return ValidationError.of({ field, message, code, ...extra });
+}
+
+function isCalendarDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
 }
 
 export class Reservation {
-  constructor(
-    public readonly id: string,
-    public readonly name: string,
-    public readonly email: Email,
-    public readonly amount: Currency,
-    public readonly createdAt: Date
-  ) {}
-
-  static create(data: Omit<ReservationData, 'id' | 'createdAt'>): Reservation {
-    return new Reservation(
-      crypto.randomUUID(),
-      data.name,
-      data.email,
-      data.amount,
-      new Date()
-    );
+  public readonly id: string;
+  public readonly confirmationCode: string;
+  public readonly activityId: string;
+  public readonly name: string;
+  public readonly email: Email;
+  public readonly phone?: string;
+  public readonly date: string;
+  public readonly time?: string;
+  public readonly numberOfPeople: number;
+  public readonly amount: Currency;
+  public readonly specialRequirements?: string;
+  public readonly language: Language;
+  public readonly children: Child[];
+  public readonly vipService: boolean;
+  public readonly dietaryRestrictions: DietaryRestriction[];
+  public readonly promoCode?: string;
+  public readonly priceBreakdown?: PriceLineItem[];
+  public readonly status: ReservationStatus;
+  public readonly createdAt: Date;
+  public readonly updatedAt: Date;
+
+  constructor(data: ReservationData) {
+    this.id = data.id;
+    this.confirmationCode = data.confirmationCode;
+    this.activityId = data.activityId;
+    this.name = data.name;
+    this.email = data.email;
+    this.phone = data.phone;
+    this.date = data.date;
+    this.time = data.time;
+    this.numberOfPeople = data.numberOfPeople;
+    this.amount = data.amount;
+    this.specialRequirements = data.specialRequirements;
+    this.language = data.language;
+    this.children = data.children;
+    this.vipService = data.vipService;
+    this.dietaryRestrictions = data.dietaryRestrictions;
+    this.promoCode = data.promoCode;
+    this.priceBreakdown = data.priceBreakdown;
+    this.status = data.status;
+    this.createdAt = data.createdAt;
+    this.updatedAt = data.updatedAt;
+  }
+
+  static create(data: CreateReservationData): Reservation {
+    const createdAt = new Date();
+    const reservation = new Reservation({
+      ...data,
+      id: ReservationIdentifiers.reservationId(),
+      confirmationCode: ReservationIdentifiers.confirmationCode(data.activityId, data.date),
+      language: data.language ?? 'en',
+      children: data.children ?? [],
+      vipService: data.vipService ?? false,
+      dietaryRestrictions: data.dietaryRestrictions ?? [],
+      status: 'pending',
+      createdAt,
+      updatedAt: createdAt
+    });
+
+    Reservation.assertValid(reservation);
+    return reservation;
+  }
+
+  canTransitionTo(status: ReservationStatus): boolean {
+    return ALLOWED_TRANSITIONS[this.status].includes(status);
+  }
+
+  confirm(at: Date = new Date()): Reservation {
+    return this.transitionTo('confirmed', at);
+  }
+
+  cancel(at: Date = new Date()): Reservation {
+    return this.transitionTo('cancelled', at);
+  }
+
+  complete(at: Date = new Date()): Reservation {
+    return this.transitionTo('completed', at);
+  }
+
+  markNoShow(at: Date = new Date()): Reservation {
+    return this.transitionTo('no-show', at);
+  }
+
+  canModify(): boolean {
+    return MODIFIABLE_STATUSES.includes(this.status);
+  }
+
+  modify(changes: ReservationChanges, at: Date = new Date()): Reservation {
+    if (!this.canModify()) {
+      throw new ReservationNotModifiableError(this.id, this.status);
+    }
+
+    const modified = new Reservation({ ...this.toJSON(), ...changes, updatedAt: at });
+    Reservation.assertValid(modified);
+    return modified;
+  }
+
+  withConfirmationCode(confirmationCode: string): Reservation {
+    return new Reservation({ ...this.toJSON(), confirmationCode });
+  }
+
+  withPrice(quote: PriceQuote): Reservation {
+    return new Reservation({ ...this.toJSON(), amount: quote.total, priceBreakdown: quote.lineItems });
+  }
+
+  private transitionTo(status: ReservationStatus, at: Date): Reservation {
+    if (!this.canTransitionTo(status)) {
+      throw new InvalidStatusTransitionError(this.id, this.status, status);
+    }
+    return new Reservation({ ...this.toJSON(), status, updatedAt: at });
+  }
+
+  private static assertValid(reservation: Reservation): void {
+    if (!ACTIVITY_ID_PATTERN.test(reservation.activityId)) {
+      throw invalid('activityId', `Invalid activity id: ${reservation.activityId}`, 'INVALID_FORMAT', {
+        rejectedValue: reservation.activityId,
+        expectedFormat: 'act_[a-z0-9_]+'
+      });
+    }
+    if (reservation.phone !== undefined && !PHONE_PATTERN.test(reservation.phone)) {
+      throw invalid('phone', `Invalid phone number, expected E.164 format: ${reservation.phone}`, 'INVALID_FORMAT', {
+        rejectedValue: reservation.phone,
+        expectedFormat: '+34612345678'
+      });
+    }
+    if (!isCalendarDate(reservation.date)) {
+      throw invalid('date', `Invalid date, expected YYYY-MM-DD: ${reservation.date}`, 'INVALID_FORMAT', {
+        rejectedValue: reservation.date,
+        expectedFormat: 'YYYY-MM-DD'
+      });
+    }
+    if (reservation.time !== undefined && !TIME_PATTERN.test(reservation.time)) {
+      throw invalid('time', `Invalid time, expected HH:mm: ${reservation.time}`, 'INVALID_FORMAT', {
+        rejectedValue: reservation.time,
+        expectedFormat: 'HH:mm'
+      });
+    }
+    if (!Number.isInteger(reservation.numberOfPeople) || reservation.numberOfPeople < 1 || reservation.numberOfPeople > 50) {
+      throw invalid('numberOfPeople', 'Number of people must be between 1 and 50', 'OUT_OF_RANGE', {
+        rejectedValue: reservation.numberOfPeople,
+        allowedRange: { min: 1, max: 50 }
+      });
+    }
+    if (!LANGUAGES.includes(reservation.language)) {
+      throw invalid('language', `Unsupported language: ${reservation.language}`, 'INVALID_VALUE', {
+        rejectedValue: reservation.language
+      });
+    }
+    if (reservation.children.length > 20) {
+      throw invalid('children', 'A reservation cannot include more than 20 children', 'OUT_OF_RANGE', {
+        rejectedValue: reservation.children.length,
+        allowedRange: { max: 20 }
+      });
+    }
+    if (reservation.children.length >= reservation.numberOfPeople) {
+      throw invalid('numberOfPeople', 'A reservation must include at least one adult', 'INVALID_VALUE', {
+        rejectedValue: reservation.numberOfPeople
+      });
+    }
+    reservation.children.forEach((child, index) => {
+      if (!Number.isInteger(child.age) || child.age < 0 || child.age > 17) {
+        throw invalid(`children[${index}].age`, 'Child age must be between 0 and 17', 'OUT_OF_RANGE', {
+          rejectedValue: child.age,
+          allowedRange: { min: 0, max: 17 }
+        });
+      }
+      if (child.name.length < 2 || child.name.length > 100) {
+        throw invalid(`children[${index}].name`, 'Child name must be between 2 and 100 characters', 'OUT_OF_RANGE', {
+          rejectedValue: child.name,
+          allowedRange: { min: 2, max: 100 }
+        });
+      }
+    });
+    const unsupported = reservation.dietaryRestrictions.find(r => !DIETARY_RESTRICTIONS.includes(r));
+    if (unsupported !== undefined) {
+      throw invalid('dietaryRestrictions', 'Unsupported dietary restriction', 'INVALID_VALUE', {
+        rejectedValue: unsupported
+      });
+    }
+    if (reservation.promoCode !== undefined && !PROMO_CODE_PATTERN.test(reservation.promoCode)) {
+      throw invalid('promoCode', `Invalid promo code: ${reservation.promoCode}`, 'INVALID_FORMAT', {
+        rejectedValue: reservation.promoCode,
+        expectedFormat: '[A-Z0-9]{4,20}'
+      });
+    }
   }
 
   toJSON(): ReservationData {
     return {
       id: this.id,
+      confirmationCode: this.confirmationCode,
+      activityId: this.activityId,
       name: this.name,
       email: this.email,
+      phone: this.phone,
+      date: this.date,
+      time: this.time,
+      numberOfPeople: this.numberOfPeople,
       amount: this.amount,
-      createdAt: this.createdAt
+      specialRequirements: this.specialRequirements,
+      language: this.language,
+      children: this.children,
+      vipService: this.vipService,
+      dietaryRestrictions: this.dietaryRestrictions,
+      promoCode: this.promoCode,
+      priceBreakdown: this.priceBreakdown,
+      status: this.status,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt
     };
   }
 }
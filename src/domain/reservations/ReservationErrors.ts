@@ -0,0 +1,74 @@
+import type { Reservation, ReservationStatus } from './Reservation';
+import { ConflictError, NotFoundError } from '../../errors/DomainError';
+
+export class DuplicateReservationError extends ConflictError {
+  readonly code = 'DUPLICATE_RESERVATION';
+
+  constructor(
+    public readonly existingReservation?: Reservation,
+    public readonly conflictingFields: string[] = []
+  ) {
+    super(
+      DuplicateReservationError.describe(conflictingFields),
+      existingReservation && {
+        conflictingFields,
+        existingReservationId: existingReservation.id,
+        existingReservationDate: existingReservation.date,
+        suggestedAction: 'Use the existing reservation or choose a different date'
+      }
+    );
+  }
+
+  private static describe(fields: string[]): string {
+    if (fields.join(',') === 'activityId,email,date') {
+      return 'Duplicate reservation detected. A reservation with the same email already exists for this activity on the specified date';
+    }
+    if (fields.length > 0) {
+      return `Duplicate reservation detected. A reservation with the same ${fields.join(', ')} already exists`;
+    }
+    return 'Duplicate reservation detected';
+  }
+}
+
+export class ReservationNotFoundError extends NotFoundError {
+  readonly code = 'RESERVATION_NOT_FOUND';
+
+  constructor(public readonly reservationId: string) {
+    super('Reservation', reservationId);
+  }
+}
+
+export class InvalidStatusTransitionError extends ConflictError {
+  readonly code = 'INVALID_STATUS_TRANSITION';
+
+  constructor(
+    public readonly reservationId: string,
+    public readonly from: ReservationStatus,
+    public readonly to: ReservationStatus
+  ) {
+    super(`Cannot change reservation ${reservationId} from ${from} to ${to}`, {
+      reservationId,
+      currentStatus: from,
+      requestedStatus: to
+    });
+  }
+}
+
+export class ReservationNotModifiableError extends ConflictError {
+  readonly code = 'RESERVATION_NOT_MODIFIABLE';
+
+  constructor(public readonly reservationId: string, public readonly currentStatus: ReservationStatus) {
+    super(`Reservation ${reservationId} cannot be modified once ${currentStatus}`, {
+      reservationId,
+      currentStatus
+    });
+  }
+}
+
+export class ConfirmationCodesExhaustedError extends ConflictError {
+  readonly code = 'CONFIRMATION_CODES_EXHAUSTED';
+
+  constructor(public readonly prefix: string) {
+    super(`No confirmation codes left for ${prefix}`, { prefix });
+  }
+}
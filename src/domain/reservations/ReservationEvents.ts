@@ -0,0 +1,80 @@
+import { DomainEvent } from '../events/DomainEvent';
+import { Reservation, ReservationChanges, ReservationData, ReservationStatus } from './Reservation';
+
+export type ReservationSnapshot = Omit<ReservationData, 'createdAt' | 'updatedAt'> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+interface EventEnvelope<T extends string, P> extends DomainEvent {
+  type: T;
+  payload: P;
+}
+
+export type ReservationCreated = EventEnvelope<'reservation.created', { reservation: ReservationSnapshot }>;
+export type ReservationUpdated = EventEnvelope<'reservation.updated', {
+  reservation: ReservationSnapshot;
+  changedFields: (keyof ReservationChanges)[];
+}>;
+export type ReservationStatusChanged<T extends string> = EventEnvelope<T, {
+  reservation: ReservationSnapshot;
+  previousStatus: ReservationStatus;
+}>;
+export type ReservationConfirmed = ReservationStatusChanged<'reservation.confirmed'>;
+export type ReservationCancelled = ReservationStatusChanged<'reservation.cancelled'>;
+export type ReservationCompleted = ReservationStatusChanged<'reservation.completed'>;
+export type ReservationMarkedNoShow = ReservationStatusChanged<'reservation.no_show'>;
+export type ReservationDeleted = EventEnvelope<'reservation.deleted', Record<string, never>>;
+
+export type ReservationEvent =
+  | ReservationCreated
+  | ReservationUpdated
+  | ReservationConfirmed
+  | ReservationCancelled
+  | ReservationCompleted
+  | ReservationMarkedNoShow
+  | ReservationDeleted;
+
+export type ReservationEventType = ReservationEvent['type'];
+
+const STATUS_EVENTS = {
+  confirmed: 'reservation.confirmed',
+  cancelled: 'reservation.cancelled',
+  completed: 'reservation.completed',
+  'no-show': 'reservation.no_show'
+} as const;
+
+export class ReservationEvents {
+  static created(reservation: Reservation): ReservationCreated {
+    return this.envelope('reservation.created', reservation.id, { reservation: this.snapshot(reservation) });
+  }
+
+  static updated(reservation: Reservation, changes: ReservationChanges): ReservationUpdated {
+    const changedFields = (Object.keys(changes) as (keyof ReservationChanges)[]).filter(field => changes[field] !== undefined);
+    return this.envelope('reservation.updated', reservation.id, { reservation: this.snapshot(reservation), changedFields });
+  }
+
+  static statusChanged(
+    reservation: Reservation,
+    previousStatus: ReservationStatus
+  ): ReservationConfirmed | ReservationCancelled | ReservationCompleted | ReservationMarkedNoShow {
+    const status = reservation.status as Exclude<ReservationStatus, 'pending'>;
+    return this.envelope(STATUS_EVENTS[status], reservation.id, {
+      reservation: this.snapshot(reservation),
+      previousStatus
+    });
+  }
+
+  static deleted(reservationId: string): ReservationDeleted {
+    return this.envelope('reservation.deleted', reservationId, {});
+  }
+
+  static snapshot(reservation: Reservation): ReservationSnapshot {
+    const data = reservation.toJSON();
+    return { ...data, createdAt: data.createdAt.toISOString(), updatedAt: data.updatedAt.toISOString() };
+  }
+
+  private static envelope<T extends ReservationEventType, P>(type: T, aggregateId: string, payload: P): EventEnvelope<T, P> {
+    return { id: crypto.randomUUID(), type, aggregateId, occurredAt: new Date().toISOString(), payload };
+  }
+}
@@ -0,0 +1,35 @@
+import { randomBytes, randomInt } from 'crypto';
+import { ConfirmationCodesExhaustedError } from './ReservationErrors';
+
+export const RESERVATION_ID_PATTERN = /^res_[a-z0-9]+$/;
+export const CONFIRMATION_CODE_PATTERN = /^CONF-\d{4}-[A-Z]{2}-\d{4}$/;
+
+const CONFIRMATION_NUMBERS = 10000;
+
+export class ReservationIdentifiers {
+  static reservationId(): string {
+    return `res_${randomBytes(8).readBigUInt64BE().toString(36).padStart(13, '0')}`;
+  }
+
+  static confirmationPrefix(activityId: string, date: string): string {
+    const region = activityId.replace(/^act_/, '').replace(/[^a-z]/g, '').slice(0, 2).toUpperCase().padEnd(2, 'X');
+    return `CONF-${date.slice(0, 4)}-${region}`;
+  }
+
+  static confirmationCode(activityId: string, date: string, taken: ReadonlySet<string> = new Set()): string {
+    const prefix = this.confirmationPrefix(activityId, date);
+    const start = randomInt(CONFIRMATION_NUMBERS);
+    for (let offset = 0; offset < CONFIRMATION_NUMBERS; offset++) {
+      const code = `${prefix}-${String((start + offset) % CONFIRMATION_NUMBERS).padStart(4, '0')}`;
+      if (!taken.has(code)) {
+        return code;
+      }
+    }
+    throw new ConfirmationCodesExhaustedError(prefix);
+  }
+
+  static legacyConfirmationCode(id: string, activityId: string, date: string): string {
+    const digits = id.replace(/\D/g, '').padEnd(4, '0').slice(0, 4);
+    return `${this.confirmationPrefix(activityId, date)}-${digits}`;
+  }
+}
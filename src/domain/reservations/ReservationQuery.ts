@@ -0,0 +1,164 @@
+import { ValidationError } from '../../errors/DomainError';
+import { EmailValidator } from '../../utils/Email';
+import { Reservation, ReservationStatus } from './Reservation';
+
+export const SORT_FIELDS = ['createdAt', 'date', 'amount'] as const;
+export type SortField = typeof SORT_FIELDS[number];
+
+export const SORT_ORDERS = ['asc', 'desc'] as const;
+export type SortOrder = typeof SORT_ORDERS[number];
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface ReservationFilters {
+  email?: string;
+  activityId?: string;
+  date?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  status?: ReservationStatus;
+  currency?: string;
+  minAmount?: number;
+  maxAmount?: number;
+}
+
+export interface ReservationQuery extends ReservationFilters {
+  sortBy?: SortField;
+  sortOrder?: SortOrder;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface ReservationPage {
+  items: Reservation[];
+  limit: number;
+  nextCursor?: string;
+}
+
+type SortKey = string | number;
+
+interface CursorPosition {
+  sortBy: SortField;
+  sortOrder: SortOrder;
+  key: SortKey;
+  id: string;
+}
+
+export class ReservationSearch {
+  static filter(reservations: Reservation[], filters: ReservationFilters): Reservation[] {
+    if ((filters.minAmount !== undefined || filters.maxAmount !== undefined) && filters.currency === undefined) {
+      throw this.currencyRequired('filtering');
+    }
+    const email = filters.email !== undefined ? EmailValidator.normalize(filters.email) : undefined;
+    return reservations.filter(r =>
+      (email === undefined || EmailValidator.comparable(r.email) === email) &&
+      (filters.activityId === undefined || r.activityId === filters.activityId) &&
+      (filters.date === undefined || r.date === filters.date) &&
+      (filters.dateFrom === undefined || r.date >= filters.dateFrom) &&
+      (filters.dateTo === undefined || r.date <= filters.dateTo) &&
+      (filters.status === undefined || r.status === filters.status) &&
+      (filters.currency === undefined || r.amount.currency === filters.currency) &&
+      (filters.minAmount === undefined || r.amount.amount >= filters.minAmount) &&
+      (filters.maxAmount === undefined || r.amount.amount <= filters.maxAmount)
+    );
+  }
+
+  static page(reservations: Reservation[], query: ReservationQuery): ReservationPage {
+    const sortBy = query.sortBy ?? 'createdAt';
+    const sortOrder = query.sortOrder ?? 'asc';
+    if (sortBy === 'amount' && query.currency === undefined) {
+      throw this.currencyRequired('sorting');
+    }
+    const limit = this.assertValidLimit(query.limit ?? DEFAULT_PAGE_SIZE);
+    const compare = this.comparator(sortOrder);
+
+    let ordered = this.filter(reservations, query).sort((a, b) => compare(this.positionOf(a, sortBy), this.positionOf(b, sortBy)));
+    if (query.cursor !== undefined) {
+      const after = this.decodeCursor(query.cursor, sortBy, sortOrder);
+      ordered = ordered.filter(r => compare(this.positionOf(r, sortBy), after) > 0);
+    }
+
+    const items = ordered.slice(0, limit);
+    if (ordered.length <= limit) {
+      return { items, limit };
+    }
+    const last = items[items.length - 1];
+    return { items, limit, nextCursor: this.encodeCursor({ sortBy, sortOrder, key: this.keyOf(last, sortBy), id: last.id }) };
+  }
+
+  private static keyOf(reservation: Reservation, sortBy: SortField): SortKey {
+    switch (sortBy) {
+      case 'createdAt':
+        return reservation.createdAt.toISOString();
+      case 'date':
+        return `${reservation.date}T${reservation.time ?? '00:00'}`;
+      case 'amount':
+        return reservation.amount.amount;
+    }
+  }
+
+  private static positionOf(reservation: Reservation, sortBy: SortField): Pick<CursorPosition, 'key' | 'id'> {
+    return { key: this.keyOf(reservation, sortBy), id: reservation.id };
+  }
+
+  private static comparator(sortOrder: SortOrder) {
+    const direction = sortOrder === 'asc' ? 1 : -1;
+    return (a: Pick<CursorPosition, 'key' | 'id'>, b: Pick<CursorPosition, 'key' | 'id'>): number => {
+      if (a.key !== b.key) {
+        return (a.key < b.key ? -1 : 1) * direction;
+      }
+      return a.id === b.id ? 0 : (a.id < b.id ? -1 : 1) * direction;
+    };
+  }
+
+  private static currencyRequired(operation: 'filtering' | 'sorting'): ValidationError {
+    // Amounts in different currencies cannot be ordered without converting them
+    return ValidationError.of({
+      field: 'currency',
+      message: `Currency is required when ${operation} by amount`,
+      code: 'FIELD_REQUIRED'
+    });
+  }
+
+  private static assertValidLimit(limit: number): number {
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw ValidationError.of({
+        field: 'limit',
+        message: `Limit must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+        code: 'OUT_OF_RANGE',
+        rejectedValue: limit,
+        allowedRange: { min: 1, max: MAX_PAGE_SIZE }
+      });
+    }
+    return limit;
+  }
+
+  private static encodeCursor(position: CursorPosition): string {
+    return Buffer.from(JSON.stringify([position.sortBy, position.sortOrder, position.key, position.id])).toString('base64url');
+  }
+
+  private static decodeCursor(cursor: string, sortBy: SortField, sortOrder: SortOrder): CursorPosition {
+    let decoded: unknown;
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    } catch {
+      decoded = undefined;
+    }
+
+    if (!Array.isArray(decoded) || decoded.length !== 4 ||
+      !['string', 'number'].includes(typeof decoded[2]) || typeof decoded[3] !== 'string') {
+      throw ValidationError.of({ field: 'cursor', message: 'Cursor is malformed', code: 'INVALID_FORMAT', rejectedValue: cursor });
+    }
+    if (decoded[0] !== sortBy || decoded[1] !== sortOrder) {
+      throw ValidationError.of({
+        field: 'cursor',
+        message: 'Cursor was issued for a different sort order',
+        code: 'INVALID_VALUE',
+        rejectedValue: cursor
+      });
+    }
+
+    return { sortBy, sortOrder, key: decoded[2], id: decoded[3] };
+  }
+}
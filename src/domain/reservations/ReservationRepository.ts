@@ -0,0 +1,28 @@
+import { Reservation } from './Reservation';
+
+export interface ReservationRepository {
+  save(reservation: Reservation): Promise<void>;
+  findById(id: string): Promise<Reservation | undefined>;
+  findAll(): Promise<Reservation[]>;
+  delete(id: string): Promise<boolean>;
+}
+
+export class InMemoryReservationRepository implements ReservationRepository {
+  private reservations: Map<string, Reservation> = new Map();
+
+  async save(reservation: Reservation): Promise<void> {
+    this.reservations.set(reservation.id, reservation);
+  }
+
+  async findById(id: string): Promise<Reservation | undefined> {
+    return this.reservations.get(id);
+  }
+
+  async findAll(): Promise<Reservation[]> {
+    return Array.from(this.reservations.values());
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.reservations.delete(id);
+  }
+}
@@ -1,37 +1,321 @@
-import { Reservation } from './Reservation';
+import { Reservation, ReservationChanges } from './Reservation';
 import { DuplicatePolicy } from './DuplicatePolicy';
+import { ReservationIdentifiers } from './ReservationIdentifiers';
+import { ReservationEvent, ReservationEvents } from './ReservationEvents';
+import { DuplicateReservationError, ReservationNotFoundError } from './ReservationErrors';
+import { ReservationFilters, ReservationPage, ReservationQuery, ReservationSearch } from './ReservationQuery';
+import { InMemoryReservationRepository, ReservationRepository } from './ReservationRepository';
 import { Email } from '../../utils/Email';
+import { KeyedLock } from '../../utils/KeyedLock';
+import { ValidationError } from '../../errors/DomainError';
+import { Activity } from '../activities/Activity';
+import { ActivityCatalog } from '../activities/ActivityCatalog';
+import { SlotCapacityExceededError } from '../activities/ActivityErrors';
+import { PricingEngine } from '../pricing/PricingEngine';
+import { Currency } from '../../utils/Currency';
+import { Outbox } from '../events/Outbox';
+
+export interface ReservationServiceOptions {
+  repository?: ReservationRepository;
+  catalog?: ActivityCatalog;
+  pricing?: PricingEngine;
+  outbox?: Outbox<ReservationEvent>;
+  now?: () => Date;
+}
+
+const SLOT_FIELDS: (keyof ReservationChanges)[] = ['date', 'time', 'numberOfPeople'];
+const PRICE_FIELDS: (keyof ReservationChanges)[] = ['numberOfPeople', 'children', 'vipService', 'amount'];
 
 export class ReservationService {
-  private reservations: Map<string, Reservation> = new Map();
+  private readonly repository: ReservationRepository;
+  private readonly catalog?: ActivityCatalog;
+  private readonly pricing?: PricingEngine;
+  private readonly outbox?: Outbox<ReservationEvent>;
+  private readonly now: () => Date;
+  private readonly locks = new KeyedLock();
 
-  constructor(private duplicatePolicy: DuplicatePolicy) {}
+  constructor(private duplicatePolicy: DuplicatePolicy, options: ReservationServiceOptions = {}) {
+    this.repository = options.repository ?? new InMemoryReservationRepository();
+    this.catalog = options.catalog;
+    this.pricing = options.pricing;
+    this.outbox = options.outbox;
+    this.now = options.now ?? (() => new Date());
+  }
 
-  async createReservation(reservation: Reservation): Promise<Reservation> {
-    const isDuplicate = await this.duplicatePolicy.check(reservation, Array.from(this.reservations.values()));
+  async createReservation(reservation: Reservation, options: { confirm?: boolean } = {}): Promise<Reservation> {
+    const prefix = ReservationIdentifiers.confirmationPrefix(reservation.activityId, reservation.date);
+    return this.locks.run([...this.lockKeys(reservation), `confirmation:${prefix}`], async () => {
+      const active = await this.activeReservations();
+      await this.assertNotDuplicate(reservation, active);
+      const activity = await this.assertBookable(reservation, active);
+      const coded = await this.withUniqueConfirmationCode(reservation);
+      const priced = await this.price(coded, activity, active, reservation.amount);
+      if (!options.confirm) {
+        await this.record([ReservationEvents.created(priced)], () => this.repository.save(priced));
+        return priced;
+      }
 
-    if (isDuplicate) {
-      throw new Error('Duplicate reservation detected');
-    }
+      const confirmed = priced.confirm();
+      await this.record(
+        [ReservationEvents.created(priced), ReservationEvents.statusChanged(confirmed, priced.status)],
+        () => this.repository.save(confirmed)
+      );
+      return confirmed;
+    });
+  }
 
-    this.reservations.set(reservation.id, reservation);
-    return reservation;
+  // Settles events a crash left staged: they are delivered if their change reached the repository and dropped if not
+  async recoverOutbox(): Promise<void> {
+    if (!this.outbox) {
+      return;
+    }
+    const committed: string[] = [];
+    const dropped: string[] = [];
+    for (const { event } of await this.outbox.staged()) {
+      (await this.isStored(event) ? committed : dropped).push(event.id);
+    }
+    await this.outbox.commit(committed);
+    await this.outbox.discard(dropped);
   }
 
   async getReservation(id: string): Promise<Reservation | undefined> {
-    return this.reservations.get(id);
+    return this.repository.findById(id);
   }
 
   async getAllReservations(): Promise<Reservation[]> {
-    return Array.from(this.reservations.values());
+    return this.repository.findAll();
+  }
+
+  async searchReservations(filters: ReservationFilters = {}): Promise<Reservation[]> {
+    return ReservationSearch.filter(await this.repository.findAll(), filters);
+  }
+
+  async listReservations(query: ReservationQuery = {}): Promise<ReservationPage> {
+    return ReservationSearch.page(await this.repository.findAll(), query);
+  }
+
+  async updateReservation(id: string, changes: ReservationChanges): Promise<Reservation> {
+    const keys = this.lockKeys((await this.findExisting(id)).modify(changes));
+    const result = await this.locks.run(keys, async () => {
+      const updated = (await this.findExisting(id)).modify(changes);
+      if (this.lockKeys(updated).some(key => !keys.includes(key))) {
+        return undefined;
+      }
+
+      const others = (await this.activeReservations()).filter(r => r.id !== id);
+      await this.assertNotDuplicate(updated, others);
+      const activity = SLOT_FIELDS.some(field => changes[field] !== undefined)
+        ? await this.assertBookable(updated, others)
+        : await this.findActivity(updated.activityId);
+      const priced = PRICE_FIELDS.some(field => changes[field] !== undefined)
+        ? await this.price(updated, activity, others, changes.amount)
+        : updated;
+
+      await this.record([ReservationEvents.updated(priced, changes)], () => this.repository.save(priced));
+      return priced;
+    });
+
+    // Another update moved the reservation while we waited; retry under its new keys
+    return result ?? this.updateReservation(id, changes);
   }
 
   async deleteReservation(id: string): Promise<boolean> {
-    return this.reservations.delete(id);
+    return this.locks.run([`reservation:${id}`], async () => {
+      if (!(await this.repository.findById(id))) {
+        return false;
+      }
+      return this.record([ReservationEvents.deleted(id)], () => this.repository.delete(id));
+    });
+  }
+
+  async confirmReservation(id: string): Promise<Reservation> {
+    return this.transition(id, reservation => reservation.confirm());
+  }
+
+  async cancelReservation(id: string): Promise<Reservation> {
+    return this.transition(id, reservation => reservation.cancel());
+  }
+
+  async completeReservation(id: string): Promise<Reservation> {
+    return this.transition(id, reservation => reservation.complete());
+  }
+
+  async markNoShow(id: string): Promise<Reservation> {
+    return this.transition(id, reservation => reservation.markNoShow());
   }
 
   async findByEmail(email: Email): Promise<Reservation[]> {
-    return Array.from(this.reservations.values())
-      .filter(r => r.email === email);
+    return this.searchReservations({ email });
+  }
+
+  async findActivity(activityId: string): Promise<Activity | undefined> {
+    return this.catalog?.findById(activityId);
+  }
+
+  async remainingCapacity(activityId: string, date: string, time: string): Promise<number | undefined> {
+    const slot = (await this.findActivity(activityId))?.slotAt(date, time);
+    if (!slot) {
+      return undefined;
+    }
+    return Math.max(slot.capacity - this.bookedPeople(await this.activeReservations(), activityId, date, time), 0);
+  }
+
+  private lockKeys(reservation: Reservation): string[] {
+    const { id, activityId, date, time } = reservation;
+    return [
+      `reservation:${id}`,
+      `duplicate:${this.duplicatePolicy.lockKey?.(reservation) ?? '*'}`,
+      `slot:${JSON.stringify([activityId, date, time ?? null])}`,
+      ...(reservation.promoCode !== undefined ? [`promo:${reservation.promoCode}`] : [])
+    ];
+  }
+
+  private async findExisting(id: string): Promise<Reservation> {
+    const reservation = await this.repository.findById(id);
+    if (!reservation) {
+      throw new ReservationNotFoundError(id);
+    }
+    return reservation;
+  }
+
+  private async withUniqueConfirmationCode(reservation: Reservation): Promise<Reservation> {
+    // Cancelled reservations keep their codes so an old confirmation can never point at a new booking
+    const taken = new Set((await this.repository.findAll()).map(r => r.confirmationCode));
+    if (!taken.has(reservation.confirmationCode)) {
+      return reservation;
+    }
+    return reservation.withConfirmationCode(
+      ReservationIdentifiers.confirmationCode(reservation.activityId, reservation.date, taken)
+    );
+  }
+
+  private async record<T>(events: ReservationEvent[], write: () => Promise<T>): Promise<T> {
+    // Events are staged before the write and only become deliverable once it has succeeded
+    const eventIds = events.map(event => event.id);
+    await this.outbox?.append(events);
+    let result: T;
+    try {
+      result = await write();
+    } catch (error) {
+      await this.outbox?.discard(eventIds);
+      throw error;
+    }
+    await this.outbox?.commit(eventIds);
+    return result;
+  }
+
+  private async isStored(event: ReservationEvent): Promise<boolean> {
+    const stored = await this.repository.findById(event.aggregateId);
+    if (event.type === 'reservation.deleted') {
+      return stored === undefined;
+    }
+    return stored !== undefined && stored.updatedAt.getTime() >= Date.parse(event.payload.reservation.updatedAt);
+  }
+
+  private async activeReservations(): Promise<Reservation[]> {
+    return (await this.repository.findAll()).filter(r => r.status !== 'cancelled');
+  }
+
+  private async assertNotDuplicate(reservation: Reservation, existing: Reservation[]): Promise<void> {
+    if (this.duplicatePolicy.findDuplicate) {
+      const conflict = await this.duplicatePolicy.findDuplicate(reservation, existing);
+      if (conflict) {
+        throw new DuplicateReservationError(conflict, this.duplicatePolicy.conflictingFields);
+      }
+      return;
+    }
+
+    if (await this.duplicatePolicy.check(reservation, existing)) {
+      throw new DuplicateReservationError();
+    }
+  }
+
+  private async assertBookable(reservation: Reservation, existing: Reservation[]): Promise<Activity | undefined> {
+    if (!this.catalog) {
+      return undefined;
+    }
+
+    const { activityId, date, time } = reservation;
+    if (date < this.now().toISOString().slice(0, 10)) {
+      throw ValidationError.of({
+        field: 'date',
+        message: 'Reservation date cannot be in the past',
+        code: 'PAST_DATE_NOT_ALLOWED',
+        rejectedValue: date
+      });
+    }
+    const activity = await this.catalog.findById(activityId);
+    if (!activity) {
+      throw ValidationError.of({
+        field: 'activityId',
+        message: 'Activity does not exist or is no longer available',
+        code: 'RESOURCE_NOT_FOUND',
+        rejectedValue: activityId
+      });
+    }
+    if (!activity.runsOn(date)) {
+      throw ValidationError.of({
+        field: 'date',
+        message: `Activity ${activityId} does not run on ${date}`,
+        code: 'INVALID_VALUE',
+        rejectedValue: date
+      });
+    }
+
+    const times = activity.schedule.slots.map(slot => slot.time).join(', ');
+    if (time === undefined) {
+      throw ValidationError.of({
+        field: 'time',
+        message: `Time is required to book ${activityId}; available times: ${times}`,
+        code: 'FIELD_REQUIRED'
+      });
+    }
+    const slot = activity.slotAt(date, time);
+    if (!slot) {
+      throw ValidationError.of({
+        field: 'time',
+        message: `Activity ${activityId} has no slot at ${time}; available times: ${times}`,
+        code: 'INVALID_VALUE',
+        rejectedValue: time
+      });
+    }
+
+    const remaining = slot.capacity - this.bookedPeople(existing, activityId, date, time);
+    if (remaining < reservation.numberOfPeople) {
+      throw new SlotCapacityExceededError(activityId, date, time, reservation.numberOfPeople, Math.max(remaining, 0));
+    }
+    return activity;
+  }
+
+  private async price(
+    reservation: Reservation,
+    activity: Activity | undefined,
+    existing: Reservation[],
+    submitted?: Currency
+  ): Promise<Reservation> {
+    if (!this.pricing || !activity) {
+      return reservation;
+    }
+
+    const quote = await this.pricing.quote(reservation, activity, existing);
+    if (submitted !== undefined) {
+      PricingEngine.assertTotal(quote, submitted);
+    }
+    return reservation.withPrice(quote);
+  }
+
+  private bookedPeople(reservations: Reservation[], activityId: string, date: string, time: string): number {
+    return reservations
+      .filter(r => r.activityId === activityId && r.date === date && r.time === time)
+      .reduce((total, r) => total + r.numberOfPeople, 0);
+  }
+
+  private async transition(id: string, change: (reservation: Reservation) => Reservation): Promise<Reservation> {
+    return this.locks.run([`reservation:${id}`], async () => {
+      const existing = await this.findExisting(id);
+      const updated = change(existing);
+      await this.record([ReservationEvents.statusChanged(updated, existing.status)], () => this.repository.save(updated));
+      return updated;
+    });
   }
 }
@@ -0,0 +1,33 @@
+import { ValidationErrorItem } from './ErrorResponse';
+
+export abstract class DomainError extends Error {
+  abstract readonly code: string;
+  readonly status?: number;
+
+  constructor(message: string, public readonly details?: Record<string, unknown>) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class ValidationError extends DomainError {
+  readonly code = 'VALIDATION_ERROR';
+
+  constructor(public readonly validationErrors: ValidationErrorItem[]) {
+    super(validationErrors.length === 1 ? validationErrors[0].message : 'Request validation failed');
+  }
+
+  static of(item: ValidationErrorItem): ValidationError {
+    return new ValidationError([item]);
+  }
+}
+
+export class NotFoundError extends DomainError {
+  readonly code: string = 'RESOURCE_NOT_FOUND';
+
+  constructor(public readonly resource: string, public readonly resourceId: string) {
+    super(`${resource} not found: ${resourceId}`, { resource, resourceId });
+  }
+}
+
+export abstract class ConflictError extends DomainError {}
@@ -0,0 +1,34 @@
+export interface ErrorBody {
+  code: string;
+  message: string;
+  timestamp: string;
+  requestId: string;
+  path: string;
+  details?: Record<string, unknown>;
+}
+
+export interface ErrorResponse {
+  error: ErrorBody;
+}
+
+export type ValidationErrorCode =
+  | 'FIELD_REQUIRED'
+  | 'INVALID_FORMAT'
+  | 'INVALID_VALUE'
+  | 'OUT_OF_RANGE'
+  | 'RESOURCE_NOT_FOUND'
+  | 'PAST_DATE_NOT_ALLOWED'
+  | 'INVALID_PROMO_CODE';
+
+export interface ValidationErrorItem {
+  field: string;
+  message: string;
+  code: ValidationErrorCode;
+  rejectedValue?: unknown;
+  expectedFormat?: string;
+  allowedRange?: { min?: number; max?: number };
+}
+
+export interface ValidationErrorResponse {
+  error: ErrorBody & { validationErrors: ValidationErrorItem[] };
+}
@@ -0,0 +1,64 @@
+import { ConflictError, DomainError, NotFoundError, ValidationError } from './DomainError';
+import { ErrorResponse, ValidationErrorResponse } from './ErrorResponse';
+
+export interface ErrorContext {
+  requestId: string;
+  path: string;
+  timestamp?: Date;
+}
+
+export class ErrorSerializer {
+  static statusFor(error: unknown): number {
+    if (!(error instanceof DomainError)) {
+      return 500;
+    }
+    if (error.status !== undefined) {
+      return error.status;
+    }
+    if (error instanceof NotFoundError) {
+      return 404;
+    }
+    if (error instanceof ConflictError) {
+      return 409;
+    }
+    return 422;
+  }
+
+  static toResponse(error: unknown, context: ErrorContext): ErrorResponse | ValidationErrorResponse {
+    const base = {
+      timestamp: (context.timestamp ?? new Date()).toISOString(),
+      requestId: context.requestId,
+      path: context.path
+    };
+
+    if (error instanceof ValidationError) {
+      return {
+        error: {
+          code: error.code,
+          message: 'Request validation failed',
+          ...base,
+          validationErrors: error.validationErrors
+        }
+      };
+    }
+
+    if (error instanceof DomainError) {
+      return {
+        error: {
+          code: error.code,
+          message: error.message,
+          ...base,
+          ...(error.details ? { details: error.details } : {})
+        }
+      };
+    }
+
+    return {
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        ...base
+      }
+    };
+  }
+}
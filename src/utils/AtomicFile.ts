@@ -0,0 +1,42 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+
+export class AtomicFile {
+  static async write(filePath: string, content: string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+    await fs.mkdir(dirname(filePath), { recursive: true });
+
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    try {
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  static async appendLine(filePath: string, line: string): Promise<void> {
+    await fs.mkdir(dirname(filePath), { recursive: true });
+    await fs.appendFile(filePath, `${line}\n`, 'utf-8');
+  }
+
+  static async readLines(filePath: string): Promise<string[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    return content.split('\n').filter(line => line.trim() !== '');
+  }
+}
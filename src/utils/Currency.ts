@@ -1,24 +1,197 @@
+import { DomainError, ValidationError } from '../errors/DomainError';
+
 export interface Currency {
-  amount: number;
-  currency: string;
+  readonly amount: number;
+  readonly currency: string;
+  readonly minorUnits: number;
+}
+
+export const DEFAULT_CURRENCY_EXPONENT = 2;
+
+export const CURRENCY_EXPONENTS: Readonly<Record<string, number>> = {
+  JPY: 0,
+  KRW: 0,
+  CLP: 0,
+  ISK: 0,
+  BHD: 3,
+  KWD: 3,
+  JOD: 3,
+  OMR: 3,
+  TND: 3
+};
+
+export class CurrencyMismatchError extends DomainError {
+  readonly code = 'CURRENCY_MISMATCH';
+
+  constructor(public readonly expected: string, public readonly actual: string, operation: string = 'add') {
+    super(`Cannot ${operation} different currencies: ${expected} and ${actual}`, { expected, actual });
+  }
 }
 
 export class CurrencyUtils {
+  static exponent(currency: string): number {
+    return CURRENCY_EXPONENTS[currency] ?? DEFAULT_CURRENCY_EXPONENT;
+  }
+
   static create(amount: number, currency: string = 'EUR'): Currency {
     if (amount < 0) {
-      throw new Error('Amount cannot be negative');
+      throw this.negativeAmount(amount);
+    }
+
+    const exponent = this.exponent(currency);
+    const minorUnits = Math.round(amount * 10 ** exponent);
+    if (!Number.isFinite(amount) || minorUnits / 10 ** exponent !== amount) {
+      throw ValidationError.of({
+        field: 'amount',
+        message: `Amount must have at most ${exponent} decimal places for ${currency}`,
+        code: 'INVALID_FORMAT',
+        rejectedValue: amount,
+        expectedFormat: exponent === 0 ? '100' : `100.${'0'.repeat(exponent)}`
+      });
+    }
+
+    return this.fromMinorUnits(minorUnits, currency);
+  }
+
+  static fromMinorUnits(minorUnits: number, currency: string = 'EUR'): Currency {
+    if (minorUnits < 0) {
+      throw this.negativeAmount(minorUnits / 10 ** this.exponent(currency));
     }
-    return { amount, currency };
+    if (!Number.isSafeInteger(minorUnits)) {
+      throw ValidationError.of({
+        field: 'amount',
+        message: 'Amount must be a whole number of minor units within the safe integer range',
+        code: 'OUT_OF_RANGE',
+        rejectedValue: minorUnits,
+        allowedRange: { min: 0, max: Number.MAX_SAFE_INTEGER }
+      });
+    }
+
+    return { amount: minorUnits / 10 ** this.exponent(currency), currency, minorUnits };
+  }
+
+  static zero(currency: string = 'EUR'): Currency {
+    return this.fromMinorUnits(0, currency);
   }
 
   static add(a: Currency, b: Currency): Currency {
-    if (a.currency !== b.currency) {
-      throw new Error('Cannot add different currencies');
+    this.assertSameCurrency(a, b, 'add');
+    return this.fromMinorUnits(a.minorUnits + b.minorUnits, a.currency);
+  }
+
+  static subtract(a: Currency, b: Currency): Currency {
+    this.assertSameCurrency(a, b, 'subtract');
+    return this.fromMinorUnits(a.minorUnits - b.minorUnits, a.currency);
+  }
+
+  static multiply(currency: Currency, quantity: number): Currency {
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      throw ValidationError.of({
+        field: 'quantity',
+        message: 'Quantity must be a non-negative integer',
+        code: 'INVALID_VALUE',
+        rejectedValue: quantity
+      });
+    }
+    return this.fromMinorUnits(currency.minorUnits * quantity, currency.currency);
+  }
+
+  static allocate(currency: Currency, ratios: number[]): Currency[] {
+    const total = ratios.reduce((sum, ratio) => sum + ratio, 0);
+    if (ratios.length === 0 || ratios.some(ratio => !Number.isFinite(ratio) || ratio < 0) || total <= 0) {
+      throw ValidationError.of({
+        field: 'ratios',
+        message: 'Ratios must be non-negative numbers with a positive sum',
+        code: 'INVALID_VALUE',
+        rejectedValue: ratios
+      });
+    }
+
+    // Exact integer arithmetic: floating point division can round a share up and overspend the amount
+    const weights = this.integerWeights(ratios);
+    const weightTotal = weights.reduce((sum, weight) => sum + weight, 0n);
+    const shares = weights.map(weight => Number((BigInt(currency.minorUnits) * weight) / weightTotal));
+    let remainder = currency.minorUnits - shares.reduce((sum, share) => sum + share, 0);
+    for (let i = 0; remainder > 0; i = (i + 1) % shares.length) {
+      if (ratios[i] > 0) {
+        shares[i]++;
+        remainder--;
+      }
+    }
+
+    return shares.map(share => this.fromMinorUnits(share, currency.currency));
+  }
+
+  static split(currency: Currency, parts: number): Currency[] {
+    if (!Number.isInteger(parts) || parts < 1) {
+      throw ValidationError.of({
+        field: 'parts',
+        message: 'Parts must be a positive integer',
+        code: 'INVALID_VALUE',
+        rejectedValue: parts
+      });
     }
-    return { amount: a.amount + b.amount, currency: a.currency };
+    return this.allocate(currency, Array.from({ length: parts }, () => 1));
+  }
+
+  static compare(a: Currency, b: Currency): -1 | 0 | 1 {
+    this.assertSameCurrency(a, b, 'compare');
+    return Math.sign(a.minorUnits - b.minorUnits) as -1 | 0 | 1;
+  }
+
+  static equals(a: Currency, b: Currency): boolean {
+    return a.currency === b.currency && a.minorUnits === b.minorUnits;
+  }
+
+  static greaterThan(a: Currency, b: Currency): boolean {
+    return this.compare(a, b) > 0;
+  }
+
+  static lessThan(a: Currency, b: Currency): boolean {
+    return this.compare(a, b) < 0;
+  }
+
+  static isZero(currency: Currency): boolean {
+    return currency.minorUnits === 0;
   }
 
   static format(currency: Currency): string {
-    return `${currency.amount.toFixed(2)} ${currency.currency}`;
+    const exponent = this.exponent(currency.currency);
+    const digits = String(currency.minorUnits).padStart(exponent + 1, '0');
+    const whole = digits.slice(0, digits.length - exponent);
+    const fraction = digits.slice(digits.length - exponent);
+
+    return `${fraction ? `${whole}.${fraction}` : whole} ${currency.currency}`;
+  }
+
+  private static integerWeights(ratios: number[]): bigint[] {
+    // Every finite double is an integer times a power of two, so scaling by the largest power makes all ratios exact integers
+    const scaled = ratios.map(ratio => {
+      let mantissa = ratio;
+      let shift = 0;
+      while (!Number.isInteger(mantissa)) {
+        mantissa *= 2;
+        shift++;
+      }
+      return { mantissa, shift };
+    });
+    const maxShift = Math.max(...scaled.map(({ shift }) => shift));
+    return scaled.map(({ mantissa, shift }) => BigInt(mantissa) << BigInt(maxShift - shift));
+  }
+
+  private static assertSameCurrency(a: Currency, b: Currency, operation: string): void {
+    if (a.currency !== b.currency) {
+      throw new CurrencyMismatchError(a.currency, b.currency, operation);
+    }
+  }
+
+  private static negativeAmount(amount: number): ValidationError {
+    return ValidationError.of({
+      field: 'amount',
+      message: 'Amount cannot be negative',
+      code: 'INVALID_VALUE',
+      rejectedValue: amount,
+      allowedRange: { min: 0 }
+    });
   }
 }
@@ -0,0 +1,105 @@
+import { Currency, CurrencyUtils } from './Currency';
+import { ExchangeRateNotFoundError, ExchangeRateProvider, ExchangeRates } from './ExchangeRateProvider';
+
+export const ROUNDING_MODES = ['HALF_EVEN', 'HALF_UP', 'HALF_DOWN', 'UP', 'DOWN'] as const;
+export type RoundingMode = typeof ROUNDING_MODES[number];
+
+export interface CurrencyConverterOptions {
+  roundingMode?: RoundingMode;
+}
+
+interface Fraction {
+  numerator: bigint;
+  denominator: bigint;
+}
+
+export class CurrencyConverter {
+  private readonly roundingMode: RoundingMode;
+
+  constructor(private readonly provider: ExchangeRateProvider, options: CurrencyConverterOptions = {}) {
+    this.roundingMode = options.roundingMode ?? 'HALF_EVEN';
+  }
+
+  async convert(amount: Currency, targetCurrency: string, roundingMode: RoundingMode = this.roundingMode): Promise<Currency> {
+    return this.sumIn([amount], targetCurrency, roundingMode);
+  }
+
+  async sumIn(amounts: Currency[], targetCurrency: string, roundingMode: RoundingMode = this.roundingMode): Promise<Currency> {
+    const totals = new Map<string, number>();
+    amounts.forEach(amount => totals.set(amount.currency, (totals.get(amount.currency) ?? 0) + amount.minorUnits));
+
+    if (totals.size === 0 || (totals.size === 1 && totals.has(targetCurrency))) {
+      return CurrencyUtils.fromMinorUnits(totals.get(targetCurrency) ?? 0, targetCurrency);
+    }
+
+    const rates = await this.provider.getRates();
+    let sum: Fraction = { numerator: 0n, denominator: 1n };
+    totals.forEach((minorUnits, currency) => {
+      const converted = this.toTargetMinorUnits(minorUnits, currency, targetCurrency, rates);
+      sum = {
+        numerator: sum.numerator * converted.denominator + converted.numerator * sum.denominator,
+        denominator: sum.denominator * converted.denominator
+      };
+    });
+
+    return CurrencyUtils.fromMinorUnits(Number(CurrencyConverter.round(sum, roundingMode)), targetCurrency);
+  }
+
+  private toTargetMinorUnits(minorUnits: number, from: string, to: string, rates: ExchangeRates): Fraction {
+    if (from === to) {
+      return { numerator: BigInt(minorUnits), denominator: 1n };
+    }
+
+    const fromScale = 10n ** BigInt(CurrencyUtils.exponent(from));
+    const toScale = 10n ** BigInt(CurrencyUtils.exponent(to));
+    const fromRate = CurrencyConverter.rateOf(from, rates, from, to);
+    const toRate = CurrencyConverter.rateOf(to, rates, from, to);
+
+    return {
+      numerator: BigInt(minorUnits) * toRate.numerator * fromRate.denominator * toScale,
+      denominator: fromRate.numerator * toRate.denominator * fromScale
+    };
+  }
+
+  private static rateOf(currency: string, rates: ExchangeRates, from: string, to: string): Fraction {
+    if (currency === rates.base) {
+      return { numerator: 1n, denominator: 1n };
+    }
+    const rate = rates.rates[currency];
+    if (rate === undefined) {
+      throw new ExchangeRateNotFoundError(from, to);
+    }
+    return this.toFraction(rate);
+  }
+
+  private static toFraction(rate: number): Fraction {
+    const [, whole, decimals = '', exponent = '0'] = String(rate).match(/^(\d+)(?:\.(\d+))?(?:e([+-]?\d+))?$/i)!;
+    const scale = decimals.length - Number(exponent);
+    const digits = BigInt(whole + decimals);
+
+    return scale >= 0
+      ? { numerator: digits, denominator: 10n ** BigInt(scale) }
+      : { numerator: digits * 10n ** BigInt(-scale), denominator: 1n };
+  }
+
+  private static round({ numerator, denominator }: Fraction, mode: RoundingMode): bigint {
+    const quotient = numerator / denominator;
+    const twiceRemainder = (numerator % denominator) * 2n;
+
+    switch (mode) {
+      case 'DOWN':
+        return quotient;
+      case 'UP':
+        return twiceRemainder > 0n ? quotient + 1n : quotient;
+      case 'HALF_UP':
+        return twiceRemainder >= denominator ? quotient + 1n : quotient;
+      case 'HALF_DOWN':
+        return twiceRemainder > denominator ? quotient + 1n : quotient;
+      case 'HALF_EVEN':
+        if (twiceRemainder === denominator) {
+          return quotient % 2n === 0n ? quotient : quotient + 1n;
+        }
+        return twiceRemainder > denominator ? quotient + 1n : quotient;
+    }
+  }
+}
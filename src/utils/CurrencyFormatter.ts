@@ -0,0 +1,131 @@
+import { ValidationError } from '../errors/DomainError';
+import { Currency, CurrencyUtils } from './Currency';
+
+interface LocaleFormat {
+  decimal: string;
+  group: string;
+  minimumGroupingDigits: number;
+  symbolPosition: 'prefix' | 'suffix';
+}
+
+const NBSP = '\u00A0';
+const NARROW_NBSP = '\u202F';
+
+export const CURRENCY_LOCALES = {
+  es: { decimal: ',', group: '.', minimumGroupingDigits: 2, symbolPosition: 'suffix' },
+  en: { decimal: '.', group: ',', minimumGroupingDigits: 1, symbolPosition: 'prefix' },
+  fr: { decimal: ',', group: NARROW_NBSP, minimumGroupingDigits: 1, symbolPosition: 'suffix' },
+  de: { decimal: ',', group: '.', minimumGroupingDigits: 1, symbolPosition: 'suffix' },
+  it: { decimal: ',', group: '.', minimumGroupingDigits: 1, symbolPosition: 'suffix' },
+  pt: { decimal: ',', group: '.', minimumGroupingDigits: 1, symbolPosition: 'prefix' },
+  ca: { decimal: ',', group: '.', minimumGroupingDigits: 1, symbolPosition: 'suffix' }
+} as const satisfies Record<string, LocaleFormat>;
+
+export type CurrencyLocale = keyof typeof CURRENCY_LOCALES;
+
+export const CURRENCY_SYMBOLS: Readonly<Record<string, string>> = {
+  EUR: '€',
+  USD: '$',
+  GBP: '£',
+  JPY: '¥',
+  CHF: 'CHF',
+  CAD: 'CA$',
+  AUD: 'A$'
+};
+
+export class CurrencyFormatter {
+  static symbolFor(currency: string): string {
+    return CURRENCY_SYMBOLS[currency] ?? currency;
+  }
+
+  static format(currency: Currency, locale: CurrencyLocale): string {
+    const format: LocaleFormat = CURRENCY_LOCALES[locale];
+    const exponent = CurrencyUtils.exponent(currency.currency);
+    const digits = String(currency.minorUnits).padStart(exponent + 1, '0');
+    const whole = this.group(digits.slice(0, digits.length - exponent), format);
+    const fraction = digits.slice(digits.length - exponent);
+    const number = fraction ? `${whole}${format.decimal}${fraction}` : whole;
+    const symbol = this.symbolFor(currency.currency);
+
+    if (format.symbolPosition === 'suffix') {
+      return `${number}${NBSP}${symbol}`;
+    }
+    return locale === 'en' && !/[A-Z]$/.test(symbol) ? `${symbol}${number}` : `${symbol}${NBSP}${number}`;
+  }
+
+  static parse(text: string, locale: CurrencyLocale): Currency {
+    const format: LocaleFormat = CURRENCY_LOCALES[locale];
+    const trimmed = text.trim();
+    const currency = this.detectCurrency(trimmed);
+    if (!currency) {
+      throw this.unparseable(text, locale);
+    }
+
+    const number = this.stripSymbol(trimmed, currency.symbol).replace(/\s/g, ' ').trim();
+    const group = format.group === NARROW_NBSP ? ' ' : format.group;
+    const [whole, fraction = '', ...rest] = number.split(format.decimal);
+    const exponent = CurrencyUtils.exponent(currency.code);
+
+    if (rest.length > 0 || !this.isGroupedInteger(whole, group) || !/^\d*$/.test(fraction)) {
+      throw this.unparseable(text, locale);
+    }
+    if (fraction.length > exponent || (number.includes(format.decimal) && fraction.length === 0)) {
+      throw ValidationError.of({
+        field: 'amount',
+        message: `Amount must have at most ${exponent} decimal places for ${currency.code}`,
+        code: 'INVALID_FORMAT',
+        rejectedValue: text,
+        expectedFormat: this.example(currency.code, locale)
+      });
+    }
+
+    const minorUnits = Number(whole.split(group).join('') + fraction.padEnd(exponent, '0'));
+    return CurrencyUtils.fromMinorUnits(minorUnits, currency.code);
+  }
+
+  private static group(whole: string, format: LocaleFormat): string {
+    if (whole.length < 4 + format.minimumGroupingDigits - 1) {
+      return whole;
+    }
+    return whole.replace(/\B(?=(\d{3})+(?!\d))/g, format.group);
+  }
+
+  private static isGroupedInteger(whole: string, group: string): boolean {
+    if (/^\d+$/.test(whole)) {
+      return true;
+    }
+    const groups = whole.split(group);
+    return /^\d{1,3}$/.test(groups[0]) && groups.slice(1).every(part => /^\d{3}$/.test(part));
+  }
+
+  private static detectCurrency(text: string): { code: string; symbol: string } | undefined {
+    const candidates = Object.entries(CURRENCY_SYMBOLS)
+      .flatMap(([code, symbol]) => [{ code, symbol }, { code, symbol: code }])
+      .sort((a, b) => b.symbol.length - a.symbol.length);
+    const known = candidates.find(({ symbol }) => text.startsWith(symbol) || text.endsWith(symbol));
+    if (known) {
+      return known;
+    }
+
+    const code = text.match(/^[A-Z]{3}(?=[\s\d])|(?<=[\s\d])[A-Z]{3}$/)?.[0];
+    return code ? { code, symbol: code } : undefined;
+  }
+
+  private static stripSymbol(text: string, symbol: string): string {
+    return text.startsWith(symbol) ? text.slice(symbol.length) : text.slice(0, text.length - symbol.length);
+  }
+
+  private static example(currency: string, locale: CurrencyLocale): string {
+    return this.format(CurrencyUtils.fromMinorUnits(123456, currency), locale);
+  }
+
+  private static unparseable(text: string, locale: CurrencyLocale): ValidationError {
+    return ValidationError.of({
+      field: 'amount',
+      message: `Cannot parse "${text}" as a currency amount for locale ${locale}`,
+      code: 'INVALID_FORMAT',
+      rejectedValue: text,
+      expectedFormat: this.example('EUR', locale)
+    });
+  }
+}
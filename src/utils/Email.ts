@@ -1,16 +1,159 @@
+import { domainToASCII } from 'url';
+import { ValidationError } from '../errors/DomainError';
+
 export type Email = string & { readonly __brand: 'Email' };
 
+export const EMAIL_FAILURE_MESSAGES = {
+  EMPTY: 'email is empty',
+  TOO_LONG: 'email exceeds 254 characters',
+  MISSING_AT: 'missing @ between local part and domain',
+  LOCAL_PART_EMPTY: 'local part before @ is empty',
+  LOCAL_PART_TOO_LONG: 'local part exceeds 64 characters',
+  INVALID_LOCAL_PART: 'local part contains invalid characters or misplaced dots',
+  INVALID_QUOTED_LOCAL_PART: 'quoted local part is not properly closed or escaped',
+  DOMAIN_EMPTY: 'domain after @ is empty',
+  DOMAIN_TOO_LONG: 'domain exceeds 253 characters',
+  INVALID_DOMAIN: 'domain is not a valid host name',
+  LABEL_TOO_LONG: 'domain label exceeds 63 characters',
+  MISSING_TLD: 'domain has no top-level domain',
+  INVALID_TLD: 'top-level domain must be at least two letters'
+} as const;
+
+export type EmailFailureReason = keyof typeof EMAIL_FAILURE_MESSAGES;
+
+export interface ParsedEmail {
+  localPart: string;
+  domain: string;
+  asciiDomain: string;
+  quoted: boolean;
+}
+
+export type EmailParseResult =
+  | { valid: true; email: ParsedEmail }
+  | { valid: false; reason: EmailFailureReason; message: string };
+
+export class InvalidEmailError extends ValidationError {
+  constructor(public readonly email: string, public readonly reason: EmailFailureReason) {
+    super([{
+      field: 'email',
+      message: `Invalid email format: ${email} (${EMAIL_FAILURE_MESSAGES[reason]})`,
+      code: 'INVALID_FORMAT',
+      rejectedValue: email,
+      expectedFormat: 'user@example.com'
+    }]);
+  }
+}
+
+const MAX_EMAIL_LENGTH = 254;
+const MAX_LOCAL_PART_LENGTH = 64;
+const MAX_DOMAIN_LENGTH = 253;
+const MAX_LABEL_LENGTH = 63;
+
+const DOT_ATOM_PATTERN = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~\u0080-\uFFFF-]+(\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~\u0080-\uFFFF-]+)*$/;
+const QUOTED_STRING_PATTERN = /^"([\x20\x21\x23-\x5B\x5D-\x7E\u0080-\uFFFF]|\\[\x20-\x7E])*"$/;
+const LABEL_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/;
+const TLD_PATTERN = /^([a-z]{2,}|xn--[a-z0-9-]+)$/;
+
 export class EmailValidator {
-  private static readonly EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  static parse(email: string): EmailParseResult {
+    const reason = this.findFailure(email);
+    if (reason) {
+      return { valid: false, reason, message: EMAIL_FAILURE_MESSAGES[reason] };
+    }
+
+    const at = email.lastIndexOf('@');
+    const localPart = email.slice(0, at);
+    const domain = email.slice(at + 1);
+    return {
+      valid: true,
+      email: { localPart, domain, asciiDomain: domainToASCII(domain), quoted: localPart.startsWith('"') }
+    };
+  }
 
   static validate(email: string): Email {
-    if (!this.EMAIL_REGEX.test(email)) {
-      throw new Error(`Invalid email format: ${email}`);
+    const result = this.parse(email);
+    if (!result.valid) {
+      throw new InvalidEmailError(email, result.reason);
     }
     return email as Email;
   }
 
   static isValid(email: string): boolean {
-    return this.EMAIL_REGEX.test(email);
+    return this.parse(email).valid;
+  }
+
+  static normalize(email: string): Email {
+    const result = this.parse(email.trim());
+    if (!result.valid) {
+      throw new InvalidEmailError(email, result.reason);
+    }
+
+    const { localPart, asciiDomain, quoted } = result.email;
+    const canonicalLocalPart = quoted ? localPart.normalize('NFC') : localPart.normalize('NFC').toLowerCase();
+    return `${canonicalLocalPart}@${asciiDomain}` as Email;
+  }
+
+  // Stored addresses may predate the stricter parser, so those fall back to a case-insensitive comparison
+  static comparable(email: string): string {
+    return this.isValid(email.trim()) ? this.normalize(email) : email.trim().toLowerCase();
+  }
+
+  static equals(a: string, b: string): boolean {
+    return this.normalize(a) === this.normalize(b);
+  }
+
+  private static findFailure(email: string): EmailFailureReason | undefined {
+    if (email.length === 0) {
+      return 'EMPTY';
+    }
+    if (email.length > MAX_EMAIL_LENGTH) {
+      return 'TOO_LONG';
+    }
+
+    const at = email.lastIndexOf('@');
+    if (at === -1) {
+      return 'MISSING_AT';
+    }
+
+    return this.findLocalPartFailure(email.slice(0, at)) ?? this.findDomainFailure(email.slice(at + 1));
+  }
+
+  private static findLocalPartFailure(localPart: string): EmailFailureReason | undefined {
+    if (localPart.length === 0) {
+      return 'LOCAL_PART_EMPTY';
+    }
+    if (Buffer.byteLength(localPart, 'utf-8') > MAX_LOCAL_PART_LENGTH) {
+      return 'LOCAL_PART_TOO_LONG';
+    }
+    if (localPart.startsWith('"')) {
+      return QUOTED_STRING_PATTERN.test(localPart) ? undefined : 'INVALID_QUOTED_LOCAL_PART';
+    }
+    return DOT_ATOM_PATTERN.test(localPart) ? undefined : 'INVALID_LOCAL_PART';
+  }
+
+  private static findDomainFailure(domain: string): EmailFailureReason | undefined {
+    if (domain.length === 0) {
+      return 'DOMAIN_EMPTY';
+    }
+
+    const asciiDomain = domainToASCII(domain);
+    if (asciiDomain === '' || /\s/.test(domain)) {
+      return 'INVALID_DOMAIN';
+    }
+    if (asciiDomain.length > MAX_DOMAIN_LENGTH) {
+      return 'DOMAIN_TOO_LONG';
+    }
+
+    const labels = asciiDomain.split('.');
+    if (labels.some(label => label.length > MAX_LABEL_LENGTH)) {
+      return 'LABEL_TOO_LONG';
+    }
+    if (!labels.every(label => LABEL_PATTERN.test(label))) {
+      return 'INVALID_DOMAIN';
+    }
+    if (labels.length < 2) {
+      return 'MISSING_TLD';
+    }
+    return TLD_PATTERN.test(labels[labels.length - 1]) ? undefined : 'INVALID_TLD';
   }
 }
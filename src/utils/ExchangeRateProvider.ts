@@ -0,0 +1,59 @@
+import { DomainError, ValidationError } from '../errors/DomainError';
+
+export interface ExchangeRates {
+  base: string;
+  rates: Readonly<Record<string, number>>;
+  asOf?: string;
+}
+
+export interface ExchangeRateProvider {
+  getRates(): Promise<ExchangeRates>;
+}
+
+export class ExchangeRateNotFoundError extends DomainError {
+  readonly code = 'EXCHANGE_RATE_NOT_FOUND';
+
+  constructor(public readonly from: string, public readonly to: string) {
+    super(`No exchange rate available from ${from} to ${to}`, { from, to });
+  }
+}
+
+export function assertValidRates(rates: ExchangeRates): ExchangeRates {
+  if (typeof rates.base !== 'string' || !/^[A-Z]{3}$/.test(rates.base)) {
+    throw ValidationError.of({
+      field: 'base',
+      message: 'Base currency must be an ISO 4217 code',
+      code: 'INVALID_FORMAT',
+      rejectedValue: rates.base,
+      expectedFormat: 'EUR'
+    });
+  }
+  if (typeof rates.rates !== 'object' || rates.rates === null) {
+    throw ValidationError.of({ field: 'rates', message: 'Rates must be an object', code: 'INVALID_FORMAT' });
+  }
+
+  Object.entries(rates.rates).forEach(([currency, rate]) => {
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+      throw ValidationError.of({
+        field: `rates.${currency}`,
+        message: 'Exchange rates must be positive numbers',
+        code: 'INVALID_VALUE',
+        rejectedValue: rate
+      });
+    }
+  });
+
+  return rates;
+}
+
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+  private readonly rates: ExchangeRates;
+
+  constructor(rates: Record<string, number>, base: string = 'EUR', asOf?: string) {
+    this.rates = assertValidRates({ base, rates: { ...rates }, asOf });
+  }
+
+  async getRates(): Promise<ExchangeRates> {
+    return this.rates;
+  }
+}
@@ -0,0 +1,21 @@
+import { promises as fs } from 'fs';
+import { assertValidRates, ExchangeRateProvider, ExchangeRates } from './ExchangeRateProvider';
+
+export class FileExchangeRateProvider implements ExchangeRateProvider {
+  private loading?: Promise<ExchangeRates>;
+
+  constructor(private readonly filePath: string) {}
+
+  async getRates(): Promise<ExchangeRates> {
+    this.loading ??= this.readSnapshot().catch(error => {
+      this.loading = undefined;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  private async readSnapshot(): Promise<ExchangeRates> {
+    const content = await fs.readFile(this.filePath, 'utf-8');
+    return assertValidRates(JSON.parse(content) as ExchangeRates);
+  }
+}
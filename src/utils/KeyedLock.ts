@@ -0,0 +1,28 @@
+export class KeyedLock {
+  private tails: Map<string, Promise<void>> = new Map();
+
+  async run<T>(keys: readonly string[], task: () => Promise<T>): Promise<T> {
+    const unique = [...new Set(keys)];
+    const previous = unique.map(key => this.tails.get(key));
+
+    let release!: () => void;
+    const done = new Promise<void>(resolve => { release = resolve; });
+    unique.forEach(key => this.tails.set(key, done));
+
+    try {
+      await Promise.all(previous);
+      return await task();
+    } finally {
+      release();
+      unique.forEach(key => {
+        if (this.tails.get(key) === done) {
+          this.tails.delete(key);
+        }
+      });
+    }
+  }
+
+  get size(): number {
+    return this.tails.size;
+  }
+}
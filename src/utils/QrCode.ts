@@ -0,0 +1,364 @@
+import { DomainError } from '../errors/DomainError';
+
+// Error correction level M, versions 1-10, indexed by version
+const ECC_CODEWORDS_PER_BLOCK = [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const ERROR_CORRECTION_BLOCKS = [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+const MAX_VERSION = 10;
+const FORMAT_BITS_LEVEL_M = 0;
+
+export class QrCodeCapacityError extends DomainError {
+  readonly code = 'QR_CODE_CAPACITY_EXCEEDED';
+
+  constructor(public readonly byteLength: number) {
+    super(`Text of ${byteLength} bytes does not fit in a version ${MAX_VERSION} QR code`, { byteLength });
+  }
+}
+
+export class QrCode {
+  private constructor(
+    public readonly version: number,
+    public readonly mask: number,
+    private readonly modules: boolean[][]
+  ) {}
+
+  get size(): number {
+    return this.modules.length;
+  }
+
+  isDark(x: number, y: number): boolean {
+    return this.modules[y]?.[x] ?? false;
+  }
+
+  static encode(text: string): QrCode {
+    const bytes = Buffer.from(text, 'utf-8');
+    const version = this.smallestVersion(bytes.length);
+    const codewords = this.addErrorCorrection(this.dataCodewords(bytes, version), version);
+
+    const size = version * 4 + 17;
+    const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    const reserved = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    const set = (x: number, y: number, dark: boolean) => {
+      modules[y][x] = dark;
+      reserved[y][x] = true;
+    };
+
+    this.drawFunctionPatterns(version, set);
+    this.drawCodewords(codewords, modules, reserved);
+
+    let best = { mask: 0, penalty: Infinity };
+    for (let mask = 0; mask < 8; mask++) {
+      this.applyMask(mask, modules, reserved);
+      this.drawFormatBits(mask, size, set);
+      const penalty = this.penalty(modules);
+      if (penalty < best.penalty) {
+        best = { mask, penalty };
+      }
+      this.applyMask(mask, modules, reserved);
+    }
+    this.applyMask(best.mask, modules, reserved);
+    this.drawFormatBits(best.mask, size, set);
+
+    return new QrCode(version, best.mask, modules);
+  }
+
+  static formatBits(mask: number): number {
+    const data = (FORMAT_BITS_LEVEL_M << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    return ((data << 10) | remainder) ^ 0x5412;
+  }
+
+  static versionBits(version: number): number {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    return (version << 12) | remainder;
+  }
+
+  static reedSolomon(data: readonly number[], degree: number): number[] {
+    const divisor = new Array<number>(degree).fill(0);
+    divisor[degree - 1] = 1;
+    let root = 1;
+    for (let i = 0; i < degree; i++) {
+      for (let j = 0; j < degree; j++) {
+        divisor[j] = this.multiply(divisor[j], root);
+        if (j + 1 < degree) {
+          divisor[j] ^= divisor[j + 1];
+        }
+      }
+      root = this.multiply(root, 0x02);
+    }
+
+    const remainder = new Array<number>(degree).fill(0);
+    for (const byte of data) {
+      const factor = byte ^ (remainder.shift() as number);
+      remainder.push(0);
+      divisor.forEach((coefficient, i) => {
+        remainder[i] ^= this.multiply(coefficient, factor);
+      });
+    }
+    return remainder;
+  }
+
+  private static multiply(x: number, y: number): number {
+    let z = 0;
+    for (let i = 7; i >= 0; i--) {
+      z = (z << 1) ^ ((z >>> 7) * 0x11d);
+      z ^= ((y >>> i) & 1) * x;
+    }
+    return z;
+  }
+
+  private static totalCodewords(version: number): number {
+    let modules = (16 * version + 128) * version + 64;
+    if (version >= 2) {
+      const alignments = Math.floor(version / 7) + 2;
+      modules -= (25 * alignments - 10) * alignments - 55;
+      if (version >= 7) {
+        modules -= 36;
+      }
+    }
+    return Math.floor(modules / 8);
+  }
+
+  private static dataCapacity(version: number): number {
+    return this.totalCodewords(version) - ECC_CODEWORDS_PER_BLOCK[version] * ERROR_CORRECTION_BLOCKS[version];
+  }
+
+  private static countBits(version: number): number {
+    return version < 10 ? 8 : 16;
+  }
+
+  private static smallestVersion(byteLength: number): number {
+    for (let version = 1; version <= MAX_VERSION; version++) {
+      if (4 + this.countBits(version) + byteLength * 8 <= this.dataCapacity(version) * 8) {
+        return version;
+      }
+    }
+    throw new QrCodeCapacityError(byteLength);
+  }
+
+  private static dataCodewords(bytes: Buffer, version: number): number[] {
+    const bits: number[] = [];
+    const append = (value: number, length: number) => {
+      for (let i = length - 1; i >= 0; i--) {
+        bits.push((value >>> i) & 1);
+      }
+    };
+
+    append(0b0100, 4);
+    append(bytes.length, this.countBits(version));
+    bytes.forEach(byte => append(byte, 8));
+
+    const capacityBits = this.dataCapacity(version) * 8;
+    append(0, Math.min(4, capacityBits - bits.length));
+    append(0, (8 - (bits.length % 8)) % 8);
+
+    const codewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+      codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+    }
+    for (let pad = 0xec; codewords.length < capacityBits / 8; pad ^= 0xec ^ 0x11) {
+      codewords.push(pad);
+    }
+    return codewords;
+  }
+
+  private static addErrorCorrection(data: number[], version: number): number[] {
+    const blockCount = ERROR_CORRECTION_BLOCKS[version];
+    const eccLength = ECC_CODEWORDS_PER_BLOCK[version];
+    const shortBlockLength = Math.floor(data.length / blockCount);
+    const longBlocks = data.length % blockCount;
+
+    const blocks: number[][] = [];
+    for (let i = 0, offset = 0; i < blockCount; i++) {
+      const length = shortBlockLength + (i >= blockCount - longBlocks ? 1 : 0);
+      blocks.push(data.slice(offset, offset + length));
+      offset += length;
+    }
+    const eccBlocks = blocks.map(block => this.reedSolomon(block, eccLength));
+
+    const result: number[] = [];
+    for (let i = 0; i <= shortBlockLength; i++) {
+      blocks.forEach(block => {
+        if (i < block.length) {
+          result.push(block[i]);
+        }
+      });
+    }
+    for (let i = 0; i < eccLength; i++) {
+      eccBlocks.forEach(block => result.push(block[i]));
+    }
+    return result;
+  }
+
+  private static alignmentPositions(version: number): number[] {
+    if (version === 1) {
+      return [];
+    }
+    const count = Math.floor(version / 7) + 2;
+    const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+    const positions = [6];
+    for (let position = version * 4 + 10; positions.length < count; position -= step) {
+      positions.splice(1, 0, position);
+    }
+    return positions;
+  }
+
+  private static drawFunctionPatterns(version: number, set: (x: number, y: number, dark: boolean) => void): void {
+    const size = version * 4 + 17;
+
+    for (let i = 0; i < size; i++) {
+      set(6, i, i % 2 === 0);
+      set(i, 6, i % 2 === 0);
+    }
+
+    for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          if (x >= 0 && x < size && y >= 0 && y < size) {
+            const distance = Math.max(Math.abs(dx), Math.abs(dy));
+            set(x, y, distance !== 2 && distance !== 4);
+          }
+        }
+      }
+    }
+
+    const positions = this.alignmentPositions(version);
+    const last = positions.length - 1;
+    positions.forEach((cy, i) => positions.forEach((cx, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+        return;
+      }
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    }));
+
+    // Reserve the format areas; their bits depend on the mask chosen later
+    this.drawFormatBits(0, size, set);
+
+    if (version >= 7) {
+      const bits = this.versionBits(version);
+      for (let i = 0; i < 18; i++) {
+        const dark = ((bits >>> i) & 1) === 1;
+        const a = size - 11 + (i % 3);
+        const b = Math.floor(i / 3);
+        set(a, b, dark);
+        set(b, a, dark);
+      }
+    }
+  }
+
+  private static drawFormatBits(mask: number, size: number, set: (x: number, y: number, dark: boolean) => void): void {
+    const bits = this.formatBits(mask);
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+    for (let i = 0; i <= 5; i++) {
+      set(8, i, bit(i));
+    }
+    set(8, 7, bit(6));
+    set(8, 8, bit(7));
+    set(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) {
+      set(14 - i, 8, bit(i));
+    }
+
+    for (let i = 0; i < 8; i++) {
+      set(size - 1 - i, 8, bit(i));
+    }
+    for (let i = 8; i < 15; i++) {
+      set(8, size - 15 + i, bit(i));
+    }
+    set(8, size - 8, true);
+  }
+
+  private static drawCodewords(codewords: number[], modules: boolean[][], reserved: boolean[][]): void {
+    const size = modules.length;
+    let i = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5;
+      }
+      const upward = ((right + 1) & 2) === 0;
+      for (let vertical = 0; vertical < size; vertical++) {
+        const y = upward ? size - 1 - vertical : vertical;
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          if (!reserved[y][x] && i < codewords.length * 8) {
+            modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  private static applyMask(mask: number, modules: boolean[][], reserved: boolean[][]): void {
+    const conditions: ((x: number, y: number) => boolean)[] = [
+      (x, y) => (x + y) % 2 === 0,
+      (_x, y) => y % 2 === 0,
+      (x, _y) => x % 3 === 0,
+      (x, y) => (x + y) % 3 === 0,
+      (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+      (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+      (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+      (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+    ];
+
+    modules.forEach((row, y) => row.forEach((dark, x) => {
+      if (!reserved[y][x] && conditions[mask](x, y)) {
+        row[x] = !dark;
+      }
+    }));
+  }
+
+  private static penalty(modules: boolean[][]): number {
+    const size = modules.length;
+    const columns = modules.map((_, x) => modules.map(row => row[x]));
+    let penalty = 0;
+
+    for (const line of [...modules, ...columns]) {
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          run++;
+          continue;
+        }
+        if (run >= 5) {
+          penalty += run - 2;
+        }
+        run = 1;
+      }
+
+      const text = line.map(dark => (dark ? '1' : '0')).join('');
+      for (const pattern of ['10111010000', '00001011101']) {
+        for (let at = text.indexOf(pattern); at !== -1; at = text.indexOf(pattern, at + 1)) {
+          penalty += 40;
+        }
+      }
+    }
+
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const dark = modules[y][x];
+        if (dark === modules[y][x + 1] && dark === modules[y + 1][x] && dark === modules[y + 1][x + 1]) {
+          penalty += 3;
+        }
+      }
+    }
+
+    const darkCount = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    penalty += (Math.ceil(Math.abs(darkCount * 20 - total * 10) / total) - 1) * 10;
+
+    return penalty;
+  }
+}
@@ -0,0 +1,80 @@
+import { deflateSync } from 'zlib';
+import { QrCode } from './QrCode';
+
+export interface QrRenderOptions {
+  scale?: number;
+  margin?: number;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+export class QrCodeRenderer {
+  static toSvg(qr: QrCode, { margin = 4 }: QrRenderOptions = {}): string {
+    const dimension = qr.size + margin * 2;
+    const path: string[] = [];
+    for (let y = 0; y < qr.size; y++) {
+      for (let x = 0; x < qr.size; x++) {
+        if (qr.isDark(x, y)) {
+          path.push(`M${x + margin},${y + margin}h1v1h-1z`);
+        }
+      }
+    }
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges">`,
+      `<rect width="${dimension}" height="${dimension}" fill="#ffffff"/>`,
+      `<path d="${path.join('')}" fill="#000000"/>`,
+      '</svg>'
+    ].join('');
+  }
+
+  static toPng(qr: QrCode, { scale = 8, margin = 4 }: QrRenderOptions = {}): Buffer {
+    const dimension = (qr.size + margin * 2) * scale;
+    const rows = Buffer.alloc((dimension + 1) * dimension);
+    for (let py = 0; py < dimension; py++) {
+      const offset = py * (dimension + 1);
+      rows[offset] = 0;
+      for (let px = 0; px < dimension; px++) {
+        const dark = qr.isDark(Math.floor(px / scale) - margin, Math.floor(py / scale) - margin);
+        rows[offset + 1 + px] = dark ? 0x00 : 0xff;
+      }
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(dimension, 0);
+    header.writeUInt32BE(dimension, 4);
+    header.set([8, 0, 0, 0, 0], 8);
+
+    return Buffer.concat([
+      PNG_SIGNATURE,
+      this.chunk('IHDR', header),
+      this.chunk('IDAT', deflateSync(rows)),
+      this.chunk('IEND', Buffer.alloc(0))
+    ]);
+  }
+
+  static crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+      crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+
+  private static chunk(type: string, data: Buffer): Buffer {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(this.crc32(body));
+    return Buffer.concat([length, body, crc]);
+  }
+}
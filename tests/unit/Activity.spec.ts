@@ -0,0 +1,82 @@
+import { join } from 'path';
+import { Activity, ActivityData } from '../../src/domain/activities/Activity';
+import { InMemoryActivityCatalog } from '../../src/domain/activities/ActivityCatalog';
+import { FileActivityCatalog } from '../../src/domain/activities/FileActivityCatalog';
+import { ValidationError } from '../../src/errors/DomainError';
+import { CurrencyUtils } from '../../src/utils/Currency';
+
+function activityData(overrides: Partial<ActivityData> = {}): ActivityData {
+  return {
+    id: 'act_madrid_tour_2024',
+    names: { es: 'Tour a pie por Madrid', en: 'Madrid City Walking Tour' },
+    schedule: {
+      daysOfWeek: ['mon', 'wed', 'fri', 'sat', 'sun'],
+      slots: [{ time: '10:00', capacity: 20 }, { time: '16:00', capacity: 10 }],
+      startDate: '2024-03-01',
+      endDate: '2024-12-31'
+    },
+    pricePerPerson: CurrencyUtils.create(44.95, 'EUR'),
+    ...overrides
+  };
+}
+
+describe('Activity', () => {
+  it('should return the name in the requested language', () => {
+    expect(new Activity(activityData()).nameIn('es')).toBe('Tour a pie por Madrid');
+  });
+
+  it('should fall back to English, then to any name', () => {
+    expect(new Activity(activityData()).nameIn('fr')).toBe('Madrid City Walking Tour');
+    expect(new Activity(activityData({ names: { ca: 'Tour per Madrid' } })).nameIn('fr')).toBe('Tour per Madrid');
+  });
+
+  it('should run only on scheduled weekdays within the season', () => {
+    const activity = new Activity(activityData());
+
+    expect(activity.runsOn('2024-12-15')).toBe(true);
+    expect(activity.runsOn('2024-12-17')).toBe(false);
+    expect(activity.runsOn('2024-02-25')).toBe(false);
+    expect(activity.runsOn('2025-01-05')).toBe(false);
+  });
+
+  it('should find slots by time on days it runs', () => {
+    const activity = new Activity(activityData());
+
+    expect(activity.slotAt('2024-12-15', '16:00')).toEqual({ time: '16:00', capacity: 10 });
+    expect(activity.slotAt('2024-12-15', '12:00')).toBeUndefined();
+    expect(activity.slotAt('2024-12-17', '10:00')).toBeUndefined();
+  });
+
+  it('should reject invalid definitions', () => {
+    expect(() => new Activity(activityData({ id: 'madrid' }))).toThrow(ValidationError);
+    expect(() => new Activity(activityData({ names: {} }))).toThrow('Activity needs a name in at least one language');
+    expect(() => new Activity(activityData({
+      schedule: { daysOfWeek: ['mon'], slots: [{ time: '10:00', capacity: 0 }] }
+    }))).toThrow(expect.objectContaining({
+      validationErrors: [expect.objectContaining({ field: 'schedule.slots[0].capacity' })]
+    }));
+  });
+});
+
+describe('InMemoryActivityCatalog', () => {
+  it('should find activities by id', async () => {
+    const activity = new Activity(activityData());
+    const catalog = new InMemoryActivityCatalog([activity]);
+
+    expect(await catalog.findById('act_madrid_tour_2024')).toBe(activity);
+    expect(await catalog.findById('act_unknown')).toBeUndefined();
+    expect(await catalog.findAll()).toEqual([activity]);
+  });
+});
+
+describe('FileActivityCatalog', () => {
+  it('should load the bundled activity catalog', async () => {
+    const catalog = new FileActivityCatalog(join(__dirname, '../../data/activities.json'));
+    const madrid = await catalog.findById('act_madrid_tour_2024');
+
+    expect(madrid?.nameIn('en')).toBe('Madrid City Walking Tour');
+    expect(madrid?.pricePerPerson).toEqual(CurrencyUtils.create(44.95, 'EUR'));
+    expect(madrid?.slotAt('2024-12-15', '10:00')?.capacity).toBe(20);
+    expect((await catalog.findAll()).length).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,110 @@
+import { ContractValidator, OpenApiDocument } from '../../src/api/ContractValidator';
+
+const document: OpenApiDocument = {
+  paths: {
+    '/widgets': {
+      get: {
+        operationId: 'listWidgets',
+        parameters: [
+          { $ref: '#/components/parameters/Limit' },
+          { name: 'active', in: 'query', schema: { type: 'boolean' } },
+          { name: 'X-Trace', in: 'header', schema: { type: 'string' } }
+        ]
+      }
+    }
+  },
+  components: {
+    parameters: {
+      Limit: { name: 'limit', in: 'query', required: true, schema: { type: 'integer', minimum: 1, maximum: 100 } }
+    },
+    schemas: {
+      Widget: {
+        type: 'object',
+        required: ['serialNumber', 'owner'],
+        additionalProperties: false,
+        properties: {
+          serialNumber: { type: 'string', title: 'Serial', pattern: '^W-\\d{4}$', example: 'W-0001' },
+          owner: { type: 'string', format: 'email' },
+          madeOn: { type: 'string', format: 'date' },
+          weight: { type: 'number', minimum: 0.5 },
+          colour: { type: 'string', enum: ['red', 'blue'] },
+          tags: { type: 'array', maxItems: 2, items: { $ref: '#/components/schemas/Tag' } }
+        }
+      },
+      Tag: { type: 'string', minLength: 2, maxLength: 8 }
+    }
+  }
+};
+
+describe('ContractValidator', () => {
+  const validator = new ContractValidator(document);
+
+  it('should accept a value matching the schema', () => {
+    expect(validator.validateSchema('Widget', { serialNumber: 'W-1234', owner: 'ana@example.com', tags: ['new'] })).toEqual([]);
+  });
+
+  it('should label fields from their title or property name', () => {
+    expect(validator.validateSchema('Widget', {})).toEqual([
+      { field: 'serialNumber', message: 'Serial is required', code: 'FIELD_REQUIRED' },
+      { field: 'owner', message: 'Owner is required', code: 'FIELD_REQUIRED' }
+    ]);
+  });
+
+  it('should take the expected format from the schema example or format', () => {
+    const errors = validator.validateSchema('Widget', { serialNumber: 'X', owner: 'ana@example.com', madeOn: '2024-02-30' });
+
+    expect(errors).toEqual([
+      { field: 'serialNumber', message: 'Serial format is invalid', code: 'INVALID_FORMAT', rejectedValue: 'X', expectedFormat: 'W-0001' },
+      { field: 'madeOn', message: 'Made on format is invalid', code: 'INVALID_FORMAT', rejectedValue: '2024-02-30', expectedFormat: '2024-12-15' }
+    ]);
+  });
+
+  it('should explain why an email address is invalid', () => {
+    const [error] = validator.validateSchema('Widget', { serialNumber: 'W-1234', owner: 'ana@' });
+
+    expect(error.field).toBe('owner');
+    expect(error.message).toMatch(/^Owner format is invalid: /);
+    expect(error.expectedFormat).toBe('user@example.com');
+  });
+
+  it('should report ranges, enums, lengths and unknown fields', () => {
+    const errors = validator.validateSchema('Widget', {
+      serialNumber: 'W-1234',
+      owner: 'ana@example.com',
+      weight: 0.1,
+      colour: 'green',
+      tags: ['a', 'ok', 'fine'],
+      secret: true
+    });
+
+    expect(errors).toEqual([
+      { field: 'secret', message: 'Field is not accepted by this request', code: 'INVALID_VALUE', rejectedValue: true },
+      { field: 'weight', message: 'Weight must be at least 0.5', code: 'OUT_OF_RANGE', rejectedValue: 0.1, allowedRange: { min: 0.5 } },
+      { field: 'colour', message: 'Colour must be one of red, blue', code: 'INVALID_VALUE', rejectedValue: 'green' },
+      { field: 'tags', message: 'Tags must have at most 2 entries', code: 'INVALID_VALUE' },
+      { field: 'tags[0]', message: 'Tags must be between 2 and 8 characters', code: 'INVALID_VALUE', rejectedValue: 'a' }
+    ]);
+  });
+
+  it('should coerce query parameters and report the raw value', () => {
+    expect(validator.validateQuery('listWidgets', new URLSearchParams({ limit: '10', active: 'true' }))).toEqual([]);
+    expect(validator.validateQuery('listWidgets', new URLSearchParams({ limit: '500', active: 'yes' }))).toEqual([
+      { field: 'limit', message: 'limit must be between 1 and 100', code: 'OUT_OF_RANGE', rejectedValue: '500', allowedRange: { min: 1, max: 100 } },
+      { field: 'active', message: 'active must be a boolean', code: 'INVALID_VALUE', rejectedValue: 'yes' }
+    ]);
+  });
+
+  it('should require query parameters marked as required', () => {
+    expect(validator.validateQuery('listWidgets', new URLSearchParams())).toEqual([
+      { field: 'limit', message: 'limit is required', code: 'FIELD_REQUIRED' }
+    ]);
+  });
+
+  it('should reject operations missing from the contract', () => {
+    expect(() => validator.validateQuery('deleteWidget', new URLSearchParams())).toThrow('Operation deleteWidget is not defined in the contract');
+  });
+
+  it('should load the bundled reservations contract', () => {
+    expect(ContractValidator.fromFile().validateSchema('Money', { value: 10, currency: 'EUR' })).toEqual([]);
+  });
+});
@@ -1,4 +1,5 @@
-import { CurrencyUtils } from '../../src/utils/Currency';
+import { CurrencyMismatchError, CurrencyUtils } from '../../src/utils/Currency';
+import { ValidationError } from '../../src/errors/DomainError';
 
 describe('CurrencyUtils', () => {
   describe('create', () => {
@@ -14,8 +15,30 @@ describe('CurrencyUtils', () => {
       expect(currency.currency).toBe('USD');
     });
 
+    it('should store amounts as integer minor units', () => {
+      expect(CurrencyUtils.create(89.9, 'EUR').minorUnits).toBe(8990);
+      expect(CurrencyUtils.create(0.29, 'USD').minorUnits).toBe(29);
+      expect(CurrencyUtils.create(1500, 'JPY').minorUnits).toBe(1500);
+    });
+
+    it('should reject more decimal places than the currency allows', () => {
+      expect(() => CurrencyUtils.create(10.005, 'EUR')).toThrow('Amount must have at most 2 decimal places for EUR');
+      expect(() => CurrencyUtils.create(10.5, 'JPY')).toThrow('Amount must have at most 0 decimal places for JPY');
+      expect(() => CurrencyUtils.create(0.1 + 0.2, 'EUR')).toThrow(ValidationError);
+      expect(CurrencyUtils.create(1.234, 'KWD').minorUnits).toBe(1234);
+    });
+
+    it('should reject non-finite amounts', () => {
+      expect(() => CurrencyUtils.create(NaN)).toThrow(ValidationError);
+      expect(() => CurrencyUtils.create(Infinity)).toThrow(ValidationError);
+    });
+
     it('should reject negative amounts', () => {
       expect(() => CurrencyUtils.create(-10)).toThrow('Amount cannot be negative');
+      expect(() => CurrencyUtils.create(-10)).toThrow(ValidationError);
+      expect(() => CurrencyUtils.create(-10)).toThrow(expect.objectContaining({
+        validationErrors: [expect.objectContaining({ field: 'amount', code: 'INVALID_VALUE', rejectedValue: -10 })]
+      }));
     });
   });
 
@@ -34,6 +57,123 @@ describe('CurrencyUtils', () => {
       const b = CurrencyUtils.create(50, 'USD');
 
       expect(() => CurrencyUtils.add(a, b)).toThrow('Cannot add different currencies');
+      expect(() => CurrencyUtils.add(a, b)).toThrow(CurrencyMismatchError);
+      expect(() => CurrencyUtils.add(a, b)).toThrow(expect.objectContaining({
+        code: 'CURRENCY_MISMATCH',
+        details: { expected: 'EUR', actual: 'USD' }
+      }));
+    });
+  });
+
+  describe('fromMinorUnits', () => {
+    it('should derive the decimal amount from the currency exponent', () => {
+      expect(CurrencyUtils.fromMinorUnits(8990, 'EUR')).toEqual({ amount: 89.9, currency: 'EUR', minorUnits: 8990 });
+      expect(CurrencyUtils.fromMinorUnits(8990, 'JPY').amount).toBe(8990);
+    });
+
+    it('should reject fractional and negative minor units', () => {
+      expect(() => CurrencyUtils.fromMinorUnits(1.5)).toThrow(ValidationError);
+      expect(() => CurrencyUtils.fromMinorUnits(-1)).toThrow('Amount cannot be negative');
+    });
+  });
+
+  describe('add without floating point drift', () => {
+    it('should add 0.1 and 0.2 exactly', () => {
+      const sum = CurrencyUtils.add(CurrencyUtils.create(0.1), CurrencyUtils.create(0.2));
+
+      expect(sum.amount).toBe(0.3);
+      expect(sum.minorUnits).toBe(30);
+    });
+  });
+
+  describe('subtract', () => {
+    it('should subtract amounts of the same currency', () => {
+      const result = CurrencyUtils.subtract(CurrencyUtils.create(100), CurrencyUtils.create(0.01));
+
+      expect(result.amount).toBe(99.99);
+    });
+
+    it('should reject results below zero and mismatched currencies', () => {
+      expect(() => CurrencyUtils.subtract(CurrencyUtils.create(1), CurrencyUtils.create(2)))
+        .toThrow('Amount cannot be negative');
+      expect(() => CurrencyUtils.subtract(CurrencyUtils.create(1, 'EUR'), CurrencyUtils.create(1, 'USD')))
+        .toThrow('Cannot subtract different currencies');
+    });
+  });
+
+  describe('multiply', () => {
+    it('should multiply by a quantity', () => {
+      expect(CurrencyUtils.multiply(CurrencyUtils.create(19.99), 3).amount).toBe(59.97);
+      expect(CurrencyUtils.multiply(CurrencyUtils.create(19.99), 0).amount).toBe(0);
+    });
+
+    it('should reject fractional or negative quantities', () => {
+      expect(() => CurrencyUtils.multiply(CurrencyUtils.create(10), 1.5)).toThrow('Quantity must be a non-negative integer');
+      expect(() => CurrencyUtils.multiply(CurrencyUtils.create(10), -1)).toThrow(ValidationError);
+    });
+  });
+
+  describe('allocate', () => {
+    it('should split without losing cents, giving the remainder to the first shares', () => {
+      const shares = CurrencyUtils.split(CurrencyUtils.create(100), 3);
+
+      expect(shares.map(share => share.amount)).toEqual([33.34, 33.33, 33.33]);
+    });
+
+    it('should allocate by ratio', () => {
+      const shares = CurrencyUtils.allocate(CurrencyUtils.create(0.05), [3, 7]);
+
+      expect(shares.map(share => share.amount)).toEqual([0.02, 0.03]);
+    });
+
+    it('should never give remainder units to zero ratios', () => {
+      const shares = CurrencyUtils.allocate(CurrencyUtils.create(1001, 'JPY'), [0, 1, 1]);
+
+      expect(shares.map(share => share.amount)).toEqual([0, 501, 500]);
+    });
+
+    it('should never allocate more than the amount when ratio division rounds up', () => {
+      const amount = CurrencyUtils.fromMinorUnits(8788765115839148, 'JPY');
+
+      const shares = CurrencyUtils.allocate(amount, [0.5, 0.1, 0.3]);
+
+      expect(shares.map(share => share.minorUnits)).toEqual([4882647286577305, 976529457315461, 2929588371946382]);
+      expect(shares.reduce((sum, share) => sum + share.minorUnits, 0)).toBe(amount.minorUnits);
+    });
+
+    it('should handle ratios of any magnitude', () => {
+      const shares = CurrencyUtils.allocate(CurrencyUtils.create(1), [Number.MIN_VALUE, 1]);
+
+      expect(shares.map(share => share.minorUnits)).toEqual([1, 99]);
+    });
+
+    it('should reject invalid ratios and part counts', () => {
+      expect(() => CurrencyUtils.allocate(CurrencyUtils.create(10), [])).toThrow(ValidationError);
+      expect(() => CurrencyUtils.allocate(CurrencyUtils.create(10), [0, 0])).toThrow(ValidationError);
+      expect(() => CurrencyUtils.allocate(CurrencyUtils.create(10), [1, -1])).toThrow(ValidationError);
+      expect(() => CurrencyUtils.split(CurrencyUtils.create(10), 0)).toThrow('Parts must be a positive integer');
+    });
+  });
+
+  describe('comparison', () => {
+    it('should compare amounts of the same currency', () => {
+      const small = CurrencyUtils.create(10);
+      const large = CurrencyUtils.create(10.01);
+
+      expect(CurrencyUtils.compare(small, large)).toBe(-1);
+      expect(CurrencyUtils.compare(large, small)).toBe(1);
+      expect(CurrencyUtils.compare(small, CurrencyUtils.create(10))).toBe(0);
+      expect(CurrencyUtils.lessThan(small, large)).toBe(true);
+      expect(CurrencyUtils.greaterThan(small, large)).toBe(false);
+      expect(CurrencyUtils.isZero(CurrencyUtils.zero('USD'))).toBe(true);
+    });
+
+    it('should treat different currencies as unequal but refuse to order them', () => {
+      const eur = CurrencyUtils.create(10, 'EUR');
+      const usd = CurrencyUtils.create(10, 'USD');
+
+      expect(CurrencyUtils.equals(eur, usd)).toBe(false);
+      expect(() => CurrencyUtils.compare(eur, usd)).toThrow('Cannot compare different currencies');
     });
   });
 
@@ -47,5 +187,11 @@ describe('CurrencyUtils', () => {
       const currency = CurrencyUtils.create(100, 'USD');
       expect(CurrencyUtils.format(currency)).toBe('100.00 USD');
     });
+
+    it('should format with the decimals of each currency', () => {
+      expect(CurrencyUtils.format(CurrencyUtils.create(1500, 'JPY'))).toBe('1500 JPY');
+      expect(CurrencyUtils.format(CurrencyUtils.create(0.05, 'EUR'))).toBe('0.05 EUR');
+      expect(CurrencyUtils.format(CurrencyUtils.create(1.5, 'KWD'))).toBe('1.500 KWD');
+    });
   });
 });
@@ -0,0 +1,112 @@
+import { CurrencyConverter } from '../../src/utils/CurrencyConverter';
+import { CurrencyUtils } from '../../src/utils/Currency';
+import { ExchangeRateNotFoundError, StaticExchangeRateProvider } from '../../src/utils/ExchangeRateProvider';
+
+const rates = new StaticExchangeRateProvider({
+  USD: 1.08,
+  GBP: 0.85,
+  JPY: 162.5,
+  CHF: 0.95,
+  CAD: 1.47,
+  AUD: 1.65
+}, 'EUR');
+
+describe('CurrencyConverter', () => {
+  const converter = new CurrencyConverter(rates);
+
+  describe('convert', () => {
+    it('should convert from the base currency', async () => {
+      const result = await converter.convert(CurrencyUtils.create(100, 'EUR'), 'USD');
+
+      expect(result).toEqual(CurrencyUtils.create(108, 'USD'));
+    });
+
+    it('should convert to the base currency', async () => {
+      const result = await converter.convert(CurrencyUtils.create(108, 'USD'), 'EUR');
+
+      expect(result.amount).toBe(100);
+    });
+
+    it('should convert between two non-base currencies through the base', async () => {
+      const result = await converter.convert(CurrencyUtils.create(85, 'GBP'), 'USD');
+
+      expect(result.amount).toBe(108);
+    });
+
+    it('should respect the decimals of the target currency', async () => {
+      const result = await converter.convert(CurrencyUtils.create(10.01, 'EUR'), 'JPY');
+
+      expect(result).toEqual({ amount: 1627, currency: 'JPY', minorUnits: 1627 });
+    });
+
+    it('should return the same amount when no conversion is needed', async () => {
+      const amount = CurrencyUtils.create(42.42, 'CHF');
+
+      expect(await converter.convert(amount, 'CHF')).toEqual(amount);
+    });
+
+    it('should fail with a typed error when a rate is missing', async () => {
+      await expect(converter.convert(CurrencyUtils.create(10, 'EUR'), 'MXN')).rejects.toThrow(ExchangeRateNotFoundError);
+      await expect(converter.convert(CurrencyUtils.create(10, 'MXN'), 'EUR'))
+        .rejects.toThrow('No exchange rate available from MXN to EUR');
+    });
+  });
+
+  describe('rounding modes', () => {
+    // 0.05 EUR at 1.5 = 0.075 USD, exactly halfway between 0.07 and 0.08
+    const halfway = new CurrencyConverter(new StaticExchangeRateProvider({ USD: 1.5 }));
+    const amount = CurrencyUtils.create(0.05, 'EUR');
+
+    it.each([
+      ['HALF_EVEN', 0.08],
+      ['HALF_UP', 0.08],
+      ['HALF_DOWN', 0.07],
+      ['UP', 0.08],
+      ['DOWN', 0.07]
+    ] as const)('should round %s', async (mode, expected) => {
+      expect((await halfway.convert(amount, 'USD', mode)).amount).toBe(expected);
+    });
+
+    it('should round half to even by default', async () => {
+      // 0.07 EUR at 1.5 = 0.105 USD
+      expect((await halfway.convert(CurrencyUtils.create(0.07, 'EUR'), 'USD')).amount).toBe(0.10);
+    });
+
+    it('should use the rounding mode configured on the converter', async () => {
+      const truncating = new CurrencyConverter(new StaticExchangeRateProvider({ USD: 1.5 }), { roundingMode: 'DOWN' });
+
+      expect((await truncating.convert(CurrencyUtils.create(0.09, 'EUR'), 'USD')).amount).toBe(0.13);
+    });
+  });
+
+  describe('sumIn', () => {
+    it('should total a mixed-currency basket in the target currency', async () => {
+      const total = await converter.sumIn([
+        CurrencyUtils.create(50, 'EUR'),
+        CurrencyUtils.create(54, 'USD'),
+        CurrencyUtils.create(8125, 'JPY')
+      ], 'EUR');
+
+      expect(total).toEqual(CurrencyUtils.create(150, 'EUR'));
+    });
+
+    it('should round once so the order of amounts does not matter', async () => {
+      const amounts = [
+        CurrencyUtils.create(0.01, 'USD'),
+        CurrencyUtils.create(0.01, 'USD'),
+        CurrencyUtils.create(0.01, 'GBP'),
+        CurrencyUtils.create(1, 'JPY')
+      ];
+
+      const forward = await converter.sumIn(amounts, 'CHF');
+      const backward = await converter.sumIn([...amounts].reverse(), 'CHF');
+
+      expect(forward).toEqual(backward);
+      expect(forward.amount).toBe(0.03);
+    });
+
+    it('should return zero in the target currency for an empty basket', async () => {
+      expect(await converter.sumIn([], 'AUD')).toEqual(CurrencyUtils.zero('AUD'));
+    });
+  });
+});
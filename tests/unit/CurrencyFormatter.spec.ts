@@ -0,0 +1,74 @@
+import { CurrencyFormatter } from '../../src/utils/CurrencyFormatter';
+import { CurrencyUtils } from '../../src/utils/Currency';
+import { ValidationError } from '../../src/errors/DomainError';
+
+const NBSP = '\u00A0';
+const NARROW_NBSP = '\u202F';
+
+describe('CurrencyFormatter', () => {
+  describe('format', () => {
+    const amount = CurrencyUtils.create(1234567.5, 'EUR');
+
+    it.each([
+      ['es', `1.234.567,50${NBSP}€`],
+      ['en', '€1,234,567.50'],
+      ['fr', `1${NARROW_NBSP}234${NARROW_NBSP}567,50${NBSP}€`],
+      ['de', `1.234.567,50${NBSP}€`],
+      ['it', `1.234.567,50${NBSP}€`],
+      ['pt', `€${NBSP}1.234.567,50`],
+      ['ca', `1.234.567,50${NBSP}€`]
+    ] as const)('should format amounts for %s', (locale, expected) => {
+      expect(CurrencyFormatter.format(amount, locale)).toBe(expected);
+    });
+
+    it('should use the decimals of each currency', () => {
+      expect(CurrencyFormatter.format(CurrencyUtils.create(1500, 'JPY'), 'en')).toBe('¥1,500');
+      expect(CurrencyFormatter.format(CurrencyUtils.create(0.05, 'GBP'), 'en')).toBe('£0.05');
+    });
+
+    it('should not group four-digit amounts in Spanish', () => {
+      expect(CurrencyFormatter.format(CurrencyUtils.create(1234.5, 'EUR'), 'es')).toBe(`1234,50${NBSP}€`);
+      expect(CurrencyFormatter.format(CurrencyUtils.create(12345.5, 'EUR'), 'es')).toBe(`12.345,50${NBSP}€`);
+    });
+
+    it('should separate alphabetic symbols and unknown codes from the number', () => {
+      expect(CurrencyFormatter.format(CurrencyUtils.create(89.9, 'CHF'), 'en')).toBe(`CHF${NBSP}89.90`);
+      expect(CurrencyFormatter.format(CurrencyUtils.create(89.9, 'SEK'), 'de')).toBe(`89,90${NBSP}SEK`);
+      expect(CurrencyFormatter.format(CurrencyUtils.create(89.9, 'CAD'), 'en')).toBe('CA$89.90');
+    });
+  });
+
+  describe('parse', () => {
+    it('should parse localized strings back into currencies', () => {
+      expect(CurrencyFormatter.parse('1.234,50 €', 'es')).toEqual(CurrencyUtils.create(1234.5, 'EUR'));
+      expect(CurrencyFormatter.parse('$1,234.50', 'en')).toEqual(CurrencyUtils.create(1234.5, 'USD'));
+      expect(CurrencyFormatter.parse('1 234,50 €', 'fr')).toEqual(CurrencyUtils.create(1234.5, 'EUR'));
+      expect(CurrencyFormatter.parse('A$ 12', 'en')).toEqual(CurrencyUtils.create(12, 'AUD'));
+      expect(CurrencyFormatter.parse('¥1,500', 'en')).toEqual(CurrencyUtils.create(1500, 'JPY'));
+    });
+
+    it('should accept ISO codes in place of symbols', () => {
+      expect(CurrencyFormatter.parse('89,90 EUR', 'de')).toEqual(CurrencyUtils.create(89.9, 'EUR'));
+      expect(CurrencyFormatter.parse('SEK 89.90', 'en')).toEqual(CurrencyUtils.create(89.9, 'SEK'));
+    });
+
+    it('should reject text using another locale\'s separators', () => {
+      expect(() => CurrencyFormatter.parse('€1,234.50', 'de')).toThrow(ValidationError);
+      expect(() => CurrencyFormatter.parse('1.234,50 €', 'en')).toThrow('Cannot parse "1.234,50 €" as a currency amount for locale en');
+    });
+
+    it('should reject malformed grouping, missing currencies and empty numbers', () => {
+      expect(() => CurrencyFormatter.parse('12.34.567,00 €', 'es')).toThrow(ValidationError);
+      expect(() => CurrencyFormatter.parse('1234,50', 'es')).toThrow(ValidationError);
+      expect(() => CurrencyFormatter.parse('€', 'en')).toThrow(ValidationError);
+      expect(() => CurrencyFormatter.parse('12, €', 'es')).toThrow(ValidationError);
+    });
+
+    it('should reject more decimals than the currency allows', () => {
+      expect(() => CurrencyFormatter.parse('¥1,500.5', 'en')).toThrow('Amount must have at most 0 decimal places for JPY');
+      expect(() => CurrencyFormatter.parse('1,999 €', 'es')).toThrow(expect.objectContaining({
+        validationErrors: [expect.objectContaining({ expectedFormat: `1234,56${NBSP}€` })]
+      }));
+    });
+  });
+});
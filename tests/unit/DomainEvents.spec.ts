@@ -0,0 +1,357 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { InMemoryEventBus } from '../../src/domain/events/EventBus';
+import { EventDeliveryError } from '../../src/domain/events/EventErrors';
+import { FileOutbox } from '../../src/domain/events/FileOutbox';
+import { InMemoryOutbox } from '../../src/domain/events/Outbox';
+import { OutboxRelay } from '../../src/domain/events/OutboxRelay';
+import { Reservation } from '../../src/domain/reservations/Reservation';
+import { ReservationEvent, ReservationEvents } from '../../src/domain/reservations/ReservationEvents';
+import { EmailValidator } from '../../src/utils/Email';
+import { CurrencyUtils } from '../../src/utils/Currency';
+
+function reservation(): Reservation {
+  return Reservation.create({
+    activityId: 'act_madrid_tour_2024',
+    date: '2024-12-15',
+    numberOfPeople: 2,
+    name: 'John Doe',
+    email: EmailValidator.validate('john@example.com'),
+    amount: CurrencyUtils.create(89.90, 'EUR')
+  });
+}
+
+describe('ReservationEvents', () => {
+  it('should carry a JSON-safe snapshot of the reservation', () => {
+    const created = reservation();
+    const event = ReservationEvents.created(created);
+
+    expect(event).toMatchObject({ type: 'reservation.created', aggregateId: created.id });
+    expect(event.payload.reservation.createdAt).toBe(created.createdAt.toISOString());
+    expect(JSON.parse(JSON.stringify(event))).toEqual(event);
+  });
+
+  it('should name the status a reservation moved to and from', () => {
+    const pending = reservation();
+    const event = ReservationEvents.statusChanged(pending.confirm(), pending.status);
+
+    expect(event.type).toBe('reservation.confirmed');
+    expect(event.payload.previousStatus).toBe('pending');
+  });
+
+  it('should list only the fields that were supplied in an update', () => {
+    const event = ReservationEvents.updated(reservation(), { numberOfPeople: 3, phone: undefined });
+
+    expect(event.payload.changedFields).toEqual(['numberOfPeople']);
+  });
+});
+
+describe('InMemoryEventBus', () => {
+  it('should deliver events to subscribers of their type and to catch-all subscribers', async () => {
+    const bus = new InMemoryEventBus<ReservationEvent>();
+    const received: string[] = [];
+    bus.subscribe('reservation.created', event => { received.push(`created:${event.payload.reservation.name}`); });
+    bus.subscribe('reservation.cancelled', () => { received.push('cancelled'); });
+    bus.subscribeAll(event => { received.push(`all:${event.type}`); });
+
+    await bus.publish(ReservationEvents.created(reservation()));
+
+    expect(received).toEqual(['created:John Doe', 'all:reservation.created']);
+  });
+
+  it('should stop delivering to unsubscribed handlers', async () => {
+    const bus = new InMemoryEventBus<ReservationEvent>();
+    const handler = jest.fn();
+    const unsubscribe = bus.subscribe('reservation.created', handler);
+
+    unsubscribe();
+    await bus.publish(ReservationEvents.created(reservation()));
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should run every handler and report the ones that failed', async () => {
+    const bus = new InMemoryEventBus<ReservationEvent>();
+    const handler = jest.fn();
+    bus.subscribeAll(() => { throw new Error('analytics unavailable'); });
+    bus.subscribeAll(handler);
+    const event = ReservationEvents.created(reservation());
+
+    const error = await bus.publish(event).catch(caught => caught);
+
+    expect(handler).toHaveBeenCalledWith(event);
+    expect(error).toBeInstanceOf(EventDeliveryError);
+    expect(error.details).toEqual({ eventId: event.id, eventType: 'reservation.created', failures: ['analytics unavailable'] });
+  });
+
+  it('should name the handlers that succeeded and skip them when asked', async () => {
+    const bus = new InMemoryEventBus<ReservationEvent>();
+    const mailer = jest.fn();
+    bus.subscribe('reservation.created', mailer, 'mailer');
+    bus.subscribeAll(() => { throw new Error('analytics unavailable'); }, 'analytics');
+    const event = ReservationEvents.created(reservation());
+
+    const error = await bus.publish(event).catch(caught => caught);
+    await bus.publish(event, { skip: ['mailer', 'analytics'] });
+
+    expect(error.delivered).toEqual(['mailer']);
+    expect(mailer).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse two handlers with the same name', () => {
+    const bus = new InMemoryEventBus<ReservationEvent>();
+    bus.subscribe('reservation.created', jest.fn(), 'mailer');
+
+    expect(() => bus.subscribeAll(jest.fn(), 'mailer')).toThrow('An event handler named mailer is already subscribed');
+  });
+});
+
+describe('InMemoryOutbox', () => {
+  it('should hold back staged events until they are committed', async () => {
+    const outbox = new InMemoryOutbox<ReservationEvent>();
+    const event = ReservationEvents.created(reservation());
+
+    await outbox.append([event]);
+    expect(await outbox.pending()).toEqual([]);
+    expect((await outbox.staged()).map(entry => entry.event)).toEqual([event]);
+
+    await outbox.commit([event.id]);
+    expect((await outbox.pending()).map(entry => entry.event)).toEqual([event]);
+    expect(await outbox.staged()).toEqual([]);
+  });
+
+  it('should move dead-lettered events out of the pending list', async () => {
+    const outbox = new InMemoryOutbox<ReservationEvent>();
+    const event = ReservationEvents.created(reservation());
+    await outbox.append([event]);
+    await outbox.commit([event.id]);
+
+    await outbox.markFailed(event.id, { error: 'timeout', deliveredTo: ['mailer'], deadLetter: false });
+    await outbox.markFailed(event.id, { error: 'still down', deliveredTo: ['audit'], deadLetter: true });
+
+    expect(await outbox.pending()).toEqual([]);
+    expect(await outbox.deadLettered()).toEqual([expect.objectContaining({
+      attempts: 2,
+      deliveredTo: ['mailer', 'audit'],
+      lastError: 'still down',
+      deadLetteredAt: expect.any(String)
+    })]);
+  });
+});
+
+describe('FileOutbox', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'outbox-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep pending events and delivery attempts across instances', async () => {
+    const filePath = join(dir, 'outbox.jsonl');
+    const [first, second] = [ReservationEvents.created(reservation()), ReservationEvents.created(reservation())];
+    const outbox = new FileOutbox<ReservationEvent>(filePath);
+    await outbox.append([first, second]);
+    await outbox.commit([first.id, second.id]);
+    await outbox.markFailed(first.id, { error: 'timeout', deliveredTo: ['mailer'], deadLetter: false });
+
+    const reloaded = await new FileOutbox<ReservationEvent>(filePath).pending();
+
+    expect(reloaded.map(entry => entry.event)).toEqual([first, second]);
+    expect(reloaded[0]).toMatchObject({ attempts: 1, lastError: 'timeout', deliveredTo: ['mailer'] });
+    expect(reloaded[1].attempts).toBe(0);
+  });
+
+  it('should keep staged and dead-lettered events across instances', async () => {
+    const filePath = join(dir, 'outbox.jsonl');
+    const [staged, dead] = [ReservationEvents.created(reservation()), ReservationEvents.created(reservation())];
+    const outbox = new FileOutbox<ReservationEvent>(filePath);
+    await outbox.append([staged, dead]);
+    await outbox.commit([dead.id]);
+    await outbox.markFailed(dead.id, { error: 'timeout', deliveredTo: [], deadLetter: true });
+
+    const reloaded = new FileOutbox<ReservationEvent>(filePath);
+
+    expect((await reloaded.staged()).map(entry => entry.event)).toEqual([staged]);
+    expect((await reloaded.deadLettered()).map(entry => entry.event)).toEqual([dead]);
+    expect(await reloaded.pending()).toEqual([]);
+  });
+
+  it('should drop delivered and discarded events from the file', async () => {
+    const filePath = join(dir, 'outbox.jsonl');
+    const [first, second] = [ReservationEvents.created(reservation()), ReservationEvents.created(reservation())];
+    const outbox = new FileOutbox<ReservationEvent>(filePath);
+    await outbox.append([first, second]);
+
+    await outbox.markDelivered(first.id);
+    await outbox.discard([second.id]);
+
+    expect(readFileSync(filePath, 'utf-8')).toBe('');
+    expect(await new FileOutbox(filePath).pending()).toEqual([]);
+  });
+
+  it('should read the file again after a failed load', async () => {
+    const filePath = join(dir, 'outbox.jsonl');
+    writeFileSync(filePath, '{not json\n');
+    const outbox = new FileOutbox<ReservationEvent>(filePath);
+    await expect(outbox.pending()).rejects.toThrow();
+
+    writeFileSync(filePath, '');
+
+    expect(await outbox.pending()).toEqual([]);
+  });
+});
+
+describe('OutboxRelay', () => {
+  async function committed(events: ReservationEvent[]): Promise<InMemoryOutbox<ReservationEvent>> {
+    const outbox = new InMemoryOutbox<ReservationEvent>();
+    await outbox.append(events);
+    await outbox.commit(events.map(event => event.id));
+    return outbox;
+  }
+
+  it('should publish pending events in order and remove them once delivered', async () => {
+    const bus = new InMemoryEventBus<ReservationEvent>();
+    const received: string[] = [];
+    bus.subscribeAll(event => { received.push(event.id); });
+    const events = [ReservationEvents.created(reservation()), ReservationEvents.created(reservation())];
+    const outbox = await committed(events);
+
+    expect(await new OutboxRelay(outbox, bus).deliverPending()).toBe(2);
+    expect(received).toEqual(events.map(event => event.id));
+    expect(await outbox.pending()).toEqual([]);
+  });
+
+  it('should not deliver events whose change has not been stored yet', async () => {
+    const outbox = new InMemoryOutbox<ReservationEvent>();
+    const bus = new InMemoryEventBus<ReservationEvent>();
+    const handler = jest.fn();
+    bus.subscribeAll(handler);
+    await outbox.append([ReservationEvents.created(reservation())]);
+
+    expect(await new OutboxRelay(outbox, bus).deliverPending()).toBe(0);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should redeliver failed events and hold back later events of the same reservation', async () => {
+    const bus = new InMemoryEventBus<ReservationEvent>();
+    const received: string[] = [];
+    let failing = true;
+    bus.subscribeAll(event => {
+      if (failing && event.type === 'reservation.created') {
+        throw new Error('consumer down');
+      }
+      received.push(event.type);
+    });
+    const pending = reservation();
+    const other = reservation();
+    const outbox = await committed([
+      ReservationEvents.created(pending),
+      ReservationEvents.statusChanged(pending.confirm(), 'pending'),
+      ReservationEvents.deleted(other.id)
+    ]);
+    const relay = new OutboxRelay(outbox, bus, { retryDelayMs: 0 });
+
+    expect(await relay.deliverPending()).toBe(1);
+    expect(received).toEqual(['reservation.deleted']);
+    expect((await outbox.pending()).map(entry => [entry.event.type, entry.attempts])).toEqual([
+      ['reservation.created', 1],
+      ['reservation.confirmed', 0]
+    ]);
+
+    failing = false;
+    expect(await relay.deliverPending()).toBe(2);
+    expect(received).toEqual(['reservation.deleted', 'reservation.created', 'reservation.confirmed']);
+  });
+
+  it('should back off before retrying a failed event', async () => {
+    const bus = new InMemoryEventBus<ReservationEvent>();
+    const handler = jest.fn().mockRejectedValueOnce(new Error('consumer down'));
+    bus.subscribeAll(handler);
+    const outbox = await committed([ReservationEvents.created(reservation())]);
+    const relay = new OutboxRelay(outbox, bus, { retryDelayMs: 60000 });
+
+    await relay.deliverPending();
+    await relay.deliverPending();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect((await outbox.pending())[0].attempts).toBe(1);
+  });
+
+  it('should only run the handlers that have not received the event yet', async () => {
+    const bus = new InMemoryEventBus<ReservationEvent>();
+    const mailer = jest.fn();
+    const analytics = jest.fn().mockRejectedValueOnce(new Error('analytics unavailable'));
+    bus.subscribeAll(mailer, 'mailer');
+    bus.subscribeAll(analytics, 'analytics');
+    const outbox = await committed([ReservationEvents.created(reservation())]);
+    const relay = new OutboxRelay(outbox, bus, { retryDelayMs: 0 });
+
+    expect(await relay.deliverPending()).toBe(0);
+    expect(await relay.deliverPending()).toBe(1);
+
+    expect(mailer).toHaveBeenCalledTimes(1);
+    expect(analytics).toHaveBeenCalledTimes(2);
+  });
+
+  it('should dead-letter events that keep failing and release the events behind them', async () => {
+    const bus = new InMemoryEventBus<ReservationEvent>();
+    const received: string[] = [];
+    bus.subscribeAll(event => {
+      if (event.type === 'reservation.created') {
+        throw new Error('consumer down');
+      }
+      received.push(event.type);
+    });
+    const stuck = reservation();
+    const outbox = await committed([
+      ReservationEvents.created(stuck),
+      ReservationEvents.statusChanged(stuck.confirm(), 'pending')
+    ]);
+    const relay = new OutboxRelay(outbox, bus, { maxAttempts: 2, retryDelayMs: 0 });
+
+    expect(await relay.deliverPending()).toBe(0);
+    expect(await relay.deliverPending()).toBe(1);
+
+    expect(received).toEqual(['reservation.confirmed']);
+    expect(await outbox.pending()).toEqual([]);
+    expect(await outbox.deadLettered()).toEqual([expect.objectContaining({ attempts: 2, lastError: expect.stringContaining('1 subscriber(s) failed') })]);
+  });
+
+  it('should fill a batch with deliverable events when others are waiting to be retried', async () => {
+    const bus = new InMemoryEventBus<ReservationEvent>();
+    const received: string[] = [];
+    bus.subscribeAll(event => {
+      if (event.type === 'reservation.created') {
+        throw new Error('consumer down');
+      }
+      received.push(event.aggregateId);
+    });
+    const waiting = [reservation(), reservation()].map(created => ReservationEvents.created(created));
+    const ready = [reservation(), reservation()].map(created => ReservationEvents.deleted(created.id));
+    const outbox = await committed([...waiting, ...ready]);
+    const relay = new OutboxRelay(outbox, bus, { batchSize: 2, retryDelayMs: 60000 });
+
+    expect(await relay.deliverPending()).toBe(0);
+    expect(await relay.deliverPending()).toBe(2);
+    expect(received).toEqual(ready.map(event => event.aggregateId));
+  });
+
+  it('should not run two deliveries at once', async () => {
+    const bus = new InMemoryEventBus<ReservationEvent>();
+    const handler = jest.fn();
+    bus.subscribeAll(handler);
+    const outbox = await committed([ReservationEvents.created(reservation())]);
+    const relay = new OutboxRelay(outbox, bus);
+
+    const [first, second] = await Promise.all([relay.deliverPending(), relay.deliverPending()]);
+
+    expect(first).toBe(1);
+    expect(second).toBe(1);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
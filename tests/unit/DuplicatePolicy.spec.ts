@@ -0,0 +1,103 @@
+import {
+  CompositeDuplicatePolicy,
+  EmailDuplicatePolicy,
+  NoDuplicatePolicy,
+  fieldsKeyBuilder
+} from '../../src/domain/reservations/DuplicatePolicy';
+import { Reservation, CreateReservationData } from '../../src/domain/reservations/Reservation';
+import { Email, EmailValidator } from '../../src/utils/Email';
+import { CurrencyUtils } from '../../src/utils/Currency';
+
+function reservation(overrides: Partial<CreateReservationData> = {}): Reservation {
+  return Reservation.create({
+    activityId: 'act_madrid_tour_2024',
+    date: '2024-12-15',
+    numberOfPeople: 2,
+    name: 'John Doe',
+    email: EmailValidator.validate('john@example.com'),
+    amount: CurrencyUtils.create(100, 'EUR'),
+    ...overrides
+  });
+}
+
+describe('DuplicatePolicy', () => {
+  describe('CompositeDuplicatePolicy', () => {
+    const policy = new CompositeDuplicatePolicy();
+
+    it('should default to activityId + email + date', () => {
+      expect(policy.conflictingFields).toEqual(['activityId', 'email', 'date']);
+    });
+
+    it('should find the reservation sharing activity, email and date', async () => {
+      const existing = reservation();
+      const other = reservation({ activityId: 'act_toledo_tour_2024' });
+
+      const duplicate = await policy.findDuplicate(reservation(), [other, existing]);
+
+      expect(duplicate).toBe(existing);
+      expect(await policy.check(reservation(), [other, existing])).toBe(true);
+    });
+
+    it('should allow the same email for another activity or date', async () => {
+      const existing = [reservation()];
+
+      expect(await policy.check(reservation({ activityId: 'act_toledo_tour_2024' }), existing)).toBe(false);
+      expect(await policy.check(reservation({ date: '2024-12-16' }), existing)).toBe(false);
+      expect(await policy.check(reservation({ email: EmailValidator.validate('jane@example.com') }), existing)).toBe(false);
+    });
+
+    it('should compare emails in their normalized form', async () => {
+      const existing = [reservation({ email: EmailValidator.validate('John@Example.COM') })];
+
+      expect(await policy.check(reservation(), existing)).toBe(true);
+    });
+
+    it('should still compare stored emails the current parser rejects', async () => {
+      const legacy = reservation({ email: 'John..Doe@Example.com' as Email });
+
+      expect(await policy.check(reservation(), [legacy])).toBe(false);
+      expect(await policy.check(reservation({ email: 'john..doe@example.com' as Email }), [legacy])).toBe(true);
+    });
+
+    it('should support other field combinations', async () => {
+      const slotPolicy = new CompositeDuplicatePolicy(['activityId', 'email', 'date', 'time']);
+      const existing = [reservation({ time: '10:00' })];
+
+      expect(await slotPolicy.check(reservation({ time: '10:00' }), existing)).toBe(true);
+      expect(await slotPolicy.check(reservation({ time: '12:00' }), existing)).toBe(false);
+    });
+
+    it('should accept a custom key builder', async () => {
+      const byDomain = new CompositeDuplicatePolicy(['email'], r => r.email.split('@')[1]);
+      const existing = [reservation()];
+
+      expect(await byDomain.check(reservation({ email: EmailValidator.validate('jane@example.com') }), existing)).toBe(true);
+      expect(await byDomain.check(reservation({ email: EmailValidator.validate('jane@example.org') }), existing)).toBe(false);
+    });
+  });
+
+  describe('fieldsKeyBuilder', () => {
+    it('should build equal keys for equal field values only', () => {
+      const build = fieldsKeyBuilder(['activityId', 'phone']);
+
+      expect(build(reservation())).toBe(build(reservation({ name: 'Jane Doe' })));
+      expect(build(reservation())).not.toBe(build(reservation({ phone: '+34612345678' })));
+    });
+  });
+
+  describe('EmailDuplicatePolicy', () => {
+    it('should reject any reuse of the email', async () => {
+      const policy = new EmailDuplicatePolicy();
+      const existing = reservation();
+
+      expect(policy.conflictingFields).toEqual(['email']);
+      expect(await policy.findDuplicate(reservation({ activityId: 'act_toledo_tour_2024' }), [existing])).toBe(existing);
+    });
+  });
+
+  describe('NoDuplicatePolicy', () => {
+    it('should never report duplicates', async () => {
+      expect(await new NoDuplicatePolicy().check(reservation(), [reservation()])).toBe(false);
+    });
+  });
+});
@@ -1,4 +1,5 @@
-import { EmailValidator } from '../../src/utils/Email';
+import { EmailValidator, InvalidEmailError } from '../../src/utils/Email';
+import { ValidationError } from '../../src/errors/DomainError';
 
 describe('EmailValidator', () => {
   describe('validate', () => {
@@ -29,6 +30,96 @@ describe('EmailValidator', () => {
         expect(() => EmailValidator.validate(email)).toThrow('Invalid email format');
       });
     });
+
+    it('should throw a validation error describing the rejected email', () => {
+      expect(() => EmailValidator.validate('invalid')).toThrow(ValidationError);
+      expect(() => EmailValidator.validate('invalid')).toThrow(expect.objectContaining({
+        reason: 'MISSING_AT',
+        validationErrors: [{
+          field: 'email',
+          message: 'Invalid email format: invalid (missing @ between local part and domain)',
+          code: 'INVALID_FORMAT',
+          rejectedValue: 'invalid',
+          expectedFormat: 'user@example.com'
+        }]
+      }));
+    });
+  });
+
+  describe('parse', () => {
+    it('should split the local part and domain', () => {
+      expect(EmailValidator.parse('user+tag@Example.com')).toEqual({
+        valid: true,
+        email: { localPart: 'user+tag', domain: 'Example.com', asciiDomain: 'example.com', quoted: false }
+      });
+    });
+
+    it('should accept quoted local parts, including @ and consecutive dots', () => {
+      expect(EmailValidator.isValid('"john..doe"@example.com')).toBe(true);
+      expect(EmailValidator.isValid('"a@b"@example.com')).toBe(true);
+      expect(EmailValidator.isValid('"escaped \\" quote"@example.com')).toBe(true);
+    });
+
+    it('should accept internationalized domains and local parts', () => {
+      const result = EmailValidator.parse('josé@münchen.de');
+
+      expect(result).toMatchObject({ valid: true, email: { asciiDomain: 'xn--mnchen-3ya.de' } });
+    });
+
+    it.each([
+      ['', 'EMPTY'],
+      [`${'a'.repeat(64)}@${'b'.repeat(63)}.${'c'.repeat(63)}.${'d'.repeat(60)}.com`, 'TOO_LONG'],
+      ['user.example.com', 'MISSING_AT'],
+      ['@example.com', 'LOCAL_PART_EMPTY'],
+      [`${'a'.repeat(65)}@example.com`, 'LOCAL_PART_TOO_LONG'],
+      ['john..doe@example.com', 'INVALID_LOCAL_PART'],
+      ['.john@example.com', 'INVALID_LOCAL_PART'],
+      ['user @example.com', 'INVALID_LOCAL_PART'],
+      ['"unterminated@example.com', 'INVALID_QUOTED_LOCAL_PART'],
+      ['user@', 'DOMAIN_EMPTY'],
+      ['user@-example.com', 'INVALID_DOMAIN'],
+      ['user@example..com', 'INVALID_DOMAIN'],
+      [`user@${'a'.repeat(64)}.com`, 'LABEL_TOO_LONG'],
+      ['user@example', 'MISSING_TLD'],
+      ['user@example.c', 'INVALID_TLD'],
+      ['user@127.0.0.1', 'INVALID_TLD']
+    ])('should report why %j is invalid', (email, reason) => {
+      expect(EmailValidator.parse(email)).toMatchObject({ valid: false, reason });
+      expect(() => EmailValidator.validate(email)).toThrow(InvalidEmailError);
+    });
+  });
+
+  describe('normalize', () => {
+    it('should lowercase the local part and domain', () => {
+      expect(EmailValidator.normalize('Maria.Garcia@Example.COM')).toBe('maria.garcia@example.com');
+    });
+
+    it('should trim surrounding whitespace and encode IDN domains', () => {
+      expect(EmailValidator.normalize('  user@MÜNCHEN.de ')).toBe('user@xn--mnchen-3ya.de');
+    });
+
+    it('should preserve the case of quoted local parts', () => {
+      expect(EmailValidator.normalize('"John Doe"@Example.com')).toBe('"John Doe"@example.com');
+    });
+
+    it('should treat differently cased addresses as equal', () => {
+      expect(EmailValidator.equals('Maria@Example.com', 'maria@example.com')).toBe(true);
+      expect(EmailValidator.equals('maria@example.com', 'mario@example.com')).toBe(false);
+    });
+
+    it('should reject invalid emails', () => {
+      expect(() => EmailValidator.normalize('invalid')).toThrow(InvalidEmailError);
+    });
+  });
+
+  describe('comparable', () => {
+    it('should normalize valid emails', () => {
+      expect(EmailValidator.comparable(' Maria@Example.com')).toBe('maria@example.com');
+    });
+
+    it('should lowercase emails the parser rejects instead of throwing', () => {
+      expect(EmailValidator.comparable(' John..Doe@Example.com ')).toBe('john..doe@example.com');
+    });
   });
 
   describe('isValid', () => {
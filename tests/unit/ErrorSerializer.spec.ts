@@ -0,0 +1,56 @@
+import { ApiError } from '../../src/api/ApiError';
+import { ReservationNotFoundError } from '../../src/domain/reservations/ReservationErrors';
+import { ValidationError } from '../../src/errors/DomainError';
+import { ErrorSerializer } from '../../src/errors/ErrorSerializer';
+import { CurrencyMismatchError } from '../../src/utils/Currency';
+
+const context = { requestId: 'req-1', path: '/v1/reservations', timestamp: new Date('2024-01-01T00:00:00Z') };
+
+describe('ErrorSerializer', () => {
+  describe('statusFor', () => {
+    it('should map each error family to its HTTP status', () => {
+      expect(ErrorSerializer.statusFor(new ReservationNotFoundError('res-1'))).toBe(404);
+      expect(ErrorSerializer.statusFor(new ValidationError([]))).toBe(422);
+      expect(ErrorSerializer.statusFor(new CurrencyMismatchError('EUR', 'USD'))).toBe(422);
+      expect(ErrorSerializer.statusFor(new ApiError(401, 'AUTH_TOKEN_MISSING', 'Authentication token is required'))).toBe(401);
+      expect(ErrorSerializer.statusFor(new Error('boom'))).toBe(500);
+    });
+  });
+
+  describe('toResponse', () => {
+    it('should serialize domain errors to the ErrorResponse shape', () => {
+      expect(ErrorSerializer.toResponse(new ReservationNotFoundError('res-1'), context)).toEqual({
+        error: {
+          code: 'RESERVATION_NOT_FOUND',
+          message: 'Reservation not found: res-1',
+          timestamp: '2024-01-01T00:00:00.000Z',
+          requestId: 'req-1',
+          path: '/v1/reservations',
+          details: { resource: 'Reservation', resourceId: 'res-1' }
+        }
+      });
+    });
+
+    it('should serialize validation errors to the ValidationErrorResponse shape', () => {
+      const item = { field: 'email', message: 'Invalid email format: x', code: 'INVALID_FORMAT' as const, rejectedValue: 'x' };
+
+      expect(ErrorSerializer.toResponse(ValidationError.of(item), context)).toEqual({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Request validation failed',
+          timestamp: '2024-01-01T00:00:00.000Z',
+          requestId: 'req-1',
+          path: '/v1/reservations',
+          validationErrors: [item]
+        }
+      });
+    });
+
+    it('should hide the message of unexpected errors', () => {
+      expect(ErrorSerializer.toResponse(new Error('database password leaked'), context).error).toMatchObject({
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred'
+      });
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ValidationError } from '../../src/errors/DomainError';
+import { StaticExchangeRateProvider } from '../../src/utils/ExchangeRateProvider';
+import { FileExchangeRateProvider } from '../../src/utils/FileExchangeRateProvider';
+
+describe('StaticExchangeRateProvider', () => {
+  it('should expose the configured table', async () => {
+    const provider = new StaticExchangeRateProvider({ USD: 1.08 }, 'EUR', '2024-12-01');
+
+    expect(await provider.getRates()).toEqual({ base: 'EUR', rates: { USD: 1.08 }, asOf: '2024-12-01' });
+  });
+
+  it('should reject non-positive rates and invalid base currencies', () => {
+    expect(() => new StaticExchangeRateProvider({ USD: 0 })).toThrow('Exchange rates must be positive numbers');
+    expect(() => new StaticExchangeRateProvider({ USD: NaN })).toThrow(ValidationError);
+    expect(() => new StaticExchangeRateProvider({ USD: 1.08 }, 'euro')).toThrow('Base currency must be an ISO 4217 code');
+  });
+});
+
+describe('FileExchangeRateProvider', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'rates-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load a rates snapshot once and reuse it', async () => {
+    const filePath = join(dir, 'rates.json');
+    writeFileSync(filePath, JSON.stringify({ base: 'USD', asOf: '2024-12-01', rates: { EUR: 0.92 } }));
+    const provider = new FileExchangeRateProvider(filePath);
+
+    const first = await provider.getRates();
+    writeFileSync(filePath, JSON.stringify({ base: 'USD', rates: { EUR: 0.5 } }));
+
+    expect(first).toEqual({ base: 'USD', asOf: '2024-12-01', rates: { EUR: 0.92 } });
+    expect(await provider.getRates()).toBe(first);
+  });
+
+  it('should reject snapshots with invalid rates', async () => {
+    const filePath = join(dir, 'rates.json');
+    writeFileSync(filePath, JSON.stringify({ base: 'USD', rates: { EUR: -1 } }));
+
+    await expect(new FileExchangeRateProvider(filePath).getRates()).rejects.toThrow(ValidationError);
+  });
+
+  it('should read the snapshot again after a failed load', async () => {
+    const filePath = join(dir, 'rates.json');
+    writeFileSync(filePath, JSON.stringify({ base: 'USD', rates: { EUR: -1 } }));
+    const provider = new FileExchangeRateProvider(filePath);
+    await expect(provider.getRates()).rejects.toThrow(ValidationError);
+
+    writeFileSync(filePath, JSON.stringify({ base: 'USD', rates: { EUR: 0.92 } }));
+
+    expect(await provider.getRates()).toEqual({ base: 'USD', rates: { EUR: 0.92 } });
+  });
+
+  it('should surface a missing snapshot file', async () => {
+    await expect(new FileExchangeRateProvider(join(dir, 'missing.json')).getRates()).rejects.toThrow();
+  });
+});
@@ -0,0 +1,162 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileReservationRepository } from '../../src/domain/reservations/FileReservationRepository';
+import { Reservation } from '../../src/domain/reservations/Reservation';
+import { EmailValidator } from '../../src/utils/Email';
+import { CurrencyUtils } from '../../src/utils/Currency';
+import { AtomicFile } from '../../src/utils/AtomicFile';
+
+function createReservation(email: string = 'john@example.com'): Reservation {
+  return Reservation.create({
+    activityId: 'act_madrid_tour_2024',
+    date: '2024-12-15',
+    time: '10:00',
+    numberOfPeople: 3,
+    name: 'John Doe',
+    email: EmailValidator.validate(email),
+    amount: CurrencyUtils.create(89.90, 'EUR'),
+    children: [{ age: 6, name: 'Emma Doe' }],
+    dietaryRestrictions: ['vegetarian']
+  });
+}
+
+describe('FileReservationRepository', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'reservations-'));
+    filePath = join(dir, 'data', 'reservations.jsonl');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should start empty when the file does not exist', async () => {
+    const repository = new FileReservationRepository(filePath);
+
+    expect(await repository.findAll()).toEqual([]);
+    expect(await repository.findById('missing')).toBeUndefined();
+  });
+
+  it('should persist reservations across repository instances', async () => {
+    const reservation = createReservation();
+    await new FileReservationRepository(filePath).save(reservation);
+
+    const reloaded = await new FileReservationRepository(filePath).findById(reservation.id);
+
+    expect(reloaded).toBeInstanceOf(Reservation);
+    expect(reloaded?.toJSON()).toEqual(reservation.toJSON());
+    expect(reloaded?.createdAt).toBeInstanceOf(Date);
+    expect(reloaded?.updatedAt.getTime()).toBe(reservation.updatedAt.getTime());
+  });
+
+  it('should persist the price breakdown', async () => {
+    const adult = CurrencyUtils.create(44.95, 'EUR');
+    const reservation = createReservation().withPrice({
+      lineItems: [{ kind: 'charge', code: 'adult', description: 'Adult', quantity: 2, unitPrice: adult, amount: CurrencyUtils.multiply(adult, 2) }],
+      subtotal: CurrencyUtils.create(89.90, 'EUR'),
+      discount: CurrencyUtils.zero('EUR'),
+      total: CurrencyUtils.create(89.90, 'EUR')
+    });
+    await new FileReservationRepository(filePath).save(reservation);
+
+    const reloaded = await new FileReservationRepository(filePath).findById(reservation.id);
+
+    expect(reloaded?.priceBreakdown).toEqual(reservation.priceBreakdown);
+  });
+
+  it('should store one JSON document per line', async () => {
+    const repository = new FileReservationRepository(filePath);
+    await repository.save(createReservation('a@example.com'));
+    await repository.save(createReservation('b@example.com'));
+
+    const lines = readFileSync(filePath, 'utf-8').trim().split('\n');
+
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1]).email).toBe('b@example.com');
+  });
+
+  it('should overwrite an updated reservation instead of appending it', async () => {
+    const repository = new FileReservationRepository(filePath);
+    const reservation = createReservation();
+    await repository.save(reservation);
+    await repository.save(reservation.confirm());
+
+    const reloaded = await new FileReservationRepository(filePath).findAll();
+
+    expect(reloaded).toHaveLength(1);
+    expect(reloaded[0].status).toBe('confirmed');
+  });
+
+  it('should persist deletions', async () => {
+    const repository = new FileReservationRepository(filePath);
+    const reservation = createReservation();
+    await repository.save(reservation);
+
+    expect(await repository.delete(reservation.id)).toBe(true);
+    expect(await repository.delete(reservation.id)).toBe(false);
+    expect(await new FileReservationRepository(filePath).findAll()).toEqual([]);
+  });
+
+  it('should keep every concurrent save and leave no temporary files behind', async () => {
+    const repository = new FileReservationRepository(filePath);
+    const reservations = Array.from({ length: 10 }, (_, i) => createReservation(`user${i}@example.com`));
+
+    await Promise.all(reservations.map(reservation => repository.save(reservation)));
+
+    expect(await new FileReservationRepository(filePath).findAll()).toHaveLength(10);
+    expect(readdirSync(join(dir, 'data'))).toEqual(['reservations.jsonl']);
+  });
+
+  it('should leave stored reservations untouched when a write fails', async () => {
+    const repository = new FileReservationRepository(filePath);
+    const kept = createReservation();
+    const lost = createReservation('lost@example.com');
+    await repository.save(kept);
+    jest.spyOn(AtomicFile, 'write').mockRejectedValueOnce(new Error('disk full')).mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(repository.save(lost)).rejects.toThrow('disk full');
+    await expect(repository.delete(kept.id)).rejects.toThrow('disk full');
+
+    expect((await repository.findAll()).map(reservation => reservation.id)).toEqual([kept.id]);
+    expect((await new FileReservationRepository(filePath).findAll()).map(reservation => reservation.id)).toEqual([kept.id]);
+  });
+
+  it('should read the file again after a failed load', async () => {
+    writeFileSync(join(dir, 'broken.jsonl'), '{not json\n');
+    const repository = new FileReservationRepository(join(dir, 'broken.jsonl'));
+    await expect(repository.findAll()).rejects.toThrow();
+
+    writeFileSync(join(dir, 'broken.jsonl'), '');
+
+    expect(await repository.findAll()).toEqual([]);
+  });
+
+  it('should ignore blank lines in an existing file', async () => {
+    const reservation = createReservation();
+    await new FileReservationRepository(filePath).save(reservation);
+    writeFileSync(filePath, `\n${readFileSync(filePath, 'utf-8')}\n\n`);
+
+    expect(await new FileReservationRepository(filePath).findAll()).toHaveLength(1);
+  });
+
+  it('should derive confirmation codes for reservations stored without one', async () => {
+    const legacy: Record<string, unknown> = { ...createReservation().toJSON(), id: 'a1b2c3d4-e5f6' };
+    delete legacy.confirmationCode;
+    writeFileSync(join(dir, 'legacy.jsonl'), `${JSON.stringify(legacy)}\n`);
+
+    const [reservation] = await new FileReservationRepository(join(dir, 'legacy.jsonl')).findAll();
+
+    expect(reservation.confirmationCode).toBe('CONF-2024-MA-1234');
+  });
+
+  it('should surface read errors other than a missing file', async () => {
+    const repository = new FileReservationRepository(dir);
+
+    await expect(repository.findAll()).rejects.toThrow();
+  });
+});
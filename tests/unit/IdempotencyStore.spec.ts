@@ -0,0 +1,83 @@
+import { InMemoryIdempotencyStore, requestFingerprint } from '../../src/api/IdempotencyStore';
+
+const response = { status: 201, headers: { Location: '/v1/reservations/abc' }, body: { id: 'abc' } };
+
+describe('requestFingerprint', () => {
+  it('should ignore the order of object keys', () => {
+    expect(requestFingerprint('createReservation', { a: 1, b: { c: [1, 2], d: 'x' } }))
+      .toBe(requestFingerprint('createReservation', { b: { d: 'x', c: [1, 2] }, a: 1 }));
+  });
+
+  it('should distinguish bodies, array order and operations', () => {
+    const fingerprint = requestFingerprint('createReservation', { items: [1, 2] });
+
+    expect(requestFingerprint('createReservation', { items: [2, 1] })).not.toBe(fingerprint);
+    expect(requestFingerprint('createReservation', { items: [1, 2], extra: true })).not.toBe(fingerprint);
+    expect(requestFingerprint('updateReservation', { items: [1, 2] })).not.toBe(fingerprint);
+  });
+});
+
+describe('InMemoryIdempotencyStore', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should claim an unused key', async () => {
+    const store = new InMemoryIdempotencyStore();
+
+    expect(await store.claim('key', 'fp')).toBeUndefined();
+    expect(await store.claim('key', 'fp')).toEqual({ state: 'in-progress', fingerprint: 'fp' });
+  });
+
+  it('should return the completed response for later claims', async () => {
+    const store = new InMemoryIdempotencyStore();
+    await store.claim('key', 'fp');
+    await store.complete('key', response);
+
+    expect(await store.claim('key', 'other')).toEqual({ state: 'completed', fingerprint: 'fp', response });
+  });
+
+  it('should free the key when released', async () => {
+    const store = new InMemoryIdempotencyStore();
+    await store.claim('key', 'fp');
+    await store.release('key');
+
+    expect(await store.claim('key', 'other')).toBeUndefined();
+  });
+
+  it('should forget records after the retention period', async () => {
+    jest.useFakeTimers();
+    const store = new InMemoryIdempotencyStore(1000);
+    await store.claim('key', 'fp');
+    await store.complete('key', response);
+
+    jest.advanceTimersByTime(1001);
+
+    expect(await store.claim('key', 'other')).toBeUndefined();
+  });
+
+  it('should evict expired records when another key is claimed', async () => {
+    jest.useFakeTimers();
+    const store = new InMemoryIdempotencyStore(1000);
+    await store.claim('expired', 'fp');
+    jest.advanceTimersByTime(500);
+    await store.claim('live', 'fp');
+
+    jest.advanceTimersByTime(501);
+    await store.claim('new', 'fp');
+
+    expect(store.size).toBe(2);
+    expect(await store.claim('live', 'other')).toEqual({ state: 'in-progress', fingerprint: 'fp' });
+  });
+
+  it('should drop the oldest records once it holds the maximum number of keys', async () => {
+    const store = new InMemoryIdempotencyStore(1000, 2);
+    await store.claim('first', 'fp');
+    await store.claim('second', 'fp');
+    await store.complete('first', response);
+    await store.claim('third', 'fp');
+
+    expect(store.size).toBe(2);
+    expect(await store.claim('second', 'other')).toBeUndefined();
+  });
+});
@@ -0,0 +1,105 @@
+import { createHmac, generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { InvalidTokenError, JwtVerifier } from '../../src/api/JwtVerifier';
+
+const secret = 'test-secret-with-enough-entropy';
+const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const now = new Date('2024-10-23T14:30:00Z');
+const nowSeconds = Math.floor(now.getTime() / 1000);
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function hs256(payload: Record<string, unknown>, header: Record<string, unknown> = {}, key: string = secret): string {
+  const input = `${encode({ alg: 'HS256', typ: 'JWT', ...header })}.${encode(payload)}`;
+  return `${input}.${createHmac('sha256', key).update(input).digest('base64url')}`;
+}
+
+function rs256(payload: Record<string, unknown>, header: Record<string, unknown> = {}, key: KeyObject = privateKey): string {
+  const input = `${encode({ alg: 'RS256', typ: 'JWT', ...header })}.${encode(payload)}`;
+  return `${input}.${sign('RSA-SHA256', Buffer.from(input), key).toString('base64url')}`;
+}
+
+function reasonOf(action: () => unknown): string | undefined {
+  try {
+    action();
+  } catch (error) {
+    return (error as InvalidTokenError).reason;
+  }
+  return undefined;
+}
+
+const claims = { sub: 'agent-1', exp: nowSeconds + 3600, roles: ['BOOKING_AGENT'] };
+
+describe('JwtVerifier', () => {
+  const verifier = new JwtVerifier({
+    keys: [{ algorithm: 'HS256', key: secret }, { algorithm: 'RS256', key: publicKey }]
+  });
+
+  it('should return the claims of valid HS256 and RS256 tokens', () => {
+    expect(verifier.verify(hs256(claims), now)).toEqual(claims);
+    expect(verifier.verify(rs256(claims), now)).toEqual(claims);
+  });
+
+  it('should reject tokens with an invalid signature as a 401', () => {
+    expect(() => verifier.verify(hs256(claims, {}, 'another-secret'), now)).toThrow(expect.objectContaining({
+      status: 401,
+      code: 'AUTH_TOKEN_INVALID',
+      message: 'The provided authentication token is invalid or expired',
+      reason: 'BAD_SIGNATURE'
+    }));
+    expect(() => verifier.verify(hs256(claims, {}, 'another-secret'), now)).toThrow(InvalidTokenError);
+  });
+
+  it('should reject tampered payloads', () => {
+    const [header, , signature] = hs256(claims).split('.');
+    const tampered = `${header}.${encode({ ...claims, roles: ['ADMIN'] })}.${signature}`;
+
+    expect(reasonOf(() => verifier.verify(tampered, now))).toBe('BAD_SIGNATURE');
+  });
+
+  it('should reject unsigned and unsupported algorithms', () => {
+    const unsigned = `${encode({ alg: 'none' })}.${encode(claims)}.`;
+
+    expect(reasonOf(() => verifier.verify(unsigned, now))).toBe('UNSUPPORTED_ALGORITHM');
+    expect(reasonOf(() => verifier.verify(hs256(claims, { alg: 'HS512' }), now))).toBe('UNSUPPORTED_ALGORITHM');
+  });
+
+  it('should not accept an RS256 public key as an HS256 secret', () => {
+    const rsaOnly = new JwtVerifier({ keys: [{ algorithm: 'RS256', key: publicKey }] });
+    const forged = hs256(claims, {}, publicKey.export({ type: 'spki', format: 'pem' }).toString());
+
+    expect(reasonOf(() => rsaOnly.verify(forged, now))).toBe('UNKNOWN_KEY');
+  });
+
+  it('should select keys by kid', () => {
+    const rotated = new JwtVerifier({
+      keys: [{ algorithm: 'HS256', key: 'old-secret', kid: 'old' }, { algorithm: 'HS256', key: secret, kid: 'new' }]
+    });
+
+    expect(rotated.verify(hs256(claims, { kid: 'new' }), now)).toEqual(claims);
+    expect(reasonOf(() => rotated.verify(hs256(claims, { kid: 'old' }), now))).toBe('BAD_SIGNATURE');
+    expect(reasonOf(() => rotated.verify(hs256(claims, { kid: 'unknown' }), now))).toBe('UNKNOWN_KEY');
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(reasonOf(() => verifier.verify('not-a-jwt', now))).toBe('MALFORMED');
+    expect(reasonOf(() => verifier.verify('a.b.c', now))).toBe('MALFORMED');
+  });
+
+  it('should enforce expiration and not-before with clock tolerance', () => {
+    expect(reasonOf(() => verifier.verify(hs256({ sub: 'agent-1' }), now))).toBe('MISSING_EXPIRATION');
+    expect(reasonOf(() => verifier.verify(hs256({ ...claims, exp: nowSeconds - 31 }), now))).toBe('EXPIRED');
+    expect(verifier.verify(hs256({ ...claims, exp: nowSeconds - 10 }), now).sub).toBe('agent-1');
+    expect(reasonOf(() => verifier.verify(hs256({ ...claims, nbf: nowSeconds + 60 }), now))).toBe('NOT_YET_VALID');
+  });
+
+  it('should check issuer and audience when configured', () => {
+    const strict = new JwtVerifier({ keys: [{ algorithm: 'HS256', key: secret }], issuer: 'https://auth.example.com', audience: 'reservations' });
+    const valid = { ...claims, iss: 'https://auth.example.com', aud: ['reservations', 'activities'] };
+
+    expect(strict.verify(hs256(valid), now).iss).toBe('https://auth.example.com');
+    expect(reasonOf(() => strict.verify(hs256({ ...valid, iss: 'https://evil.example.com' }), now))).toBe('WRONG_ISSUER');
+    expect(reasonOf(() => strict.verify(hs256({ ...valid, aud: 'activities' }), now))).toBe('WRONG_AUDIENCE');
+  });
+});
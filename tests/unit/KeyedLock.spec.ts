@@ -0,0 +1,57 @@
+import { KeyedLock } from '../../src/utils/KeyedLock';
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe('KeyedLock', () => {
+  it('should run tasks sharing a key one after another', async () => {
+    const lock = new KeyedLock();
+    const gate = deferred();
+    const order: string[] = [];
+
+    const first = lock.run(['a'], async () => { await gate.promise; order.push('first'); });
+    const second = lock.run(['a'], async () => { order.push('second'); });
+    await Promise.resolve();
+    gate.resolve();
+    await Promise.all([first, second]);
+
+    expect(order).toEqual(['first', 'second']);
+  });
+
+  it('should run tasks with disjoint keys concurrently', async () => {
+    const lock = new KeyedLock();
+    const gate = deferred();
+    const order: string[] = [];
+
+    const first = lock.run(['a'], async () => { await gate.promise; order.push('first'); });
+    await lock.run(['b'], async () => { order.push('second'); });
+    gate.resolve();
+    await first;
+
+    expect(order).toEqual(['second', 'first']);
+  });
+
+  it('should wait for every key and not deadlock on overlapping key sets', async () => {
+    const lock = new KeyedLock();
+    const order: number[] = [];
+
+    await Promise.all([
+      lock.run(['a', 'b'], async () => { order.push(1); }),
+      lock.run(['b', 'a'], async () => { order.push(2); }),
+      lock.run(['b', 'c'], async () => { order.push(3); })
+    ]);
+
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it('should release keys when a task fails', async () => {
+    const lock = new KeyedLock();
+
+    await expect(lock.run(['a'], async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(lock.run(['a'], async () => 'next')).resolves.toBe('next');
+    expect(lock.size).toBe(0);
+  });
+});
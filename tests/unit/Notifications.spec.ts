@@ -0,0 +1,370 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { AddressInfo, createServer, Server } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Activity } from '../../src/domain/activities/Activity';
+import { InMemoryActivityCatalog } from '../../src/domain/activities/ActivityCatalog';
+import { InMemoryEventBus } from '../../src/domain/events/EventBus';
+import { InMemoryOutbox } from '../../src/domain/events/Outbox';
+import { OutboxRelay } from '../../src/domain/events/OutboxRelay';
+import { InMemoryDeadLetterStore } from '../../src/domain/notifications/DeadLetterStore';
+import { FileDeadLetterStore } from '../../src/domain/notifications/FileDeadLetterStore';
+import { FileNotificationTransport } from '../../src/domain/notifications/FileNotificationTransport';
+import { FileSentMessageStore } from '../../src/domain/notifications/FileSentMessageStore';
+import { SmtpError } from '../../src/domain/notifications/NotificationErrors';
+import { NotificationService } from '../../src/domain/notifications/NotificationService';
+import { NotificationKind, NotificationTemplates } from '../../src/domain/notifications/NotificationTemplates';
+import { InMemoryNotificationTransport, NotificationMessage } from '../../src/domain/notifications/NotificationTransport';
+import { InMemorySentMessageStore } from '../../src/domain/notifications/SentMessageStore';
+import { SmtpNotificationTransport } from '../../src/domain/notifications/SmtpNotificationTransport';
+import { LANGUAGES, Language, Reservation } from '../../src/domain/reservations/Reservation';
+import { ReservationEvent, ReservationEvents } from '../../src/domain/reservations/ReservationEvents';
+import { EmailValidator } from '../../src/utils/Email';
+import { CurrencyUtils } from '../../src/utils/Currency';
+
+function reservation(language: Language = 'es'): Reservation {
+  return Reservation.create({
+    activityId: 'act_madrid_tour_2024',
+    date: '2024-12-15',
+    time: '10:00',
+    numberOfPeople: 2,
+    name: 'María García',
+    email: EmailValidator.validate('maria@example.com'),
+    amount: CurrencyUtils.create(89.9, 'EUR'),
+    language
+  });
+}
+
+const catalog = new InMemoryActivityCatalog([new Activity({
+  id: 'act_madrid_tour_2024',
+  names: { en: 'Madrid City Walking Tour', es: 'Tour a pie por Madrid' },
+  schedule: { daysOfWeek: ['sun'], slots: [{ time: '10:00', capacity: 10 }] },
+  pricePerPerson: CurrencyUtils.create(44.95, 'EUR')
+})]);
+
+const message: NotificationMessage = {
+  id: 'evt-1',
+  kind: 'confirmation',
+  reservationId: 'res_1',
+  to: 'maria@example.com',
+  language: 'es',
+  subject: 'Confirmación de tu reserva CONF-2024-MA-0001',
+  text: 'Hola María:\n'
+};
+
+describe('NotificationTemplates', () => {
+  const context = {
+    language: 'es' as Language,
+    customerName: 'María García',
+    activityName: 'Tour a pie por Madrid',
+    date: '2024-12-15',
+    time: '10:00',
+    numberOfPeople: 2,
+    total: CurrencyUtils.create(89.9, 'EUR'),
+    confirmationCode: 'CONF-2024-MA-0001'
+  };
+
+  it('should render a localized confirmation', () => {
+    expect(NotificationTemplates.render('confirmation', context)).toEqual({
+      subject: 'Confirmación de tu reserva CONF-2024-MA-0001',
+      text: [
+        'Hola María García:',
+        '',
+        'Gracias por tu reserva. Estos son los detalles:',
+        '',
+        'Actividad: Tour a pie por Madrid',
+        'Fecha: domingo, 15 de diciembre de 2024',
+        'Hora: 10:00',
+        'Personas: 2',
+        'Total: 89,90\u00A0€',
+        'Código de confirmación: CONF-2024-MA-0001',
+        '',
+        'Presenta este código o el código QR en el punto de encuentro.',
+        ''
+      ].join('\n')
+    });
+  });
+
+  it('should have every message in every language', () => {
+    const kinds: NotificationKind[] = ['confirmation', 'cancellation', 'reminder'];
+    for (const language of LANGUAGES) {
+      const rendered = kinds.map(kind => NotificationTemplates.render(kind, { ...context, language }));
+
+      expect(new Set(rendered.map(template => template.subject)).size).toBe(3);
+      rendered.forEach(template => expect(template.text).toContain('CONF-2024-MA-0001'));
+    }
+  });
+
+  it('should format dates and amounts for the language', () => {
+    const { subject, text } = NotificationTemplates.render('reminder', { ...context, language: 'en', activityName: 'Madrid City Walking Tour' });
+
+    expect(subject).toBe('Reminder: Madrid City Walking Tour on Sunday, December 15, 2024');
+    expect(text).toContain('Total: €89.90');
+  });
+
+  it('should leave out the time when the reservation has none', () => {
+    expect(NotificationTemplates.render('cancellation', { ...context, time: undefined }).text).not.toContain('Hora');
+  });
+});
+
+describe('NotificationService', () => {
+  it('should send a confirmation when a reservation is confirmed and a notice when it is cancelled', async () => {
+    const transport = new InMemoryNotificationTransport();
+    const bus = new InMemoryEventBus<ReservationEvent>();
+    new NotificationService(transport, { catalog }).subscribeTo(bus);
+    const created = reservation();
+    const event = ReservationEvents.statusChanged(created.confirm(), 'pending');
+
+    await bus.publish(ReservationEvents.created(created));
+    await bus.publish(event);
+    await bus.publish(ReservationEvents.statusChanged(created.confirm().cancel(), 'confirmed'));
+
+    expect(transport.sent.map(sent => sent.kind)).toEqual(['confirmation', 'cancellation']);
+    expect(transport.sent[0]).toMatchObject({
+      id: event.id,
+      reservationId: created.id,
+      to: 'maria@example.com',
+      language: 'es',
+      subject: `Confirmación de tu reserva ${created.confirmationCode}`
+    });
+    expect(transport.sent[0].text).toContain('Actividad: Tour a pie por Madrid');
+  });
+
+  it('should not confirm a reservation cancelled while still pending', async () => {
+    const transport = new InMemoryNotificationTransport();
+    const bus = new InMemoryEventBus<ReservationEvent>();
+    new NotificationService(transport).subscribeTo(bus);
+    const created = reservation();
+
+    await bus.publish(ReservationEvents.created(created));
+    await bus.publish(ReservationEvents.statusChanged(created.cancel(), 'pending'));
+
+    expect(transport.sent.map(sent => sent.kind)).toEqual(['cancellation']);
+  });
+
+  it('should stop listening once unsubscribed', async () => {
+    const transport = new InMemoryNotificationTransport();
+    const bus = new InMemoryEventBus<ReservationEvent>();
+    const unsubscribe = new NotificationService(transport).subscribeTo(bus);
+
+    unsubscribe();
+    await bus.publish(ReservationEvents.statusChanged(reservation().confirm(), 'pending'));
+
+    expect(transport.sent).toEqual([]);
+  });
+
+  it('should remind confirmed reservations only', async () => {
+    const transport = new InMemoryNotificationTransport();
+    const service = new NotificationService(transport);
+    const confirmed = reservation('de').confirm();
+
+    expect(await service.sendReminders([confirmed, reservation(), reservation().cancel()])).toBe(1);
+    expect(transport.sent).toHaveLength(1);
+    expect(transport.sent[0]).toMatchObject({ kind: 'reminder', reservationId: confirmed.id, language: 'de' });
+    expect(transport.sent[0].subject).toMatch(/^Erinnerung: act_madrid_tour_2024 am /);
+  });
+
+  it('should not send a message whose id was already sent', async () => {
+    const transport = new InMemoryNotificationTransport();
+    const sentMessages = new InMemorySentMessageStore();
+    const confirmed = reservation().confirm();
+
+    expect(await new NotificationService(transport, { sentMessages }).sendReminders([confirmed])).toBe(1);
+    expect(await new NotificationService(transport, { sentMessages }).sendReminders([confirmed])).toBe(0);
+    expect(transport.sent).toHaveLength(1);
+    expect(await sentMessages.has(`reminder-${confirmed.id}-2024-12-15`)).toBe(true);
+  });
+
+  it('should fail the event so the outbox relay retries the send', async () => {
+    const transport = new InMemoryNotificationTransport();
+    const send = jest.spyOn(transport, 'send').mockRejectedValueOnce(new Error('connection refused'));
+    const bus = new InMemoryEventBus<ReservationEvent>();
+    const outbox = new InMemoryOutbox<ReservationEvent>();
+    const relay = new OutboxRelay(outbox, bus, { retryDelayMs: 0 });
+    new NotificationService(transport).subscribeTo(bus);
+    const event = ReservationEvents.statusChanged(reservation().confirm(), 'pending');
+    await outbox.append([event]);
+    await outbox.commit([event.id]);
+
+    expect(await relay.deliverPending()).toBe(0);
+    expect((await outbox.pending())[0]).toMatchObject({ attempts: 1, lastError: expect.stringContaining(event.id) });
+
+    expect(await relay.deliverPending()).toBe(1);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(transport.sent.map(sent => sent.id)).toEqual([event.id]);
+  });
+
+  it('should leave the event dead-lettered in the outbox when every attempt fails', async () => {
+    const transport = new InMemoryNotificationTransport();
+    jest.spyOn(transport, 'send').mockRejectedValue(new Error('mailbox unavailable'));
+    const bus = new InMemoryEventBus<ReservationEvent>();
+    const outbox = new InMemoryOutbox<ReservationEvent>();
+    const relay = new OutboxRelay(outbox, bus, { retryDelayMs: 0, maxAttempts: 2 });
+    new NotificationService(transport).subscribeTo(bus);
+    const event = ReservationEvents.statusChanged(reservation().cancel(), 'pending');
+    await outbox.append([event]);
+    await outbox.commit([event.id]);
+
+    await relay.deliverPending();
+    await relay.deliverPending();
+
+    expect(await outbox.pending()).toEqual([]);
+    expect(await outbox.deadLettered()).toMatchObject([{ event: { id: event.id }, attempts: 2 }]);
+  });
+
+  it('should record a dead letter for a failed reminder and still send the others', async () => {
+    const transport = new InMemoryNotificationTransport();
+    jest.spyOn(transport, 'send').mockRejectedValueOnce(new Error('mailbox unavailable'));
+    const deadLetters = new InMemoryDeadLetterStore();
+    const service = new NotificationService(transport, { deadLetters });
+    const [failing, other] = [reservation().confirm(), reservation('en').confirm()];
+
+    expect(await service.sendReminders([failing, other])).toBe(1);
+
+    expect(transport.sent.map(sent => sent.reservationId)).toEqual([other.id]);
+    expect(await deadLetters.findAll()).toEqual([{
+      message: expect.objectContaining({ id: `reminder-${failing.id}-2024-12-15`, kind: 'reminder' }),
+      attempts: 1,
+      errors: ['mailbox unavailable'],
+      failedAt: expect.any(String)
+    }]);
+  });
+});
+
+describe('file notification stores', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'notifications-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should append each sent message as a JSON line', async () => {
+    const filePath = join(dir, 'mail', 'notifications.jsonl');
+    const transport = new FileNotificationTransport(filePath);
+
+    await transport.send(message);
+    await transport.send({ ...message, id: 'evt-2' });
+
+    const lines = readFileSync(filePath, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(line => line.id)).toEqual(['evt-1', 'evt-2']);
+    expect(lines[0]).toMatchObject({ ...message, sentAt: expect.any(String) });
+  });
+
+  it('should keep dead letters across instances', async () => {
+    const filePath = join(dir, 'dead-letters.jsonl');
+    const letter = { message, attempts: 3, errors: ['timeout'], failedAt: '2024-12-01T10:00:00.000Z' };
+
+    expect(await new FileDeadLetterStore(filePath).findAll()).toEqual([]);
+    await new FileDeadLetterStore(filePath).record(letter);
+
+    expect(await new FileDeadLetterStore(filePath).findAll()).toEqual([letter]);
+  });
+
+  it('should remember sent message ids across instances', async () => {
+    const filePath = join(dir, 'sent-notifications.jsonl');
+
+    await new FileSentMessageStore(filePath).record('reminder-res_1-2024-12-15');
+
+    const store = new FileSentMessageStore(filePath);
+    expect(await store.has('reminder-res_1-2024-12-15')).toBe(true);
+    expect(await store.has('evt-1')).toBe(false);
+  });
+});
+
+describe('SmtpNotificationTransport', () => {
+  let server: Server;
+  let port: number;
+  let commands: string[];
+  let data: string;
+
+  async function startServer(replies: Record<string, string> = {}): Promise<void> {
+    commands = [];
+    data = '';
+    server = createServer(socket => {
+      let buffer = '';
+      let inData = false;
+      socket.setEncoding('utf-8');
+      socket.write('220 localhost ESMTP test\r\n');
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        let end: number;
+        while ((end = buffer.indexOf('\r\n')) >= 0) {
+          const line = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              socket.write('250 2.0.0 queued\r\n');
+            } else {
+              data += `${line}\r\n`;
+            }
+            continue;
+          }
+          const verb = line.split(/[ :]/)[0];
+          commands.push(line);
+          if (replies[verb]) {
+            socket.write(`${replies[verb]}\r\n`);
+          } else if (verb === 'EHLO') {
+            socket.write('250-localhost\r\n250-8BITMIME\r\n250 SIZE 1000000\r\n');
+          } else if (verb === 'DATA') {
+            inData = true;
+            socket.write('354 end data with <CR><LF>.<CR><LF>\r\n');
+          } else if (verb === 'QUIT') {
+            socket.end('221 bye\r\n');
+          } else {
+            socket.write('250 OK\r\n');
+          }
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  }
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should deliver the message over SMTP', async () => {
+    await startServer();
+    const transport = new SmtpNotificationTransport({ port, from: 'reservations@example.com' });
+
+    await transport.send(message);
+
+    expect(commands).toEqual([
+      'EHLO localhost',
+      'MAIL FROM:<reservations@example.com>',
+      'RCPT TO:<maria@example.com>',
+      'DATA',
+      'QUIT'
+    ]);
+    const [headers, body] = data.split('\r\n\r\n');
+    expect(headers).toContain(`Subject: =?UTF-8?B?${Buffer.from(message.subject).toString('base64')}?=`);
+    expect(headers).toContain('Message-ID: <evt-1@localhost>');
+    expect(Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf-8')).toBe(message.text);
+  });
+
+  it('should fail with the server reply when a command is rejected', async () => {
+    await startServer({ RCPT: '550 5.1.1 mailbox unavailable' });
+    const transport = new SmtpNotificationTransport({ port, from: 'reservations@example.com' });
+
+    const error = await transport.send(message).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error.details).toEqual({ command: 'RCPT', replyCode: 550, reply: '5.1.1 mailbox unavailable' });
+  });
+
+  it('should fail when the server cannot be reached', async () => {
+    await startServer();
+    const transport = new SmtpNotificationTransport({ port, from: 'reservations@example.com' });
+    await new Promise(resolve => server.close(resolve));
+    server = createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    await expect(transport.send(message)).rejects.toThrow(/ECONNREFUSED/);
+  });
+});
@@ -0,0 +1,101 @@
+import { DEFAULT_PRICING_RULES, PricingEngine, PromotionProvider } from '../../src/domain/pricing/PricingEngine';
+import { Activity } from '../../src/domain/activities/Activity';
+import { Child, Reservation } from '../../src/domain/reservations/Reservation';
+import { ValidationError } from '../../src/errors/DomainError';
+import { EmailValidator } from '../../src/utils/Email';
+import { CurrencyUtils } from '../../src/utils/Currency';
+
+const activity = new Activity({
+  id: 'act_barcelona_aquarium_2024',
+  names: { en: 'Barcelona Aquarium' },
+  schedule: { daysOfWeek: ['fri'], slots: [{ time: '14:30', capacity: 30 }] },
+  pricePerPerson: CurrencyUtils.create(36.25, 'EUR')
+});
+
+function reservation(overrides: { numberOfPeople?: number; children?: Child[]; vipService?: boolean; promoCode?: string } = {}) {
+  return Reservation.create({
+    activityId: 'act_barcelona_aquarium_2024',
+    name: 'John Smith',
+    email: EmailValidator.validate('john.smith@example.com'),
+    date: '2024-12-20',
+    time: '14:30',
+    numberOfPeople: overrides.numberOfPeople ?? 2,
+    amount: CurrencyUtils.create(72.50, 'EUR'),
+    children: overrides.children,
+    vipService: overrides.vipService,
+    promoCode: overrides.promoCode
+  });
+}
+
+describe('PricingEngine', () => {
+  const engine = new PricingEngine();
+
+  it('should charge adults the activity price per person', async () => {
+    const quote = await engine.quote(reservation(), activity);
+
+    expect(quote.lineItems).toEqual([{
+      kind: 'charge',
+      code: 'adult',
+      description: 'Adult',
+      quantity: 2,
+      unitPrice: CurrencyUtils.create(36.25, 'EUR'),
+      amount: CurrencyUtils.create(72.50, 'EUR')
+    }]);
+    expect(quote.total).toEqual(CurrencyUtils.create(72.50, 'EUR'));
+  });
+
+  it('should price children by age band', async () => {
+    const quote = await engine.quote(reservation({
+      numberOfPeople: 5,
+      children: [{ age: 1, name: 'Baby Smith' }, { age: 6, name: 'Emma Smith' }, { age: 8, name: 'Oliver Smith' }]
+    }), activity);
+
+    expect(quote.lineItems.map(item => [item.code, item.quantity, item.amount.amount])).toEqual([
+      ['adult', 2, 72.50],
+      ['infant', 1, 0],
+      ['child', 2, 36.26]
+    ]);
+    expect(quote.lineItems[2].description).toBe('Child (3-11 years)');
+    expect(quote.total.amount).toBe(108.76);
+  });
+
+  it('should add the VIP surcharge on top of the participants', async () => {
+    const quote = await engine.quote(reservation({ numberOfPeople: 3, children: [{ age: 14, name: 'Lucas Smith' }], vipService: true }), activity);
+
+    expect(quote.lineItems.map(item => [item.code, item.amount.amount])).toEqual([
+      ['adult', 72.50],
+      ['teen', 29.00],
+      ['vip_surcharge', 25.38]
+    ]);
+    expect(quote.subtotal.amount).toBe(126.88);
+  });
+
+  it('should apply the discount returned by the promotion provider, capped at the subtotal', async () => {
+    const promotions: PromotionProvider = {
+      discountFor: async (_reservation, subtotal) => CurrencyUtils.allocate(subtotal, [1, 9])[0]
+    };
+    const quote = await new PricingEngine(DEFAULT_PRICING_RULES, promotions).quote(reservation({ promoCode: 'SUMMER2024' }), activity);
+
+    expect(quote.lineItems[1]).toMatchObject({ kind: 'discount', code: 'promo_discount', description: 'Promo code SUMMER2024' });
+    expect(quote.discount.amount).toBe(7.25);
+    expect(quote.total.amount).toBe(65.25);
+
+    const generous = new PricingEngine(DEFAULT_PRICING_RULES, { discountFor: async () => CurrencyUtils.create(500, 'EUR') });
+    expect((await generous.quote(reservation({ promoCode: 'FREEBIE1' }), activity)).total.amount).toBe(0);
+  });
+
+  it('should reject promo codes the provider does not recognise', async () => {
+    await expect(engine.quote(reservation({ promoCode: 'UNKNOWN1' }), activity)).rejects.toThrow('Promo code UNKNOWN1 is not valid');
+  });
+
+  describe('assertTotal', () => {
+    it('should accept a matching total and reject a different amount or currency', async () => {
+      const quote = await engine.quote(reservation(), activity);
+
+      expect(() => PricingEngine.assertTotal(quote, CurrencyUtils.create(72.50, 'EUR'))).not.toThrow();
+      expect(() => PricingEngine.assertTotal(quote, CurrencyUtils.create(80, 'EUR')))
+        .toThrow('Total amount does not match the calculated price of 72.50 EUR');
+      expect(() => PricingEngine.assertTotal(quote, CurrencyUtils.create(72.50, 'USD'))).toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { join } from 'path';
+import { PromoCode, PromoCodeData } from '../../src/domain/promotions/PromoCode';
+import { InMemoryPromoCodeCatalog } from '../../src/domain/promotions/PromoCodeCatalog';
+import { FilePromoCodeCatalog } from '../../src/domain/promotions/FilePromoCodeCatalog';
+import { PromoCodePolicy } from '../../src/domain/promotions/PromoCodePolicy';
+import { Reservation } from '../../src/domain/reservations/Reservation';
+import { ValidationError } from '../../src/errors/DomainError';
+import { EmailValidator } from '../../src/utils/Email';
+import { CurrencyUtils } from '../../src/utils/Currency';
+
+function promo(overrides: Partial<PromoCodeData> = {}): PromoCode {
+  return new PromoCode({ code: 'SUMMER2024', discount: { type: 'percentage', percent: 15 }, ...overrides });
+}
+
+function reservation(overrides: { email?: string; activityId?: string; promoCode?: string; bookedAt?: string } = {}): Reservation {
+  const created = Reservation.create({
+    activityId: overrides.activityId ?? 'act_madrid_tour_2024',
+    name: 'María García',
+    email: EmailValidator.validate(overrides.email ?? 'maria@example.com'),
+    date: '2024-12-15',
+    numberOfPeople: 2,
+    amount: CurrencyUtils.create(89.90, 'EUR'),
+    promoCode: overrides.promoCode ?? 'SUMMER2024'
+  });
+  return new Reservation({ ...created.toJSON(), createdAt: new Date(overrides.bookedAt ?? '2024-07-01T10:00:00Z') });
+}
+
+describe('PromoCode', () => {
+  it('should compute percentage and fixed discounts capped at the subtotal', () => {
+    const subtotal = CurrencyUtils.create(89.90, 'EUR');
+
+    expect(promo().discountOn(subtotal)).toEqual(CurrencyUtils.create(13.49, 'EUR'));
+    expect(promo({ discount: { type: 'fixed', amount: CurrencyUtils.create(5, 'EUR') } }).discountOn(subtotal))
+      .toEqual(CurrencyUtils.create(5, 'EUR'));
+    expect(promo({ discount: { type: 'fixed', amount: CurrencyUtils.create(500, 'EUR') } }).discountOn(subtotal))
+      .toEqual(subtotal);
+  });
+
+  it('should restrict fixed discounts to their own currency', () => {
+    const fixed = promo({ discount: { type: 'fixed', amount: CurrencyUtils.create(5, 'EUR') } });
+
+    expect(fixed.accepts('EUR')).toBe(true);
+    expect(fixed.accepts('USD')).toBe(false);
+    expect(promo({ currencies: ['GBP'] }).accepts('EUR')).toBe(false);
+  });
+
+  it('should reject invalid definitions', () => {
+    expect(() => promo({ code: 'summer' })).toThrow(ValidationError);
+    expect(() => promo({ discount: { type: 'percentage', percent: 120 } })).toThrow('Percentage discount');
+    expect(() => promo({ startDate: '2024-09-30', endDate: '2024-06-01' })).toThrow('endDate cannot be before startDate');
+    expect(() => promo({ maxUses: 0 })).toThrow('maxUses must be a positive integer');
+  });
+});
+
+describe('PromoCodeCatalog', () => {
+  it('should find promo codes in memory and in the bundled file', async () => {
+    expect(await new InMemoryPromoCodeCatalog([promo()]).findByCode('SUMMER2024')).toBeInstanceOf(PromoCode);
+
+    const file = new FilePromoCodeCatalog(join(__dirname, '../../data/promo-codes.json'));
+    expect((await file.findByCode('AQUARIUM5'))?.discount).toEqual({ type: 'fixed', amount: CurrencyUtils.create(5, 'EUR') });
+    expect(await file.findByCode('UNKNOWN1')).toBeUndefined();
+  });
+});
+
+describe('PromoCodePolicy', () => {
+  const subtotal = CurrencyUtils.create(89.90, 'EUR');
+
+  function policy(overrides: Partial<PromoCodeData> = {}): PromoCodePolicy {
+    return new PromoCodePolicy(new InMemoryPromoCodeCatalog([promo({
+      startDate: '2024-06-01',
+      endDate: '2024-09-30',
+      ...overrides
+    })]));
+  }
+
+  function rejection(message: string) {
+    return expect.objectContaining({
+      validationErrors: [{ field: 'promoCode', code: 'INVALID_PROMO_CODE', message, rejectedValue: 'SUMMER2024' }]
+    });
+  }
+
+  it('should return the discount for a valid code', async () => {
+    await expect(policy().discountFor(reservation(), subtotal, [])).resolves.toEqual(CurrencyUtils.create(13.49, 'EUR'));
+  });
+
+  it('should reject unknown codes', async () => {
+    await expect(new PromoCodePolicy(new InMemoryPromoCodeCatalog()).discountFor(reservation(), subtotal, []))
+      .rejects.toThrow(rejection('Promo code SUMMER2024 does not exist'));
+  });
+
+  it('should reject codes outside their validity window at booking time', async () => {
+    await expect(policy().discountFor(reservation({ bookedAt: '2024-10-01T00:00:00Z' }), subtotal, []))
+      .rejects.toThrow(rejection('Promo code SUMMER2024 expired on 2024-09-30'));
+    await expect(policy().discountFor(reservation({ bookedAt: '2024-05-31T23:59:59Z' }), subtotal, []))
+      .rejects.toThrow(rejection('Promo code SUMMER2024 is not valid before 2024-06-01'));
+  });
+
+  it('should reject codes scoped to other activities or currencies', async () => {
+    await expect(policy({ activityIds: ['act_barcelona_aquarium_2024'] }).discountFor(reservation(), subtotal, []))
+      .rejects.toThrow(rejection('Promo code SUMMER2024 does not apply to activity act_madrid_tour_2024'));
+    await expect(policy({ currencies: ['USD'] }).discountFor(reservation(), subtotal, []))
+      .rejects.toThrow(rejection('Promo code SUMMER2024 cannot be used for payments in EUR'));
+  });
+
+  it('should reject exhausted codes', async () => {
+    const used = [reservation({ email: 'a@example.com' }), reservation({ email: 'b@example.com' })];
+
+    await expect(policy({ maxUses: 2 }).discountFor(reservation(), subtotal, used))
+      .rejects.toThrow(rejection('Promo code SUMMER2024 has reached its usage limit'));
+    await expect(policy({ maxUses: 3 }).discountFor(reservation(), subtotal, used)).resolves.toBeDefined();
+  });
+
+  it('should cap uses per customer by canonical email', async () => {
+    const used = [reservation({ email: 'Maria@Example.com' })];
+
+    await expect(policy({ maxUsesPerCustomer: 1 }).discountFor(reservation(), subtotal, used))
+      .rejects.toThrow(rejection('Promo code SUMMER2024 has already been used the maximum number of times by this customer'));
+    await expect(policy({ maxUsesPerCustomer: 1 }).discountFor(reservation({ email: 'other@example.com' }), subtotal, used))
+      .resolves.toBeDefined();
+  });
+
+  it('should not count the reservation being repriced', async () => {
+    const own = reservation();
+
+    await expect(policy({ maxUses: 1 }).discountFor(own, subtotal, [own])).resolves.toBeDefined();
+  });
+});
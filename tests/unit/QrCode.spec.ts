@@ -0,0 +1,95 @@
+import { inflateSync } from 'zlib';
+import { QrCode, QrCodeCapacityError } from '../../src/utils/QrCode';
+import { QrCodeRenderer } from '../../src/utils/QrCodeRenderer';
+
+function finderAt(qr: QrCode, left: number, top: number): string[] {
+  return Array.from({ length: 7 }, (_, y) =>
+    Array.from({ length: 7 }, (_, x) => (qr.isDark(left + x, top + y) ? '#' : '.')).join('')
+  );
+}
+
+const FINDER = ['#######', '#.....#', '#.###.#', '#.###.#', '#.###.#', '#.....#', '#######'];
+
+describe('QrCode', () => {
+  it('should compute Reed-Solomon error correction codewords', () => {
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+
+    expect(QrCode.reedSolomon(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+
+  it('should compute BCH format and version information', () => {
+    expect(QrCode.formatBits(0)).toBe(0b101010000010010);
+    expect(QrCode.formatBits(5)).toBe(0b100000011001110);
+    expect(QrCode.formatBits(7)).toBe(0b100101010100000);
+    expect(QrCode.versionBits(7)).toBe(0b000111110010010100);
+    expect(QrCode.versionBits(10)).toBe(0b001010010011010011);
+  });
+
+  it('should pick the smallest version that fits the text', () => {
+    expect(QrCode.encode('x'.repeat(14)).size).toBe(21);
+    expect(QrCode.encode('x'.repeat(15)).version).toBe(2);
+    expect(QrCode.encode('CONF-2024-MA-1234').size).toBe(25);
+    expect(QrCode.encode('x'.repeat(213)).version).toBe(10);
+    expect(() => QrCode.encode('x'.repeat(214))).toThrow(QrCodeCapacityError);
+  });
+
+  it('should draw finder, timing and dark module patterns', () => {
+    const qr = QrCode.encode('https://example.com/v1/reservations/res_0a1b2c3d4e5f6/qr');
+    const size = qr.size;
+
+    expect(finderAt(qr, 0, 0)).toEqual(FINDER);
+    expect(finderAt(qr, size - 7, 0)).toEqual(FINDER);
+    expect(finderAt(qr, 0, size - 7)).toEqual(FINDER);
+    for (let i = 8; i < size - 8; i++) {
+      expect(qr.isDark(i, 6)).toBe(i % 2 === 0);
+      expect(qr.isDark(6, i)).toBe(i % 2 === 0);
+    }
+    expect(qr.isDark(8, size - 8)).toBe(true);
+  });
+
+  it('should write the format information of the chosen mask next to the finders', () => {
+    const qr = QrCode.encode('CONF-2024-MA-1234');
+    const bits = QrCode.formatBits(qr.mask);
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+    for (let i = 0; i < 8; i++) {
+      expect(qr.isDark(qr.size - 1 - i, 8)).toBe(bit(i));
+    }
+    for (let i = 8; i < 15; i++) {
+      expect(qr.isDark(8, qr.size - 15 + i)).toBe(bit(i));
+    }
+  });
+});
+
+describe('QrCodeRenderer', () => {
+  const qr = QrCode.encode('CONF-2024-MA-1234');
+
+  it('should render an SVG with a quiet zone', () => {
+    const svg = QrCodeRenderer.toSvg(qr);
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" viewBox="0 0 33 33"/);
+    expect(svg).toContain('M4,4h1v1h-1z');
+    expect(svg).not.toContain('M3,3h1v1h-1z');
+  });
+
+  it('should render a grayscale PNG', () => {
+    const png = QrCodeRenderer.toPng(qr, { scale: 2, margin: 4 });
+
+    expect(png.subarray(0, 8)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    expect(png.toString('ascii', 12, 16)).toBe('IHDR');
+    expect(png.readUInt32BE(16)).toBe(66);
+    expect(png.readUInt32BE(20)).toBe(66);
+
+    const idatLength = png.readUInt32BE(33);
+    const pixels = inflateSync(png.subarray(41, 41 + idatLength));
+    const pixel = (x: number, y: number) => pixels[y * 67 + 1 + x];
+    expect(pixel(0, 0)).toBe(0xff);
+    expect(pixel(8, 8)).toBe(0x00);
+    expect(pixel(10, 10)).toBe(0xff);
+    expect(pixel(12, 12)).toBe(0x00);
+  });
+
+  it('should checksum chunks with CRC-32', () => {
+    expect(QrCodeRenderer.crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+});
@@ -0,0 +1,85 @@
+import { InMemoryRateLimitStore, RateLimiter, TokenBucket, TokenBucketRule } from '../../src/api/RateLimiter';
+
+describe('TokenBucket', () => {
+  const rule: TokenBucketRule = { capacity: 2, refillPerSecond: 0.5 };
+
+  it('should start full and spend one token per request', () => {
+    const { state, decision } = TokenBucket.take(undefined, rule, 0);
+
+    expect(state).toEqual({ tokens: 1, updatedAt: 0 });
+    expect(decision).toEqual({ allowed: true, limit: 2, remaining: 1, retryAfterMs: 0, resetMs: 2000 });
+  });
+
+  it('should deny an empty bucket and say when the next token arrives', () => {
+    const { decision } = TokenBucket.take({ tokens: 0.5, updatedAt: 0 }, rule, 0);
+
+    expect(decision).toEqual({ allowed: false, limit: 2, remaining: 0, retryAfterMs: 1000, resetMs: 3000 });
+  });
+
+  it('should refill continuously up to the capacity', () => {
+    expect(TokenBucket.take({ tokens: 0, updatedAt: 0 }, rule, 2000).decision.allowed).toBe(true);
+    expect(TokenBucket.take({ tokens: 0, updatedAt: 0 }, rule, 60000).state.tokens).toBe(1);
+  });
+
+  it('should parse rules from configuration', () => {
+    expect(TokenBucket.parseRule('10/60')).toEqual({ capacity: 10, refillPerSecond: 10 / 60 });
+    expect(TokenBucket.parseRule(' 5 / 1s ')).toEqual({ capacity: 5, refillPerSecond: 5 });
+    expect(TokenBucket.parseRule('OFF')).toBeUndefined();
+  });
+
+  it.each(['', '10', '0/60', '10/0', 'ten/60'])('should reject the rule "%s"', value => {
+    expect(() => TokenBucket.parseRule(value)).toThrow('expected <capacity>/<seconds> or off');
+  });
+});
+
+describe('InMemoryRateLimitStore', () => {
+  const rule: TokenBucketRule = { capacity: 1, refillPerSecond: 1 };
+
+  it('should keep separate buckets per key', async () => {
+    const store = new InMemoryRateLimitStore();
+
+    expect((await store.consume('a', rule, 0)).allowed).toBe(true);
+    expect((await store.consume('a', rule, 0)).allowed).toBe(false);
+    expect((await store.consume('b', rule, 0)).allowed).toBe(true);
+  });
+
+  it('should evict idle buckets before recently used ones when it runs out of keys', async () => {
+    const store = new InMemoryRateLimitStore(2);
+
+    await store.consume('idle', rule, 0);
+    await store.consume('busy', rule, 5000);
+    await store.consume('new', rule, 5000);
+
+    expect((await store.consume('busy', rule, 5000)).allowed).toBe(false);
+    expect((await store.consume('idle', rule, 5000)).allowed).toBe(true);
+  });
+
+  it('should evict the least recently used bucket when every bucket is in use', async () => {
+    const store = new InMemoryRateLimitStore(2);
+
+    await store.consume('first', rule, 0);
+    await store.consume('second', rule, 0);
+    await store.consume('third', rule, 0);
+
+    expect((await store.consume('first', rule, 0)).allowed).toBe(true);
+    expect((await store.consume('third', rule, 0)).allowed).toBe(false);
+  });
+});
+
+describe('RateLimiter', () => {
+  it('should prefix keys with the dimension', async () => {
+    const limiter = new RateLimiter({ ip: { capacity: 1, refillPerSecond: 1 }, email: { capacity: 1, refillPerSecond: 1 } }, undefined, () => 0);
+
+    await limiter.consume('ip', 'same');
+
+    expect((await limiter.consume('email', 'same'))?.allowed).toBe(true);
+    expect((await limiter.consume('ip', 'same'))?.allowed).toBe(false);
+  });
+
+  it('should skip dimensions without a rule or a value', async () => {
+    const limiter = new RateLimiter({ ip: { capacity: 1, refillPerSecond: 1 } });
+
+    await expect(limiter.consume('email', 'ana@example.com')).resolves.toBeUndefined();
+    await expect(limiter.consume('ip', undefined)).resolves.toBeUndefined();
+  });
+});
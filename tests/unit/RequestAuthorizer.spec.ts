@@ -0,0 +1,68 @@
+import { createHmac } from 'crypto';
+import { JwtVerifier } from '../../src/api/JwtVerifier';
+import { JwtAuthorizer } from '../../src/api/RequestAuthorizer';
+
+const secret = 'test-secret-with-enough-entropy';
+
+function token(payload: Record<string, unknown>): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({ exp: Math.floor(Date.now() / 1000) + 3600, ...payload })}`;
+  return `${input}.${createHmac('sha256', secret).update(input).digest('base64url')}`;
+}
+
+describe('JwtAuthorizer', () => {
+  const authorizer = new JwtAuthorizer(new JwtVerifier({ keys: [{ algorithm: 'HS256', key: secret }] }));
+
+  it('should allow every operation to booking agents', async () => {
+    const agent = token({ roles: ['BOOKING_AGENT'] });
+
+    for (const operationId of ['createReservation', 'listReservations', 'getReservation', 'updateReservation', 'cancelReservation']) {
+      await expect(authorizer.authorize(agent, operationId)).resolves.toEqual({ subject: undefined });
+    }
+  });
+
+  it('should only allow reads to viewers', async () => {
+    const viewer = token({ roles: ['VIEWER'] });
+
+    await expect(authorizer.authorize(viewer, 'getReservation')).resolves.toEqual({ subject: undefined });
+    await expect(authorizer.authorize(viewer, 'getReservationQrCode')).resolves.toEqual({ subject: undefined });
+    await expect(authorizer.authorize(viewer, 'cancelReservation')).rejects.toMatchObject({
+      status: 403,
+      code: 'INSUFFICIENT_PERMISSIONS',
+      message: 'You do not have permission to perform this operation',
+      details: { requiredRole: 'BOOKING_AGENT', currentRole: 'VIEWER' }
+    });
+  });
+
+  it('should describe the permission needed to create reservations', async () => {
+    await expect(authorizer.authorize(token({ roles: ['VIEWER'] }), 'createReservation')).rejects.toMatchObject({
+      message: 'You do not have permission to create reservations for this activity',
+      details: { requiredRole: 'BOOKING_AGENT', currentRole: 'VIEWER' }
+    });
+  });
+
+  it('should grant operations through OAuth scopes', async () => {
+    const scoped = token({ scope: 'reservations:read reservations:cancel' });
+
+    await expect(authorizer.authorize(scoped, 'cancelReservation')).resolves.toEqual({ subject: undefined });
+    await expect(authorizer.authorize(scoped, 'updateReservation')).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('should return the token subject', async () => {
+    await expect(authorizer.authorize(token({ sub: 'agent-42', roles: ['VIEWER'] }), 'listReservations')).resolves.toEqual({
+      subject: 'agent-42'
+    });
+  });
+
+  it('should ignore unknown roles and operations', async () => {
+    await expect(authorizer.authorize(token({ roles: ['ROOT'] }), 'listReservations')).rejects.toMatchObject({ status: 403 });
+    await expect(authorizer.authorize(token({ roles: ['BOOKING_AGENT'] }), 'deleteEverything')).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('should reject invalid tokens before checking permissions', async () => {
+    await expect(authorizer.authorize('not-a-jwt', 'getReservation')).rejects.toMatchObject({
+      status: 401,
+      code: 'AUTH_TOKEN_INVALID'
+    });
+  });
+});
@@ -1,7 +1,39 @@
-import { Reservation } from '../../src/domain/reservations/Reservation';
+import { Reservation, ReservationData } from '../../src/domain/reservations/Reservation';
+import { InvalidStatusTransitionError, ReservationNotModifiableError } from '../../src/domain/reservations/ReservationErrors';
+import { ValidationError } from '../../src/errors/DomainError';
 import { EmailValidator } from '../../src/utils/Email';
 import { CurrencyUtils } from '../../src/utils/Currency';
 
+function reservationData(overrides: Partial<ReservationData> = {}): ReservationData {
+  return {
+    id: 'test-id-123',
+    confirmationCode: 'CONF-2024-MA-1234',
+    activityId: 'act_madrid_tour_2024',
+    name: 'John Doe',
+    email: EmailValidator.validate('john@example.com'),
+    date: '2024-12-15',
+    numberOfPeople: 2,
+    amount: CurrencyUtils.create(100, 'EUR'),
+    language: 'en',
+    children: [],
+    vipService: false,
+    dietaryRestrictions: [],
+    status: 'pending',
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    ...overrides
+  };
+}
+
+const createData = {
+  activityId: 'act_madrid_tour_2024',
+  date: '2024-12-15',
+  numberOfPeople: 2,
+  name: 'John Doe',
+  email: EmailValidator.validate('john@example.com'),
+  amount: CurrencyUtils.create(100, 'EUR')
+};
+
 describe('Reservation', () => {
   describe('constructor', () => {
     it('should create a reservation with all properties', () => {
@@ -11,7 +43,7 @@ describe('Reservation', () => {
       const amount = CurrencyUtils.create(100, 'EUR');
       const createdAt = new Date('2024-01-01');
 
-      const reservation = new Reservation(id, name, email, amount, createdAt);
+      const reservation = new Reservation(reservationData({ id, name, email, amount, createdAt }));
 
       expect(reservation.id).toBe(id);
       expect(reservation.name).toBe(name);
@@ -21,13 +53,7 @@ describe('Reservation', () => {
     });
 
     it('should create reservation with readonly properties', () => {
-      const reservation = new Reservation(
-        'id',
-        'John Doe',
-        EmailValidator.validate('john@example.com'),
-        CurrencyUtils.create(100, 'EUR'),
-        new Date()
-      );
+      const reservation = new Reservation(reservationData({ id: 'id', createdAt: new Date() }));
 
       // TypeScript enforces readonly at compile time
       // This test verifies the object structure
@@ -41,10 +67,11 @@ describe('Reservation', () => {
       const email = EmailValidator.validate('john@example.com');
       const amount = CurrencyUtils.create(100, 'EUR');
 
-      const reservation = Reservation.create({ name, email, amount });
+      const reservation = Reservation.create({ ...createData, name, email, amount });
 
       expect(reservation.id).toBeDefined();
-      expect(reservation.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i);
+      expect(reservation.id).toMatch(/^res_[a-z0-9]+$/);
+      expect(reservation.confirmationCode).toMatch(/^CONF-2024-MA-\d{4}$/);
       expect(reservation.name).toBe(name);
       expect(reservation.email).toBe(email);
       expect(reservation.amount).toBe(amount);
@@ -53,20 +80,17 @@ describe('Reservation', () => {
     });
 
     it('should generate unique ids for multiple reservations', () => {
-      const data = {
-        name: 'John Doe',
-        email: EmailValidator.validate('john@example.com'),
-        amount: CurrencyUtils.create(100, 'EUR'),
-      };
-
-      const reservation1 = Reservation.create(data);
-      const reservation2 = Reservation.create(data);
+      const reservation1 = Reservation.create(createData);
+      const reservation2 = Reservation.create(createData);
 
       expect(reservation1.id).not.toBe(reservation2.id);
     });
 
     it('should create reservation with different currencies', () => {
       const usdReservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email: EmailValidator.validate('john@example.com'),
         amount: CurrencyUtils.create(100, 'USD'),
@@ -79,6 +103,9 @@ describe('Reservation', () => {
     it('should handle long names', () => {
       const longName = 'A'.repeat(200);
       const reservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: longName,
         email: EmailValidator.validate('john@example.com'),
         amount: CurrencyUtils.create(100, 'EUR'),
@@ -91,6 +118,9 @@ describe('Reservation', () => {
     it('should handle special characters in name', () => {
       const specialName = 'José María Ñoño-O\'Brien';
       const reservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: specialName,
         email: EmailValidator.validate('jose@example.com'),
         amount: CurrencyUtils.create(100, 'EUR'),
@@ -101,6 +131,9 @@ describe('Reservation', () => {
 
     it('should handle zero amount', () => {
       const reservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email: EmailValidator.validate('john@example.com'),
         amount: CurrencyUtils.create(0, 'EUR'),
@@ -112,6 +145,9 @@ describe('Reservation', () => {
     it('should handle large amounts', () => {
       const largeAmount = 999999.99;
       const reservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email: EmailValidator.validate('john@example.com'),
         amount: CurrencyUtils.create(largeAmount, 'EUR'),
@@ -121,6 +157,246 @@ describe('Reservation', () => {
     });
   });
 
+  describe('create with the full reservation model', () => {
+    it('should apply contract defaults for optional fields', () => {
+      const reservation = Reservation.create(createData);
+
+      expect(reservation.language).toBe('en');
+      expect(reservation.children).toEqual([]);
+      expect(reservation.vipService).toBe(false);
+      expect(reservation.dietaryRestrictions).toEqual([]);
+      expect(reservation.phone).toBeUndefined();
+      expect(reservation.time).toBeUndefined();
+      expect(reservation.promoCode).toBeUndefined();
+    });
+
+    it('should keep every field of a family reservation', () => {
+      const reservation = Reservation.create({
+        ...createData,
+        activityId: 'act_barcelona_aquarium_2024',
+        phone: '+447700900123',
+        date: '2024-12-20',
+        time: '14:30',
+        numberOfPeople: 4,
+        specialRequirements: '2 adultos y 2 niños (6 y 8 años)',
+        language: 'es',
+        children: [{ age: 6, name: 'Emma Smith' }, { age: 8, name: 'Oliver Smith' }],
+        vipService: true,
+        dietaryRestrictions: ['vegetarian', 'gluten-free'],
+        promoCode: 'SUMMER2024'
+      });
+
+      expect(reservation.activityId).toBe('act_barcelona_aquarium_2024');
+      expect(reservation.phone).toBe('+447700900123');
+      expect(reservation.date).toBe('2024-12-20');
+      expect(reservation.time).toBe('14:30');
+      expect(reservation.numberOfPeople).toBe(4);
+      expect(reservation.language).toBe('es');
+      expect(reservation.children).toHaveLength(2);
+      expect(reservation.vipService).toBe(true);
+      expect(reservation.dietaryRestrictions).toEqual(['vegetarian', 'gluten-free']);
+      expect(reservation.promoCode).toBe('SUMMER2024');
+    });
+
+    it('should reject an activity id outside the contract pattern', () => {
+      expect(() => Reservation.create({ ...createData, activityId: 'A-1' })).toThrow('Invalid activity id');
+    });
+
+    it('should reject phone numbers that are not E.164', () => {
+      expect(() => Reservation.create({ ...createData, phone: '612345678' })).toThrow('expected E.164 format');
+    });
+
+    it('should reject dates that are not YYYY-MM-DD', () => {
+      expect(() => Reservation.create({ ...createData, date: '15/12/2024' })).toThrow('Invalid date');
+    });
+
+    it('should reject dates that do not exist in the calendar', () => {
+      ['2024-02-31', '2023-02-29', '2024-13-01', '2024-04-31', '2024-00-10'].forEach(date => {
+        expect(() => Reservation.create({ ...createData, date })).toThrow('Invalid date');
+      });
+      expect(Reservation.create({ ...createData, date: '2024-02-29' }).date).toBe('2024-02-29');
+    });
+
+    it('should reject times that are not HH:mm', () => {
+      ['24:00', '9:00', '10:60'].forEach(time => {
+        expect(() => Reservation.create({ ...createData, time })).toThrow('Invalid time');
+      });
+    });
+
+    it('should enforce 1 to 50 people', () => {
+      expect(() => Reservation.create({ ...createData, numberOfPeople: 0 })).toThrow('between 1 and 50');
+      expect(() => Reservation.create({ ...createData, numberOfPeople: 51 })).toThrow('between 1 and 50');
+      expect(() => Reservation.create({ ...createData, numberOfPeople: 2.5 })).toThrow('between 1 and 50');
+      expect(Reservation.create({ ...createData, numberOfPeople: 50 }).numberOfPeople).toBe(50);
+    });
+
+    it('should reject unsupported languages', () => {
+      expect(() => Reservation.create({ ...createData, language: 'ru' as never })).toThrow('Unsupported language');
+    });
+
+    it('should enforce child ages between 0 and 17', () => {
+      expect(() => Reservation.create({ ...createData, numberOfPeople: 3, children: [{ age: 18, name: 'Emma' }] }))
+        .toThrow('Child age must be between 0 and 17');
+      expect(() => Reservation.create({ ...createData, numberOfPeople: 3, children: [{ age: -1, name: 'Emma' }] }))
+        .toThrow('Child age must be between 0 and 17');
+      expect(Reservation.create({ ...createData, numberOfPeople: 3, children: [{ age: 0, name: 'Emma' }] }).children)
+        .toHaveLength(1);
+    });
+
+    it('should require at least one adult', () => {
+      expect(() => Reservation.create({
+        ...createData,
+        numberOfPeople: 2,
+        children: [{ age: 6, name: 'Emma' }, { age: 8, name: 'Oliver' }]
+      })).toThrow('at least one adult');
+    });
+
+    it('should reject invalid child names, dietary restrictions and promo codes', () => {
+      expect(() => Reservation.create({ ...createData, numberOfPeople: 3, children: [{ age: 5, name: 'E' }] }))
+        .toThrow('Child name must be between 2 and 100 characters');
+      expect(() => Reservation.create({ ...createData, dietaryRestrictions: ['paleo' as never] }))
+        .toThrow('Unsupported dietary restriction');
+      expect(() => Reservation.create({ ...createData, promoCode: 'summer' })).toThrow('Invalid promo code');
+    });
+
+    it('should reject more than 20 children', () => {
+      const children = Array.from({ length: 21 }, (_, i) => ({ age: 5, name: `Child ${i}` }));
+
+      expect(() => Reservation.create({ ...createData, numberOfPeople: 50, children }))
+        .toThrow('more than 20 children');
+    });
+
+    it('should report the offending field as a typed validation error', () => {
+      expect(() => Reservation.create({ ...createData, numberOfPeople: 51 })).toThrow(ValidationError);
+      expect(() => Reservation.create({ ...createData, numberOfPeople: 51 })).toThrow(expect.objectContaining({
+        code: 'VALIDATION_ERROR',
+        validationErrors: [{
+          field: 'numberOfPeople',
+          message: 'Number of people must be between 1 and 50',
+          code: 'OUT_OF_RANGE',
+          rejectedValue: 51,
+          allowedRange: { min: 1, max: 50 }
+        }]
+      }));
+      expect(() => Reservation.create({ ...createData, numberOfPeople: 3, children: [{ age: 5, name: 'E' }] }))
+        .toThrow(expect.objectContaining({
+          validationErrors: [expect.objectContaining({ field: 'children[0].name', rejectedValue: 'E' })]
+        }));
+    });
+  });
+
+  describe('status lifecycle', () => {
+    const confirmedAt = new Date('2024-01-02T09:00:00.000Z');
+
+    it('should start as pending with updatedAt equal to createdAt', () => {
+      const reservation = Reservation.create(createData);
+
+      expect(reservation.status).toBe('pending');
+      expect(reservation.updatedAt).toEqual(reservation.createdAt);
+    });
+
+    it('should confirm a pending reservation and track updatedAt', () => {
+      const pending = new Reservation(reservationData());
+      const confirmed = pending.confirm(confirmedAt);
+
+      expect(confirmed.status).toBe('confirmed');
+      expect(confirmed.updatedAt).toBe(confirmedAt);
+      expect(confirmed.createdAt).toBe(pending.createdAt);
+      expect(confirmed.id).toBe(pending.id);
+    });
+
+    it('should leave the original instance untouched', () => {
+      const pending = new Reservation(reservationData());
+      pending.confirm(confirmedAt);
+
+      expect(pending.status).toBe('pending');
+    });
+
+    it('should allow cancelling pending and confirmed reservations', () => {
+      expect(new Reservation(reservationData()).cancel().status).toBe('cancelled');
+      expect(new Reservation(reservationData({ status: 'confirmed' })).cancel().status).toBe('cancelled');
+    });
+
+    it('should complete or mark no-show only confirmed reservations', () => {
+      const confirmed = new Reservation(reservationData({ status: 'confirmed' }));
+
+      expect(confirmed.complete().status).toBe('completed');
+      expect(confirmed.markNoShow().status).toBe('no-show');
+      expect(() => new Reservation(reservationData()).complete()).toThrow(InvalidStatusTransitionError);
+      expect(() => new Reservation(reservationData()).markNoShow()).toThrow(InvalidStatusTransitionError);
+    });
+
+    it('should reject any transition out of a terminal status', () => {
+      (['cancelled', 'completed', 'no-show'] as const).forEach(status => {
+        const reservation = new Reservation(reservationData({ status }));
+
+        expect(() => reservation.confirm()).toThrow(InvalidStatusTransitionError);
+        expect(() => reservation.cancel()).toThrow(`Cannot change reservation test-id-123 from ${status} to cancelled`);
+      });
+    });
+
+    it('should report the rejected transition', () => {
+      const completed = new Reservation(reservationData({ status: 'completed' }));
+
+      expect(() => completed.cancel()).toThrow(expect.objectContaining({
+        reservationId: 'test-id-123',
+        from: 'completed',
+        to: 'cancelled'
+      }));
+    });
+
+    it('should expose the allowed transitions', () => {
+      const pending = new Reservation(reservationData());
+
+      expect(pending.canTransitionTo('confirmed')).toBe(true);
+      expect(pending.canTransitionTo('completed')).toBe(false);
+    });
+  });
+
+  describe('modify', () => {
+    const modifiedAt = new Date('2024-01-03T10:00:00.000Z');
+
+    it('should apply the changes and keep identity and status', () => {
+      const confirmed = new Reservation(reservationData({ status: 'confirmed' }));
+      const modified = confirmed.modify({ date: '2024-12-16', time: '12:00', numberOfPeople: 3 }, modifiedAt);
+
+      expect(modified).toMatchObject({ id: 'test-id-123', status: 'confirmed', date: '2024-12-16', time: '12:00', numberOfPeople: 3 });
+      expect(modified.email).toBe(confirmed.email);
+      expect(modified.createdAt).toBe(confirmed.createdAt);
+      expect(modified.updatedAt).toBe(modifiedAt);
+      expect(confirmed.date).toBe('2024-12-15');
+    });
+
+    it('should validate the modified reservation', () => {
+      const reservation = new Reservation(reservationData());
+
+      expect(() => reservation.modify({ numberOfPeople: 0 })).toThrow(ValidationError);
+      expect(() => reservation.modify({ numberOfPeople: 1, children: [{ age: 5, name: 'Emma Doe' }] })).toThrow(ValidationError);
+    });
+
+    it('should only allow modifying pending and confirmed reservations', () => {
+      expect(new Reservation(reservationData()).canModify()).toBe(true);
+      expect(new Reservation(reservationData({ status: 'confirmed' })).canModify()).toBe(true);
+
+      (['cancelled', 'completed', 'no-show'] as const).forEach(status => {
+        const reservation = new Reservation(reservationData({ status }));
+
+        expect(reservation.canModify()).toBe(false);
+        expect(() => reservation.modify({ numberOfPeople: 3 })).toThrow(ReservationNotModifiableError);
+      });
+    });
+
+    it('should report the status that prevents the change', () => {
+      const cancelled = new Reservation(reservationData({ status: 'cancelled' }));
+
+      expect(() => cancelled.modify({ numberOfPeople: 3 })).toThrow(expect.objectContaining({
+        code: 'RESERVATION_NOT_MODIFIABLE',
+        message: 'Reservation test-id-123 cannot be modified once cancelled',
+        details: { reservationId: 'test-id-123', currentStatus: 'cancelled' }
+      }));
+    });
+  });
+
   describe('toJSON', () => {
     it('should convert reservation to JSON object', () => {
       const id = 'test-id-123';
@@ -129,20 +405,19 @@ describe('Reservation', () => {
       const amount = CurrencyUtils.create(100, 'EUR');
       const createdAt = new Date('2024-01-01T10:00:00.000Z');
 
-      const reservation = new Reservation(id, name, email, amount, createdAt);
+      const data = reservationData({ id, name, email, amount, createdAt });
+
+      const reservation = new Reservation(data);
       const json = reservation.toJSON();
 
-      expect(json).toEqual({
-        id,
-        name,
-        email,
-        amount,
-        createdAt,
-      });
+      expect(json).toEqual(data);
     });
 
     it('should return object with all properties', () => {
       const reservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'Jane Smith',
         email: EmailValidator.validate('jane@example.com'),
         amount: CurrencyUtils.create(250.50, 'USD'),
@@ -155,11 +430,23 @@ describe('Reservation', () => {
       expect(json).toHaveProperty('email');
       expect(json).toHaveProperty('amount');
       expect(json).toHaveProperty('createdAt');
-      expect(Object.keys(json)).toHaveLength(5);
+      expect(json).toHaveProperty('activityId');
+      expect(json).toHaveProperty('date');
+      expect(json).toHaveProperty('numberOfPeople');
+      expect(json).toHaveProperty('language');
+      expect(json).toHaveProperty('children');
+      expect(json).toHaveProperty('vipService');
+      expect(json).toHaveProperty('dietaryRestrictions');
+      expect(json).toHaveProperty('status');
+      expect(json).toHaveProperty('updatedAt');
+      expect(Object.keys(json)).toHaveLength(20);
     });
 
     it('should preserve currency information in JSON', () => {
       const reservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email: EmailValidator.validate('john@example.com'),
         amount: CurrencyUtils.create(123.45, 'GBP'),
@@ -173,13 +460,7 @@ describe('Reservation', () => {
 
     it('should preserve date in JSON', () => {
       const specificDate = new Date('2024-06-15T14:30:00.000Z');
-      const reservation = new Reservation(
-        'id-123',
-        'John Doe',
-        EmailValidator.validate('john@example.com'),
-        CurrencyUtils.create(100, 'EUR'),
-        specificDate
-      );
+      const reservation = new Reservation(reservationData({ id: 'id-123', createdAt: specificDate }));
 
       const json = reservation.toJSON();
 
@@ -0,0 +1,108 @@
+import { execFileSync } from 'child_process';
+import { resolve } from 'path';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { ReservationApi } from '../../src/api/ReservationApi';
+import { ReservationService } from '../../src/domain/reservations/ReservationService';
+import { CompositeDuplicatePolicy } from '../../src/domain/reservations/DuplicatePolicy';
+import { ReservationClient, UnexpectedStatusError } from '../../src/client/ReservationClient';
+import { CreateReservationRequest } from '../../src/client/ReservationTypes';
+
+const validRequest: CreateReservationRequest = {
+  activityId: 'act_madrid_tour_2024',
+  customerName: 'María García López',
+  email: 'maria.garcia@example.com',
+  phone: '+34612345678',
+  date: '2024-12-15',
+  time: '10:00',
+  numberOfPeople: 2,
+  totalAmount: { value: 89.90, currency: 'EUR' },
+  language: 'es'
+};
+
+describe('ReservationClient', () => {
+  let server: Server;
+  let baseUrl: string;
+  let client: ReservationClient;
+
+  beforeEach(async () => {
+    server = new ReservationApi(new ReservationService(new CompositeDuplicatePolicy())).createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    client = new ReservationClient({ baseUrl, token: 'test-token' });
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should create a reservation and narrow the response by status', async () => {
+    const response = await client.createReservation({ body: validRequest, idempotencyKey: 'client-spec-1' });
+
+    expect(response.status).toBe(201);
+    if (response.status === 201) {
+      expect(response.data.confirmationCode).toMatch(/^CONF-\d{4}-[A-Z]{2}-\d{4}$/);
+      expect(response.headers.get('Location')).toBe(response.data.links?.self);
+    }
+  });
+
+  it('should return validation errors as a typed 422', async () => {
+    const response = await client.createReservation({ body: { ...validRequest, numberOfPeople: 0 } });
+
+    expect(response.ok).toBe(false);
+    if (response.status === 422 && 'validationErrors' in response.data.error) {
+      expect(response.data.error.validationErrors.map(error => [error.field, error.code])).toEqual([
+        ['numberOfPeople', 'OUT_OF_RANGE']
+      ]);
+    } else {
+      throw new Error(`Expected a validation error, got ${response.status}`);
+    }
+  });
+
+  it('should fill path parameters and query strings', async () => {
+    const created = await client.createReservation({ body: validRequest });
+    const id = created.status === 201 ? created.data.id : '';
+
+    const found = await client.getReservation({ reservationId: id });
+    const listed = await client.listReservations({ email: 'maria.garcia@example.com', limit: 5 });
+    const missing = await client.getReservation({ reservationId: 'res_unknown' });
+
+    expect(found.status === 200 && found.data.id).toBe(id);
+    expect(listed.status === 200 && listed.data.data.map(reservation => reservation.id)).toEqual([id]);
+    expect(missing.status === 404 && missing.data.error.code).toBe('RESERVATION_NOT_FOUND');
+  });
+
+  it('should read non-JSON bodies according to their content type', async () => {
+    const created = await client.createReservation({ body: validRequest });
+    const id = created.status === 201 ? created.data.id : '';
+
+    const svg = await client.getReservationQrCode({ reservationId: id });
+    const png = await client.getReservationQrCode({ reservationId: id, format: 'png' });
+
+    expect(svg.data).toEqual(expect.stringMatching(/^<svg /));
+    expect(png.data).toBeInstanceOf(ArrayBuffer);
+  });
+
+  it('should resolve the token before every request', async () => {
+    const tokenless = new ReservationClient({ baseUrl, token: async () => '' });
+
+    expect((await tokenless.listReservations()).status).toBe(401);
+  });
+
+  it('should reject statuses the contract does not document', async () => {
+    const failing = new ReservationClient({
+      baseUrl: 'http://127.0.0.1/v1',
+      fetch: async () => new Response('upstream down', { status: 502 })
+    });
+
+    const error = await failing.getReservation({ reservationId: 'res_1' }).catch(rejection => rejection);
+
+    expect(error).toBeInstanceOf(UnexpectedStatusError);
+    expect(error).toMatchObject({ operationId: 'getReservation', status: 502, body: 'upstream down' });
+  });
+
+  it('should be regenerated whenever the contract changes', () => {
+    expect(() => execFileSync('node', [resolve(__dirname, '../../tools/generate-client.mjs'), '--check'], { stdio: 'pipe' }))
+      .not.toThrow();
+  });
+});
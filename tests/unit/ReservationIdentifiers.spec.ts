@@ -0,0 +1,55 @@
+import {
+  CONFIRMATION_CODE_PATTERN,
+  RESERVATION_ID_PATTERN,
+  ReservationIdentifiers
+} from '../../src/domain/reservations/ReservationIdentifiers';
+import { ConfirmationCodesExhaustedError } from '../../src/domain/reservations/ReservationErrors';
+
+function allCodes(prefix: string): Set<string> {
+  return new Set(Array.from({ length: 10000 }, (_, n) => `${prefix}-${String(n).padStart(4, '0')}`));
+}
+
+describe('ReservationIdentifiers', () => {
+  describe('reservationId', () => {
+    it('should generate ids matching the contract pattern', () => {
+      const ids = Array.from({ length: 100 }, () => ReservationIdentifiers.reservationId());
+
+      ids.forEach(id => expect(id).toMatch(RESERVATION_ID_PATTERN));
+      expect(new Set(ids).size).toBe(100);
+    });
+  });
+
+  describe('confirmationCode', () => {
+    it('should combine the year and activity region with four digits', () => {
+      const code = ReservationIdentifiers.confirmationCode('act_madrid_tour_2024', '2024-12-15');
+
+      expect(code).toMatch(CONFIRMATION_CODE_PATTERN);
+      expect(code.startsWith('CONF-2024-MA-')).toBe(true);
+    });
+
+    it('should pad regions of activities without enough letters', () => {
+      expect(ReservationIdentifiers.confirmationPrefix('act_x_2024', '2025-01-01')).toBe('CONF-2025-XX');
+    });
+
+    it('should skip codes that are already taken', () => {
+      const taken = allCodes('CONF-2024-MA');
+      taken.delete('CONF-2024-MA-0042');
+
+      expect(ReservationIdentifiers.confirmationCode('act_madrid_tour_2024', '2024-12-15', taken)).toBe('CONF-2024-MA-0042');
+    });
+
+    it('should throw when every code for the prefix is taken', () => {
+      const taken = allCodes('CONF-2024-MA');
+
+      expect(() => ReservationIdentifiers.confirmationCode('act_madrid_tour_2024', '2024-12-15', taken))
+        .toThrow(ConfirmationCodesExhaustedError);
+    });
+  });
+
+  describe('legacyConfirmationCode', () => {
+    it('should derive the code from the digits of the id', () => {
+      expect(ReservationIdentifiers.legacyConfirmationCode('a1b2c3d4-e5f6', 'act_sevilla_2024', '2024-06-01'))
+        .toBe('CONF-2024-SE-1234');
+    });
+  });
+});
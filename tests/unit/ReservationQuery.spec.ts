@@ -0,0 +1,123 @@
+import { Reservation, ReservationData } from '../../src/domain/reservations/Reservation';
+import { ReservationSearch } from '../../src/domain/reservations/ReservationQuery';
+import { ValidationError } from '../../src/errors/DomainError';
+import { Email, EmailValidator } from '../../src/utils/Email';
+import { CurrencyUtils } from '../../src/utils/Currency';
+
+function reservation(overrides: Partial<ReservationData> & { id: string }): Reservation {
+  return new Reservation({
+    confirmationCode: 'CONF-2024-MA-0001',
+    activityId: 'act_madrid_tour_2024',
+    name: 'John Doe',
+    email: EmailValidator.validate('john@example.com'),
+    date: '2024-12-15',
+    numberOfPeople: 2,
+    amount: CurrencyUtils.create(100, 'EUR'),
+    language: 'en',
+    children: [],
+    vipService: false,
+    dietaryRestrictions: [],
+    status: 'confirmed',
+    createdAt: new Date('2024-01-01T10:00:00.000Z'),
+    updatedAt: new Date('2024-01-01T10:00:00.000Z'),
+    ...overrides
+  });
+}
+
+const reservations = [
+  reservation({ id: 'r1', date: '2024-12-20', amount: CurrencyUtils.create(50, 'EUR'), createdAt: new Date('2024-01-03') }),
+  reservation({ id: 'r2', date: '2024-12-10', time: '18:00', amount: CurrencyUtils.create(150, 'EUR'), createdAt: new Date('2024-01-01') }),
+  reservation({ id: 'r3', date: '2024-12-10', time: '09:00', amount: CurrencyUtils.create(150, 'USD'), createdAt: new Date('2024-01-02') }),
+  reservation({ id: 'r4', date: '2024-12-31', status: 'cancelled', email: EmailValidator.validate('Jane@Example.com'), createdAt: new Date('2024-01-02') })
+];
+
+const ids = (items: Reservation[]) => items.map(r => r.id);
+
+describe('ReservationSearch', () => {
+  describe('filter', () => {
+    it('should apply inclusive date ranges', () => {
+      expect(ids(ReservationSearch.filter(reservations, { dateFrom: '2024-12-10', dateTo: '2024-12-20' }))).toEqual(['r1', 'r2', 'r3']);
+    });
+
+    it('should filter by currency and inclusive amount range', () => {
+      expect(ids(ReservationSearch.filter(reservations, { currency: 'EUR', minAmount: 100, maxAmount: 150 }))).toEqual(['r2', 'r4']);
+    });
+
+    it('should require a currency to filter by amount', () => {
+      expect(() => ReservationSearch.filter(reservations, { minAmount: 100 })).toThrow('Currency is required when filtering by amount');
+    });
+
+    it('should combine status and normalized email filters', () => {
+      expect(ids(ReservationSearch.filter(reservations, { email: 'jane@example.com', status: 'cancelled' }))).toEqual(['r4']);
+      expect(ReservationSearch.filter(reservations, { email: 'jane@example.com', status: 'confirmed' })).toEqual([]);
+    });
+
+    it('should skip stored emails the current parser rejects instead of failing', () => {
+      const legacy = reservation({ id: 'r5', email: 'Jane..Doe@Example.com' as Email });
+
+      expect(ids(ReservationSearch.filter([...reservations, legacy], { email: 'jane@example.com' }))).toEqual(['r4']);
+    });
+  });
+
+  describe('page', () => {
+    it('should sort by createdAt ascending and break ties by id', () => {
+      expect(ids(ReservationSearch.page(reservations, {}).items)).toEqual(['r2', 'r3', 'r4', 'r1']);
+    });
+
+    it('should sort by date and time', () => {
+      expect(ids(ReservationSearch.page(reservations, { sortBy: 'date' }).items)).toEqual(['r3', 'r2', 'r1', 'r4']);
+    });
+
+    it('should sort by amount descending within a currency', () => {
+      expect(ids(ReservationSearch.page(reservations, { currency: 'EUR', sortBy: 'amount', sortOrder: 'desc' }).items)).toEqual(['r2', 'r4', 'r1']);
+    });
+
+    it('should require a currency to sort by amount', () => {
+      expect(() => ReservationSearch.page(reservations, { sortBy: 'amount' })).toThrow('Currency is required when sorting by amount');
+    });
+
+    it('should apply the default page size', () => {
+      const many = Array.from({ length: 25 }, (_, i) => reservation({ id: `r${String(i).padStart(2, '0')}` }));
+      const page = ReservationSearch.page(many, {});
+
+      expect(page.items).toHaveLength(20);
+      expect(page.limit).toBe(20);
+      expect(page.nextCursor).toBeDefined();
+    });
+
+    it('should continue from the cursor without skipping or repeating', () => {
+      const first = ReservationSearch.page(reservations, { sortBy: 'date', limit: 2 });
+      const second = ReservationSearch.page(reservations, { sortBy: 'date', limit: 2, cursor: first.nextCursor });
+
+      expect(ids(first.items)).toEqual(['r3', 'r2']);
+      expect(ids(second.items)).toEqual(['r1', 'r4']);
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it('should keep its position when earlier reservations are added', () => {
+      const first = ReservationSearch.page(reservations, { limit: 2 });
+      const grown = [...reservations, reservation({ id: 'r0', createdAt: new Date('2023-12-31') })];
+
+      expect(ids(ReservationSearch.page(grown, { limit: 2, cursor: first.nextCursor }).items)).toEqual(['r4', 'r1']);
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(() => ReservationSearch.page(reservations, { cursor: 'not-a-cursor' })).toThrow(ValidationError);
+      expect(() => ReservationSearch.page(reservations, { cursor: 'not-a-cursor' })).toThrow('Cursor is malformed');
+    });
+
+    it('should reject cursors issued for another sort order', () => {
+      const { nextCursor } = ReservationSearch.page(reservations, { limit: 1 });
+
+      expect(() => ReservationSearch.page(reservations, { sortOrder: 'desc', cursor: nextCursor }))
+        .toThrow('Cursor was issued for a different sort order');
+    });
+
+    it('should reject limits outside the allowed range', () => {
+      expect(() => ReservationSearch.page(reservations, { limit: 0 })).toThrow(expect.objectContaining({
+        validationErrors: [expect.objectContaining({ field: 'limit', code: 'OUT_OF_RANGE', allowedRange: { min: 1, max: 100 } })]
+      }));
+      expect(() => ReservationSearch.page(reservations, { limit: 101 })).toThrow(ValidationError);
+    });
+  });
+});
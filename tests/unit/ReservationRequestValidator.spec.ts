@@ -0,0 +1,241 @@
+import { ReservationRequestValidator } from '../../src/api/ReservationRequestValidator';
+
+const validRequest = {
+  activityId: 'act_barcelona_aquarium_2024',
+  customerName: 'John Smith',
+  email: 'john.smith@example.com',
+  phone: '+447700900123',
+  date: '2024-12-20',
+  time: '14:30',
+  numberOfPeople: 4,
+  totalAmount: { value: 145.00, currency: 'EUR' },
+  language: 'en',
+  children: [{ age: 6, name: 'Emma Smith' }, { age: 8, name: 'Oliver Smith' }],
+  vipService: false,
+  dietaryRestrictions: ['vegetarian'],
+  promoCode: 'SUMMER2024'
+};
+
+describe('ReservationRequestValidator', () => {
+  it('should accept a fully populated valid request', () => {
+    expect(ReservationRequestValidator.validate(validRequest)).toEqual([]);
+  });
+
+  it('should reject a non-object body', () => {
+    expect(ReservationRequestValidator.validate([])).toEqual([
+      { field: 'body', message: 'Request body must be a JSON object', code: 'INVALID_FORMAT' }
+    ]);
+  });
+
+  it('should report required fields', () => {
+    const fields = ReservationRequestValidator.validate({}).map(e => [e.field, e.code]);
+
+    expect(fields).toEqual([
+      ['activityId', 'FIELD_REQUIRED'],
+      ['customerName', 'FIELD_REQUIRED'],
+      ['email', 'FIELD_REQUIRED'],
+      ['date', 'FIELD_REQUIRED'],
+      ['numberOfPeople', 'FIELD_REQUIRED'],
+      ['totalAmount', 'FIELD_REQUIRED']
+    ]);
+  });
+
+  it('should report format errors with the expected format', () => {
+    const errors = ReservationRequestValidator.validate({
+      ...validRequest,
+      phone: '612345678',
+      date: '15/12/2024',
+      time: '25:00',
+      activityId: 'madrid',
+      promoCode: 'summer'
+    });
+
+    expect(errors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ field: 'phone', code: 'INVALID_FORMAT', expectedFormat: '+34612345678' }),
+      expect.objectContaining({ field: 'date', code: 'INVALID_FORMAT', rejectedValue: '15/12/2024' }),
+      expect.objectContaining({ field: 'time', code: 'INVALID_FORMAT' }),
+      expect.objectContaining({ field: 'activityId', code: 'INVALID_FORMAT' }),
+      expect.objectContaining({ field: 'promoCode', code: 'INVALID_FORMAT' })
+    ]));
+    expect(errors).toHaveLength(5);
+  });
+
+  it('should report out of range numberOfPeople with the allowed range', () => {
+    const errors = ReservationRequestValidator.validate({ ...validRequest, numberOfPeople: 0 });
+
+    expect(errors).toEqual([{
+      field: 'numberOfPeople',
+      message: 'Number of people must be between 1 and 50',
+      code: 'OUT_OF_RANGE',
+      rejectedValue: 0,
+      allowedRange: { min: 1, max: 50 }
+    }]);
+  });
+
+  it('should reject negative amounts and unsupported currencies', () => {
+    const errors = ReservationRequestValidator.validate({ ...validRequest, totalAmount: { value: -50, currency: 'MXN' } });
+
+    expect(errors.map(e => e.field)).toEqual(['totalAmount.value', 'totalAmount.currency']);
+  });
+
+  it('should explain why an email is invalid', () => {
+    expect(ReservationRequestValidator.validate({ ...validRequest, email: 'john..smith@example.com' })).toEqual([{
+      field: 'email',
+      message: 'Email format is invalid: local part contains invalid characters or misplaced dots',
+      code: 'INVALID_FORMAT',
+      rejectedValue: 'john..smith@example.com',
+      expectedFormat: 'user@example.com'
+    }]);
+  });
+
+  it('should reject amounts with more decimals than the currency allows', () => {
+    expect(ReservationRequestValidator.validate({ ...validRequest, totalAmount: { value: 145.001, currency: 'EUR' } }))
+      .toEqual([{
+        field: 'totalAmount.value',
+        message: 'Amount must have at most 2 decimal places for EUR',
+        code: 'INVALID_FORMAT',
+        rejectedValue: 145.001
+      }]);
+    expect(ReservationRequestValidator.validate({ ...validRequest, totalAmount: { value: 1500.5, currency: 'JPY' } }))
+      .toHaveLength(1);
+    expect(ReservationRequestValidator.validate({ ...validRequest, totalAmount: { value: 1500, currency: 'JPY' } }))
+      .toEqual([]);
+  });
+
+  it('should validate each child entry', () => {
+    const errors = ReservationRequestValidator.validate({
+      ...validRequest,
+      children: [{ age: 25, name: 'Emma Smith' }, { age: 8 }]
+    });
+
+    expect(errors).toEqual([
+      expect.objectContaining({ field: 'children[0].age', code: 'OUT_OF_RANGE', rejectedValue: 25 }),
+      expect.objectContaining({ field: 'children[1].name', code: 'FIELD_REQUIRED' })
+    ]);
+  });
+
+  it('should require at least one adult besides the children', () => {
+    const errors = ReservationRequestValidator.validate({ ...validRequest, numberOfPeople: 2 });
+
+    expect(errors).toEqual([expect.objectContaining({
+      field: 'children',
+      message: 'Number of adults must be at least 1',
+      code: 'INVALID_VALUE'
+    })]);
+  });
+
+  it('should reject unknown languages and dietary restrictions', () => {
+    const errors = ReservationRequestValidator.validate({
+      ...validRequest,
+      language: 'ru',
+      dietaryRestrictions: ['vegan', 'paleo'],
+      vipService: 'yes'
+    });
+
+    expect(errors.map(e => e.field)).toEqual(['language', 'vipService', 'dietaryRestrictions[1]']);
+  });
+
+  describe('validateUpdate', () => {
+    it('should accept a partial update of modifiable fields', () => {
+      expect(ReservationRequestValidator.validateUpdate({ date: '2024-12-21', time: '10:00' })).toEqual([]);
+    });
+
+    it('should require at least one field', () => {
+      expect(ReservationRequestValidator.validateUpdate({})).toEqual([
+        { field: 'body', message: 'At least one field must be provided', code: 'FIELD_REQUIRED' }
+      ]);
+    });
+
+    it('should reject fields that cannot be modified', () => {
+      const errors = ReservationRequestValidator.validateUpdate({ activityId: 'act_other_2024', email: 'new@example.com', promoCode: 'X' });
+
+      expect(errors.map(e => [e.field, e.code])).toEqual([
+        ['activityId', 'INVALID_VALUE'],
+        ['email', 'INVALID_VALUE'],
+        ['promoCode', 'INVALID_VALUE']
+      ]);
+    });
+
+    it('should validate the supplied values', () => {
+      const errors = ReservationRequestValidator.validateUpdate({ time: '25:00', numberOfPeople: 0 });
+
+      expect(errors.map(e => e.field)).toEqual(['time', 'numberOfPeople']);
+    });
+
+    it('should check adults only when both party fields are supplied', () => {
+      const children = [{ age: 6, name: 'Emma Smith' }];
+
+      expect(ReservationRequestValidator.validateUpdate({ children })).toEqual([]);
+      expect(ReservationRequestValidator.validateUpdate({ numberOfPeople: 1, children })).toEqual([
+        expect.objectContaining({ field: 'children', message: 'Number of adults must be at least 1' })
+      ]);
+    });
+  });
+
+  describe('validateQuery', () => {
+    it('should accept known filters, sorting and paging', () => {
+      const query = new URLSearchParams({
+        email: 'john.smith@example.com',
+        activityId: 'act_madrid_tour_2024',
+        dateFrom: '2024-12-01',
+        dateTo: '2024-12-31',
+        status: 'confirmed',
+        currency: 'EUR',
+        minAmount: '10',
+        maxAmount: '99.50',
+        sortBy: 'amount',
+        sortOrder: 'desc',
+        limit: '50',
+        cursor: 'opaque'
+      });
+
+      expect(ReservationRequestValidator.validateQuery(query)).toEqual([]);
+    });
+
+    it('should reject malformed filter values', () => {
+      const errors = ReservationRequestValidator.validateQuery(new URLSearchParams({ email: 'nope', date: '20-12-2024', status: 'archived' }));
+
+      expect(errors.map(e => e.field)).toEqual(['email', 'date', 'status']);
+    });
+
+    it('should reject unknown sort fields and out of range limits', () => {
+      const errors = ReservationRequestValidator.validateQuery(new URLSearchParams({ sortBy: 'name', sortOrder: 'up', limit: '500' }));
+
+      expect(errors).toEqual([
+        expect.objectContaining({ field: 'sortBy', code: 'INVALID_VALUE', message: 'sortBy must be one of createdAt, date, amount' }),
+        expect.objectContaining({ field: 'sortOrder', code: 'INVALID_VALUE' }),
+        expect.objectContaining({ field: 'limit', code: 'OUT_OF_RANGE', allowedRange: { min: 1, max: 100 } })
+      ]);
+    });
+
+    it('should require a currency for amount filters', () => {
+      const errors = ReservationRequestValidator.validateQuery(new URLSearchParams({ minAmount: '-5', maxAmount: '20' }));
+
+      expect(errors.map(e => [e.field, e.code])).toEqual([
+        ['minAmount', 'OUT_OF_RANGE'],
+        ['currency', 'FIELD_REQUIRED']
+      ]);
+    });
+
+    it('should require a currency to sort by amount', () => {
+      expect(ReservationRequestValidator.validateQuery(new URLSearchParams({ sortBy: 'amount' }))).toEqual([
+        { field: 'currency', message: 'Currency is required when sorting by amount', code: 'FIELD_REQUIRED' }
+      ]);
+    });
+
+    it('should reject inverted ranges', () => {
+      const errors = ReservationRequestValidator.validateQuery(new URLSearchParams({
+        dateFrom: '2024-12-31',
+        dateTo: '2024-12-01',
+        currency: 'EUR',
+        minAmount: '100',
+        maxAmount: '20'
+      }));
+
+      expect(errors.map(e => [e.field, e.code])).toEqual([
+        ['dateTo', 'OUT_OF_RANGE'],
+        ['maxAmount', 'OUT_OF_RANGE']
+      ]);
+    });
+  });
+});
@@ -1,19 +1,67 @@
 import { ReservationService } from '../../src/domain/reservations/ReservationService';
 import { Reservation } from '../../src/domain/reservations/Reservation';
-import { NoDuplicatePolicy, EmailDuplicatePolicy, DuplicatePolicy } from '../../src/domain/reservations/DuplicatePolicy';
+import {
+  NoDuplicatePolicy,
+  EmailDuplicatePolicy,
+  CompositeDuplicatePolicy,
+  DuplicatePolicy
+} from '../../src/domain/reservations/DuplicatePolicy';
+import {
+  DuplicateReservationError,
+  InvalidStatusTransitionError,
+  ReservationNotFoundError,
+  ReservationNotModifiableError
+} from '../../src/domain/reservations/ReservationErrors';
+import { InMemoryReservationRepository, ReservationRepository } from '../../src/domain/reservations/ReservationRepository';
+import { FileReservationRepository } from '../../src/domain/reservations/FileReservationRepository';
 import { EmailValidator } from '../../src/utils/Email';
 import { CurrencyUtils } from '../../src/utils/Currency';
+import { Activity } from '../../src/domain/activities/Activity';
+import { InMemoryActivityCatalog } from '../../src/domain/activities/ActivityCatalog';
+import { SlotCapacityExceededError } from '../../src/domain/activities/ActivityErrors';
+import { DEFAULT_PRICING_RULES, PricingEngine } from '../../src/domain/pricing/PricingEngine';
+import { PromoCode } from '../../src/domain/promotions/PromoCode';
+import { InMemoryPromoCodeCatalog } from '../../src/domain/promotions/PromoCodeCatalog';
+import { PromoCodePolicy } from '../../src/domain/promotions/PromoCodePolicy';
+import { ValidationError } from '../../src/errors/DomainError';
+import { InMemoryOutbox } from '../../src/domain/events/Outbox';
+import { ReservationEvent, ReservationEvents } from '../../src/domain/reservations/ReservationEvents';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const tempDirs: string[] = [];
+
+const stores: [string, () => ReservationRepository][] = [
+  ['in-memory', () => new InMemoryReservationRepository()],
+  ['file', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'reservations-'));
+    tempDirs.push(dir);
+    return new FileReservationRepository(join(dir, 'reservations.jsonl'));
+  }]
+];
+
+afterAll(() => {
+  tempDirs.forEach(dir => rmSync(dir, { recursive: true, force: true }));
+});
 
-describe('ReservationService', () => {
+describe.each(stores)('ReservationService (%s store)', (_store, createRepository) => {
   let service: ReservationService;
 
+  function createService(policy: DuplicatePolicy): ReservationService {
+    return new ReservationService(policy, { repository: createRepository() });
+  }
+
   beforeEach(() => {
-    service = new ReservationService(new NoDuplicatePolicy());
+    service = createService(new NoDuplicatePolicy());
   });
 
   describe('createReservation', () => {
     it('should create a new reservation', async () => {
       const reservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email: EmailValidator.validate('john@example.com'),
         amount: CurrencyUtils.create(100, 'EUR')
@@ -26,6 +74,9 @@ describe('ReservationService', () => {
 
     it('should store the reservation internally', async () => {
       const reservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email: EmailValidator.validate('john@example.com'),
         amount: CurrencyUtils.create(100, 'EUR')
@@ -39,12 +90,18 @@ describe('ReservationService', () => {
 
     it('should create multiple reservations with NoDuplicatePolicy', async () => {
       const reservation1 = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email: EmailValidator.validate('john@example.com'),
         amount: CurrencyUtils.create(100, 'EUR')
       });
 
       const reservation2 = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'Jane Doe',
         email: EmailValidator.validate('john@example.com'),
         amount: CurrencyUtils.create(150, 'EUR')
@@ -58,15 +115,21 @@ describe('ReservationService', () => {
     });
 
     it('should reject duplicate reservations when EmailDuplicatePolicy is enabled', async () => {
-      service = new ReservationService(new EmailDuplicatePolicy());
+      service = createService(new EmailDuplicatePolicy());
 
       const reservation1 = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email: EmailValidator.validate('john@example.com'),
         amount: CurrencyUtils.create(100, 'EUR')
       });
 
       const reservation2 = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'Jane Doe',
         email: EmailValidator.validate('john@example.com'),
         amount: CurrencyUtils.create(150, 'EUR')
@@ -78,16 +141,39 @@ describe('ReservationService', () => {
         .rejects.toThrow('Duplicate reservation detected');
     });
 
+    it('should let only one of two concurrent duplicates through', async () => {
+      service = createService(new CompositeDuplicatePolicy());
+      const attempt = (name: string) => service.createReservation(Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
+        name,
+        email: EmailValidator.validate('john@example.com'),
+        amount: CurrencyUtils.create(100, 'EUR')
+      }));
+
+      const results = await Promise.allSettled([attempt('John Doe'), attempt('Jane Doe')]);
+
+      expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(await service.getAllReservations()).toHaveLength(1);
+    });
+
     it('should allow same email with NoDuplicatePolicy', async () => {
       const email = EmailValidator.validate('john@example.com');
 
       const reservation1 = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email,
         amount: CurrencyUtils.create(100, 'EUR')
       });
 
       const reservation2 = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe Jr',
         email,
         amount: CurrencyUtils.create(200, 'EUR')
@@ -104,9 +190,12 @@ describe('ReservationService', () => {
         check: async () => true
       };
 
-      service = new ReservationService(alwaysDuplicatePolicy);
+      service = createService(alwaysDuplicatePolicy);
 
       const reservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email: EmailValidator.validate('john@example.com'),
         amount: CurrencyUtils.create(100, 'EUR')
@@ -116,14 +205,91 @@ describe('ReservationService', () => {
         .rejects.toThrow('Duplicate reservation detected');
     });
 
+    it('should report the conflicting reservation with CompositeDuplicatePolicy', async () => {
+      service = createService(new CompositeDuplicatePolicy());
+
+      const existing = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
+        name: 'John Doe',
+        email: EmailValidator.validate('john@example.com'),
+        amount: CurrencyUtils.create(100, 'EUR')
+      });
+
+      const duplicate = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 1,
+        name: 'John Doe',
+        email: EmailValidator.validate('john@example.com'),
+        amount: CurrencyUtils.create(50, 'EUR')
+      });
+
+      await service.createReservation(existing);
+      const error = await service.createReservation(duplicate).catch(e => e);
+
+      expect(error).toBeInstanceOf(DuplicateReservationError);
+      expect(error.existingReservation).toBe(existing);
+      expect(error.conflictingFields).toEqual(['activityId', 'email', 'date']);
+    });
+
+    it('should allow the same email on another date with CompositeDuplicatePolicy', async () => {
+      service = createService(new CompositeDuplicatePolicy());
+      const email = EmailValidator.validate('john@example.com');
+
+      await service.createReservation(Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
+        name: 'John Doe',
+        email,
+        amount: CurrencyUtils.create(100, 'EUR')
+      }));
+
+      const nextDay = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-16',
+        numberOfPeople: 2,
+        name: 'John Doe',
+        email,
+        amount: CurrencyUtils.create(100, 'EUR')
+      });
+
+      expect(await service.createReservation(nextDay)).toBe(nextDay);
+    });
+
+    it('should not report a conflicting reservation for check-only policies', async () => {
+      service = createService({ check: async () => true });
+
+      const error = await service.createReservation(Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
+        name: 'John Doe',
+        email: EmailValidator.validate('john@example.com'),
+        amount: CurrencyUtils.create(100, 'EUR')
+      })).catch(e => e);
+
+      expect(error).toBeInstanceOf(DuplicateReservationError);
+      expect(error.existingReservation).toBeUndefined();
+      expect(error.conflictingFields).toEqual([]);
+    });
+
     it('should handle reservations with different currencies', async () => {
       const eurReservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email: EmailValidator.validate('john@example.com'),
         amount: CurrencyUtils.create(100, 'EUR')
       });
 
       const usdReservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'Jane Doe',
         email: EmailValidator.validate('jane@example.com'),
         amount: CurrencyUtils.create(150, 'USD')
@@ -135,11 +301,32 @@ describe('ReservationService', () => {
       const all = await service.getAllReservations();
       expect(all).toHaveLength(2);
     });
+
+    it('should replace a confirmation code that is already in use', async () => {
+      const data = {
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
+        name: 'John Doe',
+        email: EmailValidator.validate('john@example.com'),
+        amount: CurrencyUtils.create(100, 'EUR')
+      };
+      const first = await service.createReservation(Reservation.create(data));
+      await service.cancelReservation(first.id);
+
+      const second = await service.createReservation(Reservation.create(data).withConfirmationCode(first.confirmationCode));
+
+      expect(second.confirmationCode).toMatch(/^CONF-2024-MA-\d{4}$/);
+      expect(second.confirmationCode).not.toBe(first.confirmationCode);
+    });
   });
 
   describe('getReservation', () => {
     it('should return a reservation by id', async () => {
       const reservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email: EmailValidator.validate('john@example.com'),
         amount: CurrencyUtils.create(100, 'EUR')
@@ -163,12 +350,18 @@ describe('ReservationService', () => {
 
     it('should retrieve correct reservation among multiple', async () => {
       const reservation1 = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email: EmailValidator.validate('john@example.com'),
         amount: CurrencyUtils.create(100, 'EUR')
       });
 
       const reservation2 = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'Jane Doe',
         email: EmailValidator.validate('jane@example.com'),
         amount: CurrencyUtils.create(150, 'EUR')
@@ -191,18 +384,27 @@ describe('ReservationService', () => {
 
     it('should return all created reservations', async () => {
       const reservation1 = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email: EmailValidator.validate('john@example.com'),
         amount: CurrencyUtils.create(100, 'EUR')
       });
 
       const reservation2 = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'Jane Doe',
         email: EmailValidator.validate('jane@example.com'),
         amount: CurrencyUtils.create(150, 'EUR')
       });
 
       const reservation3 = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'Bob Smith',
         email: EmailValidator.validate('bob@example.com'),
         amount: CurrencyUtils.create(200, 'USD')
@@ -222,6 +424,9 @@ describe('ReservationService', () => {
 
     it('should return new array instance on each call', async () => {
       const reservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email: EmailValidator.validate('john@example.com'),
         amount: CurrencyUtils.create(100, 'EUR')
@@ -240,6 +445,9 @@ describe('ReservationService', () => {
   describe('deleteReservation', () => {
     it('should delete an existing reservation', async () => {
       const reservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email: EmailValidator.validate('john@example.com'),
         amount: CurrencyUtils.create(100, 'EUR')
@@ -261,12 +469,18 @@ describe('ReservationService', () => {
 
     it('should only delete the specified reservation', async () => {
       const reservation1 = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email: EmailValidator.validate('john@example.com'),
         amount: CurrencyUtils.create(100, 'EUR')
       });
 
       const reservation2 = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'Jane Doe',
         email: EmailValidator.validate('jane@example.com'),
         amount: CurrencyUtils.create(150, 'EUR')
@@ -284,6 +498,9 @@ describe('ReservationService', () => {
 
     it('should allow recreation after deletion', async () => {
       const reservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email: EmailValidator.validate('john@example.com'),
         amount: CurrencyUtils.create(100, 'EUR')
@@ -293,6 +510,9 @@ describe('ReservationService', () => {
       await service.deleteReservation(reservation.id);
 
       const newReservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email: EmailValidator.validate('john@example.com'),
         amount: CurrencyUtils.create(100, 'EUR')
@@ -303,10 +523,483 @@ describe('ReservationService', () => {
     });
   });
 
+  describe('status transitions', () => {
+    let reservation: Reservation;
+
+    beforeEach(async () => {
+      reservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
+        name: 'John Doe',
+        email: EmailValidator.validate('john@example.com'),
+        amount: CurrencyUtils.create(100, 'EUR')
+      });
+      await service.createReservation(reservation);
+    });
+
+    it('should confirm a pending reservation', async () => {
+      const confirmed = await service.confirmReservation(reservation.id);
+
+      expect(confirmed.status).toBe('confirmed');
+      expect(confirmed.updatedAt.getTime()).toBeGreaterThanOrEqual(reservation.createdAt.getTime());
+      expect(await service.getReservation(reservation.id)).toBe(confirmed);
+    });
+
+    it('should cancel without deleting the reservation', async () => {
+      await service.cancelReservation(reservation.id);
+
+      const stored = await service.getReservation(reservation.id);
+      expect(stored?.status).toBe('cancelled');
+      expect(await service.getAllReservations()).toHaveLength(1);
+    });
+
+    it('should complete and mark no-show on confirmed reservations', async () => {
+      await service.confirmReservation(reservation.id);
+      expect((await service.completeReservation(reservation.id)).status).toBe('completed');
+
+      const other = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-16',
+        numberOfPeople: 2,
+        name: 'Jane Doe',
+        email: EmailValidator.validate('jane@example.com'),
+        amount: CurrencyUtils.create(100, 'EUR')
+      });
+      await service.createReservation(other);
+      await service.confirmReservation(other.id);
+      expect((await service.markNoShow(other.id)).status).toBe('no-show');
+    });
+
+    it('should reject illegal transitions and keep the stored status', async () => {
+      await expect(service.completeReservation(reservation.id)).rejects.toThrow(InvalidStatusTransitionError);
+
+      await service.cancelReservation(reservation.id);
+      await expect(service.confirmReservation(reservation.id)).rejects.toThrow(InvalidStatusTransitionError);
+      expect((await service.getReservation(reservation.id))?.status).toBe('cancelled');
+    });
+
+    it('should reject transitions on unknown reservations', async () => {
+      await expect(service.confirmReservation('non-existent')).rejects.toThrow(ReservationNotFoundError);
+      await expect(service.cancelReservation('non-existent')).rejects.toThrow('Reservation not found: non-existent');
+    });
+
+    it('should ignore cancelled reservations when checking duplicates', async () => {
+      service = createService(new CompositeDuplicatePolicy());
+      await service.createReservation(reservation);
+      await service.cancelReservation(reservation.id);
+
+      const rebooking = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
+        name: 'John Doe',
+        email: EmailValidator.validate('john@example.com'),
+        amount: CurrencyUtils.create(100, 'EUR')
+      });
+
+      expect(await service.createReservation(rebooking)).toBe(rebooking);
+    });
+  });
+
+  describe('searchReservations', () => {
+    function booking(email: string, date: string, activityId: string = 'act_madrid_tour_2024'): Reservation {
+      return Reservation.create({
+        activityId,
+        date,
+        numberOfPeople: 2,
+        name: 'John Doe',
+        email: EmailValidator.validate(email),
+        amount: CurrencyUtils.create(100, 'EUR')
+      });
+    }
+
+    it('should return every reservation without filters', async () => {
+      await service.createReservation(booking('john@example.com', '2024-12-15'));
+      await service.createReservation(booking('jane@example.com', '2024-12-16'));
+
+      expect(await service.searchReservations()).toHaveLength(2);
+    });
+
+    it('should combine filters', async () => {
+      const match = booking('john@example.com', '2024-12-15');
+      await service.createReservation(match);
+      await service.createReservation(booking('john@example.com', '2024-12-16'));
+      await service.createReservation(booking('john@example.com', '2024-12-15', 'act_sevilla_tour_2024'));
+      await service.createReservation(booking('jane@example.com', '2024-12-15'));
+
+      const results = await service.searchReservations({
+        email: 'John@Example.com',
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15'
+      });
+
+      expect(results.map(reservation => reservation.id)).toEqual([match.id]);
+    });
+
+    it('should filter by status', async () => {
+      const cancelled = booking('john@example.com', '2024-12-15');
+      await service.createReservation(cancelled);
+      await service.createReservation(booking('jane@example.com', '2024-12-15'));
+      await service.cancelReservation(cancelled.id);
+
+      const results = await service.searchReservations({ status: 'cancelled' });
+
+      expect(results.map(reservation => reservation.id)).toEqual([cancelled.id]);
+    });
+  });
+
+  describe('listReservations', () => {
+    it('should page through the stored reservations', async () => {
+      for (const date of ['2024-12-17', '2024-12-15', '2024-12-16']) {
+        await service.createReservation(Reservation.create({
+          activityId: 'act_madrid_tour_2024',
+          date,
+          numberOfPeople: 2,
+          name: 'John Doe',
+          email: EmailValidator.validate('john@example.com'),
+          amount: CurrencyUtils.create(100, 'EUR')
+        }));
+      }
+
+      const first = await service.listReservations({ sortBy: 'date', limit: 2 });
+      const second = await service.listReservations({ sortBy: 'date', limit: 2, cursor: first.nextCursor });
+
+      expect(first.items.map(r => r.date)).toEqual(['2024-12-15', '2024-12-16']);
+      expect(second.items.map(r => r.date)).toEqual(['2024-12-17']);
+      expect(second.nextCursor).toBeUndefined();
+    });
+  });
+
+  describe('updateReservation', () => {
+    let reservation: Reservation;
+
+    beforeEach(async () => {
+      service = createService(new CompositeDuplicatePolicy());
+      reservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
+        name: 'John Doe',
+        email: EmailValidator.validate('john@example.com'),
+        amount: CurrencyUtils.create(100, 'EUR')
+      });
+      await service.createReservation(reservation);
+    });
+
+    it('should persist the modified reservation', async () => {
+      const updated = await service.updateReservation(reservation.id, { numberOfPeople: 3, amount: CurrencyUtils.create(150, 'EUR') });
+
+      expect(updated.numberOfPeople).toBe(3);
+      expect((await service.getReservation(reservation.id))?.amount.amount).toBe(150);
+    });
+
+    it('should not conflict with itself', async () => {
+      const updated = await service.updateReservation(reservation.id, { name: 'John Smith' });
+
+      expect(updated.name).toBe('John Smith');
+    });
+
+    it('should reject a date that duplicates another active reservation', async () => {
+      const other = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-16',
+        numberOfPeople: 2,
+        name: 'John Doe',
+        email: EmailValidator.validate('john@example.com'),
+        amount: CurrencyUtils.create(100, 'EUR')
+      });
+      await service.createReservation(other);
+
+      await expect(service.updateReservation(other.id, { date: '2024-12-15' })).rejects.toThrow(DuplicateReservationError);
+      expect((await service.getReservation(other.id))?.date).toBe('2024-12-16');
+    });
+
+    it('should reject changes to cancelled reservations', async () => {
+      await service.cancelReservation(reservation.id);
+
+      await expect(service.updateReservation(reservation.id, { numberOfPeople: 3 })).rejects.toThrow(ReservationNotModifiableError);
+    });
+
+    it('should reject unknown reservations', async () => {
+      await expect(service.updateReservation('non-existent', { numberOfPeople: 3 })).rejects.toThrow(ReservationNotFoundError);
+    });
+  });
+
+  describe('with an activity catalog', () => {
+    const catalog = new InMemoryActivityCatalog([new Activity({
+      id: 'act_madrid_tour_2024',
+      names: { en: 'Madrid City Walking Tour' },
+      schedule: { daysOfWeek: ['sat', 'sun'], slots: [{ time: '10:00', capacity: 5 }, { time: '16:00', capacity: 5 }] },
+      pricePerPerson: CurrencyUtils.create(44.95, 'EUR')
+    })]);
+    const now = () => new Date('2024-12-01T09:00:00.000Z');
+
+    function booking(overrides: {
+      activityId?: string; date?: string; time?: string; numberOfPeople?: number; email?: string; amount?: number; promoCode?: string
+    } = {}) {
+      return Reservation.create({
+        activityId: overrides.activityId ?? 'act_madrid_tour_2024',
+        date: overrides.date ?? '2024-12-15',
+        time: 'time' in overrides ? overrides.time : '10:00',
+        numberOfPeople: overrides.numberOfPeople ?? 2,
+        name: 'John Doe',
+        email: EmailValidator.validate(overrides.email ?? 'john@example.com'),
+        amount: CurrencyUtils.create(overrides.amount ?? 89.90, 'EUR'),
+        promoCode: overrides.promoCode
+      });
+    }
+
+    beforeEach(() => {
+      service = new ReservationService(new NoDuplicatePolicy(), { repository: createRepository(), catalog, now });
+    });
+
+    it('should book slots up to their capacity', async () => {
+      await service.createReservation(booking({ numberOfPeople: 3 }));
+      await service.createReservation(booking({ numberOfPeople: 2 }));
+
+      expect(await service.remainingCapacity('act_madrid_tour_2024', '2024-12-15', '10:00')).toBe(0);
+      expect(await service.remainingCapacity('act_madrid_tour_2024', '2024-12-15', '16:00')).toBe(5);
+    });
+
+    it('should reject bookings exceeding the remaining capacity', async () => {
+      await service.createReservation(booking({ numberOfPeople: 4 }));
+
+      await expect(service.createReservation(booking({ numberOfPeople: 2 }))).rejects.toThrow(expect.objectContaining({
+        code: 'SLOT_CAPACITY_EXCEEDED',
+        details: { activityId: 'act_madrid_tour_2024', date: '2024-12-15', time: '10:00', requestedPeople: 2, remainingCapacity: 1 }
+      }));
+      expect(await service.getAllReservations()).toHaveLength(1);
+    });
+
+    it('should not overbook a slot when creations race', async () => {
+      const results = await Promise.allSettled([1, 2, 3].map(n =>
+        service.createReservation(booking({ numberOfPeople: 2, email: `guest${n}@example.com` }))
+      ));
+
+      expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(2);
+      expect(results.find(r => r.status === 'rejected')).toMatchObject({ reason: expect.any(SlotCapacityExceededError) });
+    });
+
+    it('should release capacity when a reservation is cancelled', async () => {
+      const full = await service.createReservation(booking({ numberOfPeople: 5 }));
+      await service.cancelReservation(full.id);
+
+      await expect(service.createReservation(booking({ numberOfPeople: 5 }))).resolves.toBeDefined();
+    });
+
+    it('should reject unknown activities', async () => {
+      await expect(service.createReservation(booking({ activityId: 'act_unknown_2024' }))).rejects.toThrow(expect.objectContaining({
+        validationErrors: [expect.objectContaining({ field: 'activityId', code: 'RESOURCE_NOT_FOUND' })]
+      }));
+    });
+
+    it('should reject dates and times without a slot', async () => {
+      await expect(service.createReservation(booking({ date: '2024-12-16' }))).rejects.toThrow('Activity act_madrid_tour_2024 does not run on 2024-12-16');
+      await expect(service.createReservation(booking({ time: '12:00' }))).rejects.toThrow('available times: 10:00, 16:00');
+      await expect(service.createReservation(booking({ time: undefined }))).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject dates in the past, including when a reservation is moved', async () => {
+      const reservation = await service.createReservation(booking({ date: '2024-12-01' }));
+
+      await expect(service.createReservation(booking({ date: '2024-11-30' }))).rejects.toThrow(expect.objectContaining({
+        validationErrors: [expect.objectContaining({ field: 'date', code: 'PAST_DATE_NOT_ALLOWED', rejectedValue: '2024-11-30' })]
+      }));
+      await expect(service.updateReservation(reservation.id, { date: '2024-11-30' })).rejects.toThrow('Reservation date cannot be in the past');
+    });
+
+    it('should check the new slot when a reservation is modified', async () => {
+      await service.createReservation(booking({ numberOfPeople: 4, email: 'jane@example.com', time: '16:00' }));
+      const reservation = await service.createReservation(booking());
+
+      await expect(service.updateReservation(reservation.id, { time: '16:00' })).rejects.toThrow(SlotCapacityExceededError);
+      await expect(service.updateReservation(reservation.id, { numberOfPeople: 5 })).resolves.toMatchObject({ numberOfPeople: 5 });
+    });
+
+    describe('and pricing', () => {
+      beforeEach(() => {
+        service = new ReservationService(new NoDuplicatePolicy(), { repository: createRepository(), catalog, now, pricing: new PricingEngine() });
+      });
+
+      it('should store the price breakdown when the submitted total matches', async () => {
+        const created = await service.createReservation(booking());
+
+        expect(created.amount).toEqual(CurrencyUtils.create(89.90, 'EUR'));
+        expect(created.priceBreakdown).toEqual([expect.objectContaining({ code: 'adult', quantity: 2 })]);
+        expect((await service.getReservation(created.id))?.priceBreakdown).toHaveLength(1);
+      });
+
+      it('should reject a submitted total that disagrees with the price', async () => {
+        await expect(service.createReservation(booking({ numberOfPeople: 3 }))).rejects.toThrow(expect.objectContaining({
+          validationErrors: [expect.objectContaining({ field: 'totalAmount.value', rejectedValue: 89.90 })]
+        }));
+      });
+
+      it('should reprice a modified party when no total is submitted', async () => {
+        const created = await service.createReservation(booking());
+
+        const updated = await service.updateReservation(created.id, { numberOfPeople: 3, children: [{ age: 5, name: 'Emma Doe' }] });
+
+        expect(updated.amount).toEqual(CurrencyUtils.create(112.38, 'EUR'));
+        expect(updated.priceBreakdown?.map(item => item.code)).toEqual(['adult', 'child']);
+        await expect(service.updateReservation(created.id, { vipService: true, amount: CurrencyUtils.create(112.38, 'EUR') }))
+          .rejects.toThrow('calculated price of 140.48 EUR');
+      });
+
+      it('should apply promo codes and count redemptions of active reservations only', async () => {
+        const promotions = new PromoCodePolicy(new InMemoryPromoCodeCatalog([
+          new PromoCode({ code: 'WELCOME10', discount: { type: 'percentage', percent: 10 }, maxUses: 1 })
+        ]));
+        service = new ReservationService(new NoDuplicatePolicy(), {
+          repository: createRepository(),
+          catalog,
+          now,
+          pricing: new PricingEngine(DEFAULT_PRICING_RULES, promotions)
+        });
+
+        const first = await service.createReservation(booking({ amount: 80.91, promoCode: 'WELCOME10' }));
+        expect(first.priceBreakdown?.[1]).toMatchObject({ kind: 'discount', amount: CurrencyUtils.create(8.99, 'EUR') });
+
+        const second = booking({ amount: 80.91, promoCode: 'WELCOME10', email: 'jane@example.com' });
+        await expect(service.createReservation(second)).rejects.toThrow('Promo code WELCOME10 has reached its usage limit');
+
+        await service.cancelReservation(first.id);
+        await expect(service.createReservation(second)).resolves.toBeDefined();
+      });
+    });
+
+    it('should expose catalog activities', async () => {
+      expect((await service.findActivity('act_madrid_tour_2024'))?.nameIn('es')).toBe('Madrid City Walking Tour');
+      expect(await service.findActivity('act_unknown_2024')).toBeUndefined();
+    });
+  });
+
+  describe('with an outbox', () => {
+    let outbox: InMemoryOutbox<ReservationEvent>;
+    let repository: ReservationRepository;
+
+    function booking(): Reservation {
+      return Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
+        name: 'John Doe',
+        email: EmailValidator.validate('john@example.com'),
+        amount: CurrencyUtils.create(100, 'EUR')
+      });
+    }
+
+    async function recorded(): Promise<string[]> {
+      return (await outbox.pending()).map(entry => entry.event.type);
+    }
+
+    beforeEach(() => {
+      outbox = new InMemoryOutbox();
+      repository = createRepository();
+      service = new ReservationService(new EmailDuplicatePolicy(), { repository, outbox });
+    });
+
+    it('should record an event for every state change', async () => {
+      const created = await service.createReservation(booking());
+      await service.updateReservation(created.id, { numberOfPeople: 3 });
+      await service.confirmReservation(created.id);
+      await service.completeReservation(created.id);
+      await service.deleteReservation(created.id);
+
+      expect(await recorded()).toEqual([
+        'reservation.created',
+        'reservation.updated',
+        'reservation.confirmed',
+        'reservation.completed',
+        'reservation.deleted'
+      ]);
+      expect((await outbox.pending()).every(entry => entry.event.aggregateId === created.id)).toBe(true);
+    });
+
+    it('should create a confirmed reservation with a single write', async () => {
+      const save = jest.spyOn(repository, 'save');
+
+      const created = await service.createReservation(booking(), { confirm: true });
+
+      expect(created.status).toBe('confirmed');
+      expect(save).toHaveBeenCalledTimes(1);
+      expect(await service.getReservation(created.id)).toBe(created);
+      expect(await recorded()).toEqual(['reservation.created', 'reservation.confirmed']);
+    });
+
+    it('should describe the change in the event payload', async () => {
+      const created = await service.createReservation(booking());
+      await service.cancelReservation(created.id);
+
+      const [, cancelled] = await outbox.pending();
+      expect(cancelled.event).toMatchObject({
+        type: 'reservation.cancelled',
+        payload: { previousStatus: 'pending', reservation: { id: created.id, status: 'cancelled' } }
+      });
+    });
+
+    it('should not record events for rejected changes', async () => {
+      const created = await service.createReservation(booking());
+      await service.cancelReservation(created.id);
+
+      await expect(service.cancelReservation(created.id)).rejects.toThrow(InvalidStatusTransitionError);
+      await expect(service.createReservation(booking())).resolves.toBeDefined();
+      await expect(service.createReservation(booking())).rejects.toThrow(DuplicateReservationError);
+      expect(await service.deleteReservation('missing')).toBe(false);
+
+      expect(await recorded()).toEqual(['reservation.created', 'reservation.cancelled', 'reservation.created']);
+    });
+
+    it('should keep events undeliverable until the reservation is stored', async () => {
+      const duringWrite: number[] = [];
+      const save = repository.save.bind(repository);
+      jest.spyOn(repository, 'save').mockImplementation(async reservation => {
+        duringWrite.push((await outbox.pending()).length, (await outbox.staged()).length);
+        await save(reservation);
+      });
+
+      await service.createReservation(booking());
+
+      expect(duringWrite).toEqual([0, 1]);
+      expect(await recorded()).toEqual(['reservation.created']);
+    });
+
+    it('should settle events left staged by a crash against the stored reservations', async () => {
+      const stored = booking();
+      const confirmed = stored.confirm(new Date(stored.createdAt.getTime() + 1000));
+      const lost = booking();
+      await repository.save(confirmed);
+      await outbox.append([
+        ReservationEvents.created(stored),
+        ReservationEvents.statusChanged(confirmed, 'pending'),
+        ReservationEvents.created(lost)
+      ]);
+
+      await service.recoverOutbox();
+
+      expect(await outbox.staged()).toEqual([]);
+      expect((await outbox.pending()).map(entry => [entry.event.type, entry.event.aggregateId])).toEqual([
+        ['reservation.created', stored.id],
+        ['reservation.confirmed', stored.id]
+      ]);
+    });
+
+    it('should withdraw the event when the reservation cannot be stored', async () => {
+      jest.spyOn(repository, 'save').mockRejectedValueOnce(new Error('disk full'));
+
+      await expect(service.createReservation(booking())).rejects.toThrow('disk full');
+      expect(await recorded()).toEqual([]);
+    });
+  });
+
   describe('findByEmail', () => {
     it('should find reservations by email', async () => {
       const email = EmailValidator.validate('john@example.com');
       const reservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email,
         amount: CurrencyUtils.create(100, 'EUR')
@@ -319,6 +1012,21 @@ describe('ReservationService', () => {
       expect(results[0]).toBe(reservation);
     });
 
+    it('should match emails regardless of case', async () => {
+      const reservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
+        name: 'Maria Garcia',
+        email: EmailValidator.validate('Maria@Example.com'),
+        amount: CurrencyUtils.create(100, 'EUR')
+      });
+
+      await service.createReservation(reservation);
+
+      expect(await service.findByEmail(EmailValidator.validate('maria@example.com'))).toEqual([reservation]);
+    });
+
     it('should return empty array when no reservations match', async () => {
       const email = EmailValidator.validate('nonexistent@example.com');
       const results = await service.findByEmail(email);
@@ -331,12 +1039,18 @@ describe('ReservationService', () => {
       const email = EmailValidator.validate('john@example.com');
 
       const reservation1 = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email,
         amount: CurrencyUtils.create(100, 'EUR')
       });
 
       const reservation2 = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe Jr',
         email,
         amount: CurrencyUtils.create(150, 'EUR')
@@ -357,12 +1071,18 @@ describe('ReservationService', () => {
       const email2 = EmailValidator.validate('jane@example.com');
 
       const reservation1 = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email: email1,
         amount: CurrencyUtils.create(100, 'EUR')
       });
 
       const reservation2 = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'Jane Doe',
         email: email2,
         amount: CurrencyUtils.create(150, 'EUR')
@@ -380,6 +1100,9 @@ describe('ReservationService', () => {
     it('should not find deleted reservations', async () => {
       const email = EmailValidator.validate('john@example.com');
       const reservation = Reservation.create({
+        activityId: 'act_madrid_tour_2024',
+        date: '2024-12-15',
+        numberOfPeople: 2,
         name: 'John Doe',
         email,
         amount: CurrencyUtils.create(100, 'EUR')
@@ -0,0 +1,400 @@
+#!/usr/bin/env node
+
+/**
+ * OpenAPI Client Generator
+ * Generates TypeScript request/response types and a typed fetch client from openapi/reservations.yaml
+ * Usage: node generate-client.mjs [--check]
+ */
+
+import { readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname, relative, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { parse } from 'yaml';
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const SPEC_FILE = resolve(ROOT, 'openapi/reservations.yaml');
+const TYPES_FILE = resolve(ROOT, 'src/client/ReservationTypes.ts');
+const CLIENT_FILE = resolve(ROOT, 'src/client/ReservationClient.ts');
+
+const HEADER = '// Generated by tools/generate-client.mjs from openapi/reservations.yaml. Do not edit by hand.\n';
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+/**
+ * Returns the name of the component a $ref points to
+ * @param {string} ref - Local reference such as #/components/schemas/Money
+ * @returns {string}
+ */
+function refName(ref) {
+  return ref.split('/').pop();
+}
+
+/**
+ * Follows a local $ref inside the document
+ * @param {object} spec - Parsed OpenAPI document
+ * @param {object} node - Node that may be a reference
+ * @returns {object}
+ */
+function deref(spec, node) {
+  if (!node?.$ref) {
+    return node;
+  }
+  return node.$ref.slice(2).split('/').reduce((target, segment) => target[segment], spec);
+}
+
+function pascalCase(name) {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function camelCase(name) {
+  const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return words.map((word, index) => (index === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : pascalCase(word))).join('');
+}
+
+function literal(value) {
+  return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : String(value);
+}
+
+function propertyKey(name) {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : literal(name);
+}
+
+function docComment(description, indent) {
+  const summary = description?.trim().split(/\n\s*\n/)[0].split('\n').map(line => line.trim()).join(' ');
+  return summary ? `${indent}/** ${summary.replace(/\*\//g, '*\\/')} */\n` : '';
+}
+
+/**
+ * Renders a schema as a TypeScript type expression
+ * @param {object} schema - OpenAPI schema object
+ * @param {string} indent - Indentation of the line the type starts on
+ * @returns {string}
+ */
+function typeOf(schema, indent = '') {
+  if (!schema) {
+    return 'unknown';
+  }
+  if (schema.$ref) {
+    return refName(schema.$ref);
+  }
+  if (schema.oneOf || schema.anyOf) {
+    return (schema.oneOf ?? schema.anyOf).map(member => typeOf(member, indent)).join(' | ');
+  }
+  if (schema.allOf) {
+    return schema.allOf.map(member => typeOf(member, indent)).join(' & ');
+  }
+
+  let type;
+  if (schema.enum) {
+    type = schema.enum.map(literal).join(' | ');
+  } else if (schema.type === 'array') {
+    const items = typeOf(schema.items, indent);
+    type = /[|&]/.test(items) ? `(${items})[]` : `${items}[]`;
+  } else if (schema.type === 'object' || schema.properties) {
+    type = objectType(schema, indent);
+  } else if (schema.type === 'string') {
+    type = schema.format === 'binary' ? 'ArrayBuffer' : 'string';
+  } else if (schema.type === 'integer' || schema.type === 'number') {
+    type = 'number';
+  } else if (schema.type === 'boolean') {
+    type = 'boolean';
+  } else {
+    type = 'unknown';
+  }
+  return schema.nullable ? `${type} | null` : type;
+}
+
+function objectType(schema, indent) {
+  const properties = Object.entries(schema.properties ?? {});
+  if (properties.length === 0) {
+    return schema.additionalProperties === false ? 'Record<string, never>' : 'Record<string, unknown>';
+  }
+  return `{\n${objectMembers(schema, `${indent}  `)}${indent}}`;
+}
+
+function objectMembers(schema, indent) {
+  const required = new Set(schema.required ?? []);
+  let members = '';
+  for (const [name, property] of Object.entries(schema.properties ?? {})) {
+    members += docComment(property.description, indent);
+    members += `${indent}${propertyKey(name)}${required.has(name) ? '' : '?'}: ${typeOf(property, indent)};\n`;
+  }
+  if (schema.additionalProperties === true || typeof schema.additionalProperties === 'object') {
+    members += `${indent}[key: string]: ${schema.additionalProperties === true ? 'unknown' : typeOf(schema.additionalProperties, indent)};\n`;
+  }
+  return members;
+}
+
+function declaration(name, schema) {
+  const doc = docComment(schema.description, '');
+  if ((schema.type === 'object' || schema.properties) && Object.keys(schema.properties ?? {}).length > 0 && !schema.nullable) {
+    return `${doc}export interface ${name} {\n${objectMembers(schema, '  ')}}\n`;
+  }
+  return `${doc}export type ${name} = ${typeOf(schema)};\n`;
+}
+
+/**
+ * Lists every operation with its resolved parameters, body and responses
+ * @param {object} spec - Parsed OpenAPI document
+ * @returns {object[]}
+ */
+function operationsOf(spec) {
+  const operations = [];
+  for (const [path, item] of Object.entries(spec.paths ?? {})) {
+    for (const method of HTTP_METHODS.filter(candidate => item[candidate]?.operationId)) {
+      const operation = item[method];
+      const parameters = new Map();
+      for (const parameter of [...(item.parameters ?? []), ...(operation.parameters ?? [])].map(p => deref(spec, p))) {
+        parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+      }
+      const requestBody = deref(spec, operation.requestBody);
+
+      operations.push({
+        id: operation.operationId,
+        method: method.toUpperCase(),
+        path,
+        summary: operation.summary,
+        parameters: [...parameters.values()].filter(parameter => parameter.in !== 'cookie'),
+        body: requestBody && {
+          required: requestBody.required === true,
+          schema: requestBody.content?.['application/json']?.schema
+        },
+        responses: Object.entries(operation.responses ?? {})
+          .filter(([status]) => /^\d{3}$/.test(status))
+          .map(([status, response]) => ({ status: Number(status), content: deref(spec, response).content ?? {} }))
+          .sort((a, b) => a.status - b.status)
+      });
+    }
+  }
+  return operations;
+}
+
+function responseDataType(content) {
+  const types = Object.entries(content).map(([mediaType, media]) => {
+    if (mediaType.includes('json')) {
+      return typeOf(media.schema);
+    }
+    return mediaType.startsWith('text/') || mediaType.endsWith('+xml') ? 'string' : 'ArrayBuffer';
+  });
+  return types.length === 0 ? 'undefined' : [...new Set(types)].join(' | ');
+}
+
+function parametersDeclaration(operation) {
+  const members = operation.parameters.map(parameter => (
+    docComment(parameter.description, '  ') +
+    `  ${camelCase(parameter.name)}${parameter.required ? '' : '?'}: ${typeOf(parameter.schema, '  ')};\n`
+  ));
+  if (operation.body) {
+    members.push(`  body${operation.body.required ? '' : '?'}: ${typeOf(operation.body.schema, '  ')};\n`);
+  }
+  if (members.length === 0) {
+    return '';
+  }
+  return `export interface ${pascalCase(operation.id)}Parameters {\n${members.join('')}}\n`;
+}
+
+function responseDeclaration(operation) {
+  const members = operation.responses.map(({ status, content }) => (
+    `  | ${status < 400 ? 'ApiSuccess' : 'ApiFailure'}<${status}, ${responseDataType(content)}>`
+  ));
+  return `export type ${pascalCase(operation.id)}Response =\n${members.join('\n')};\n`;
+}
+
+/**
+ * Renders the types module
+ * @param {object} spec - Parsed OpenAPI document
+ * @returns {string}
+ */
+function renderTypes(spec) {
+  const sections = [
+    HEADER,
+    Object.entries(spec.components?.schemas ?? {}).map(([name, schema]) => declaration(name, schema)).join('\n'),
+    [
+      'export interface ApiSuccess<Status extends number, Data> {',
+      '  ok: true;',
+      '  status: Status;',
+      '  data: Data;',
+      '  headers: Headers;',
+      '}',
+      '',
+      'export interface ApiFailure<Status extends number, Data> {',
+      '  ok: false;',
+      '  status: Status;',
+      '  data: Data;',
+      '  headers: Headers;',
+      '}',
+      ''
+    ].join('\n')
+  ];
+  for (const operation of operationsOf(spec)) {
+    sections.push([parametersDeclaration(operation), responseDeclaration(operation)].filter(Boolean).join('\n'));
+  }
+  return sections.join('\n');
+}
+
+function requestPath(operation) {
+  const path = operation.path.replace(/\{([^}]+)\}/g, (_, name) => `\${encodeURIComponent(parameters.${camelCase(name)})}`);
+  return path.includes('${') ? `\`${path}\`` : literal(path);
+}
+
+function requestMembers(operation, location) {
+  return operation.parameters
+    .filter(parameter => parameter.in === location)
+    .map(parameter => `${propertyKey(parameter.name)}: parameters.${camelCase(parameter.name)}`);
+}
+
+function objectLiteral(members) {
+  if (members.length <= 2) {
+    return `{ ${members.join(', ')} }`;
+  }
+  return `{\n${members.map(member => `        ${member}`).join(',\n')}\n      }`;
+}
+
+function clientMethod(operation) {
+  const name = pascalCase(operation.id);
+  const hasParameters = operation.parameters.length > 0 || operation.body;
+  const optional = !operation.body?.required && operation.parameters.every(parameter => !parameter.required);
+  const signature = hasParameters ? `parameters: ${name}Parameters${optional ? ' = {}' : ''}` : '';
+
+  const request = [`path: ${requestPath(operation)}`];
+  const query = requestMembers(operation, 'query');
+  const headers = requestMembers(operation, 'header');
+  if (query.length > 0) {
+    request.push(`query: ${objectLiteral(query)}`);
+  }
+  if (headers.length > 0) {
+    request.push(`headers: ${objectLiteral(headers)}`);
+  }
+  if (operation.body) {
+    request.push('body: parameters.body');
+  }
+
+  return [
+    docComment(operation.summary, '  ').trimEnd(),
+    `  ${operation.id}(${signature}): Promise<${name}Response> {`,
+    `    return this.send<${name}Response>('${operation.id}', '${operation.method}', [${operation.responses.map(r => r.status).join(', ')}], {`,
+    request.map(line => `      ${line}`).join(',\n'),
+    '    });',
+    '  }'
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Renders the client module
+ * @param {object} spec - Parsed OpenAPI document
+ * @returns {string}
+ */
+function renderClient(spec) {
+  const operations = operationsOf(spec);
+  const imports = operations.flatMap(operation => [
+    ...(operation.parameters.length > 0 || operation.body ? [`${pascalCase(operation.id)}Parameters`] : []),
+    `${pascalCase(operation.id)}Response`
+  ]);
+
+  return `${HEADER}import {
+${imports.map(name => `  ${name}`).join(',\n')}
+} from './ReservationTypes';
+
+export interface ReservationClientOptions {
+  baseUrl: string;
+  token?: string | (() => string | Promise<string>);
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+interface RequestParts {
+  path: string;
+  query?: Record<string, string | number | boolean | undefined>;
+  headers?: Record<string, string | undefined>;
+  body?: unknown;
+}
+
+export class UnexpectedStatusError extends Error {
+  constructor(readonly operationId: string, readonly status: number, readonly body: string) {
+    super(\`\${operationId} answered with undocumented status \${status}\`);
+    this.name = 'UnexpectedStatusError';
+  }
+}
+
+export class ReservationClient {
+  constructor(private readonly options: ReservationClientOptions) {}
+
+${operations.map(clientMethod).join('\n\n')}
+
+  private async send<T>(operationId: string, method: string, statuses: number[], request: RequestParts): Promise<T> {
+    const url = new URL(\`\${this.options.baseUrl.replace(/\\/$/, '')}\${request.path}\`);
+    for (const [name, value] of Object.entries(request.query ?? {})) {
+      if (value !== undefined) {
+        url.searchParams.set(name, String(value));
+      }
+    }
+
+    const headers: Record<string, string> = { ...this.options.headers };
+    for (const [name, value] of Object.entries(request.headers ?? {})) {
+      if (value !== undefined) {
+        headers[name] = value;
+      }
+    }
+    const token = typeof this.options.token === 'function' ? await this.options.token() : this.options.token;
+    if (token) {
+      headers.Authorization = \`Bearer \${token}\`;
+    }
+    if (request.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const response = await (this.options.fetch ?? fetch)(url, {
+      method,
+      headers,
+      body: request.body === undefined ? undefined : JSON.stringify(request.body)
+    });
+    if (!statuses.includes(response.status)) {
+      throw new UnexpectedStatusError(operationId, response.status, await response.text());
+    }
+    return { ok: response.ok, status: response.status, data: await this.read(response), headers: response.headers } as T;
+  }
+
+  private async read(response: Response): Promise<unknown> {
+    const contentType = response.headers.get('Content-Type') ?? '';
+    if (contentType.includes('json')) {
+      return response.json();
+    }
+    if (contentType.startsWith('text/') || contentType.includes('+xml')) {
+      return response.text();
+    }
+    const body = await response.arrayBuffer();
+    return body.byteLength === 0 ? undefined : body;
+  }
+}
+`;
+}
+
+const check = process.argv.includes('--check');
+const spec = parse(readFileSync(SPEC_FILE, 'utf-8'));
+const outputs = [
+  [TYPES_FILE, renderTypes(spec)],
+  [CLIENT_FILE, renderClient(spec)]
+];
+
+if (check) {
+  const stale = outputs.filter(([file, content]) => {
+    try {
+      return readFileSync(file, 'utf-8') !== content;
+    } catch {
+      return true;
+    }
+  });
+
+  if (stale.length > 0) {
+    console.error('\n❌ Generated client is out of date with openapi/reservations.yaml:\n');
+    stale.forEach(([file]) => console.error(`   ${relative(ROOT, file)}`));
+    console.error('\nRun `npm run generate:client` and commit the result.\n');
+    process.exit(1);
+  }
+  console.log('\n✅ Generated client is up to date\n');
+} else {
+  for (const [file, content] of outputs) {
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, content);
+    console.log(`✅ Wrote ${relative(ROOT, file)}`);
+  }
+}